@@ -3,17 +3,28 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { Book, ReadingStatus, SeriesBook } from '@/types/book';
-import { firestoreStorage } from '@/utils/firestoreStorage';
+import { Book, BookNote, BookUpdate, Highlight, ReadingFormat, ReadingSession, ReadingStatus, SeriesBook, Shelf, ShelfColor } from '@/types/book';
+import { libraryRepository, REQUIRES_ACCOUNT } from '@/utils/repository';
 import { googleBooksAPI } from '@/utils/googleBooks';
+import { readingStatus } from '@/utils/readingStatus';
+import { applyUpdate } from '@/utils/storage';
+import { libraryMatching } from '@/utils/libraryMatching';
+import { seriesUtils, SeriesGroup } from '@/utils/series';
 import { 
   ArrowLeft, BookOpen, Calendar, Hash, Star, Edit3, Trash2, 
-  Clock, CheckCircle2,
+  Clock, CheckCircle2, Heart, PauseCircle, XCircle,
   FileText, Target, User, LogOut, ChevronDown, BookMarked,
-  Home, Tablet
+  Home, Tablet, NotebookPen, RotateCcw, History, CloudOff, Highlighter
 } from 'lucide-react';
 import { format } from 'date-fns';
 import Image from 'next/image';
+import Link from 'next/link';
+import ReadingSessionLog from '@/components/ReadingSessionLog';
+import ReadingProgressChart from '@/components/ReadingProgressChart';
+import BookNotes from '@/components/BookNotes';
+import BookHighlights from '@/components/BookHighlights';
+import ShelfEditor from '@/components/ShelfEditor';
+import BookEditForm from '@/components/BookEditForm';
 
 export default function BookProfilePage() {
   const params = useParams();
@@ -21,54 +32,75 @@ export default function BookProfilePage() {
   const { user, signOut } = useAuth();
   const [book, setBook] = useState<Book | null>(null);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'overview' | 'progress' | 'series'>('overview');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'overview' | 'progress' | 'notes' | 'highlights' | 'series'>('overview');
   const [isEditing, setIsEditing] = useState(false);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const [seriesBooks, setSeriesBooks] = useState<SeriesBook[]>([]);
   const [loadingSeries, setLoadingSeries] = useState(false);
+  const [readingSessions, setReadingSessions] = useState<ReadingSession[]>([]);
+  const [notes, setNotes] = useState<BookNote[]>([]);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [rereadFormat, setRereadFormat] = useState<ReadingFormat>('print');
+  const [shelves, setShelves] = useState<Shelf[]>([]);
+  const [seriesGroup, setSeriesGroup] = useState<SeriesGroup | null>(null);
 
+  // Follow just this book rather than the whole library, so changes made here or elsewhere show up
   useEffect(() => {
     if (!user) {
       router.push('/');
       return;
     }
+    if (typeof params.id !== 'string') return;
 
-    const loadBook = async () => {
-      try {
-        const books = await firestoreStorage.getBooks();
-        const foundBook = books.find(b => b.id === params.id);
-        if (foundBook) {
-          setBook(foundBook);
-        } else {
-          router.push('/');
-        }
-      } catch (error) {
-        console.error('Error loading book:', error);
+    const unsubscribe = libraryRepository.onBookChange(params.id, (updatedBook) => {
+      setLoading(false);
+      setLoadError(null);
+      if (updatedBook) {
+        setBook(updatedBook);
+      } else {
         router.push('/');
-      } finally {
-        setLoading(false);
       }
-    };
-
-    loadBook();
+    }, (error) => {
+      setLoading(false);
+      setLoadError(error.message || 'This book could not be loaded.');
+    });
+    return unsubscribe;
   }, [params.id, user, router]);
 
+  // Keep the reading session log, notes, highlights and shelves in sync with the library
+  useEffect(() => {
+    if (!user || typeof params.id !== 'string') return;
+
+    const unsubscribeSessions = libraryRepository.onReadingSessionsChange(params.id, setReadingSessions);
+    const unsubscribeNotes = libraryRepository.onBookNotesChange(params.id, setNotes);
+    const unsubscribeHighlights = libraryRepository.onHighlightsChange(params.id, setHighlights);
+    const unsubscribeShelves = libraryRepository.onShelvesChange(setShelves);
+    return () => {
+      unsubscribeSessions();
+      unsubscribeNotes();
+      unsubscribeHighlights();
+      unsubscribeShelves();
+    };
+  }, [params.id, user]);
+
   const loadSeriesBooks = async (book: Book) => {
     setLoadingSeries(true);
     try {
-      const books = await googleBooksAPI.searchSeriesBooks(book.author, book.title);
+      const books = await googleBooksAPI.searchSeriesBooks(book.author, book.title, 20, book.series);
       
-      // Check which books are in user's library
-      const userBooks = await firestoreStorage.getBooks();
-      const booksWithLibraryStatus = books.map(seriesBook => ({
-        ...seriesBook,
-        inLibrary: userBooks.some(userBook => 
-          userBook.title.toLowerCase().includes(seriesBook.title.toLowerCase()) ||
-          seriesBook.title.toLowerCase().includes(userBook.title.toLowerCase())
-        )
-      }));
+      // Check which books are in user's library or wish list
+      const [userBooks, wishListBooks] = await Promise.all([
+        libraryRepository.getBooks(),
+        libraryRepository.getWishListBooks(),
+      ]);
+      const booksWithLibraryStatus = libraryMatching.annotateSeriesBooks(books, userBooks, wishListBooks);
 
       setSeriesBooks(booksWithLibraryStatus);
+      if (book.series) {
+        const seriesKey = seriesUtils.getSeriesKey(book.series);
+        setSeriesGroup(seriesUtils.groupBySeries(userBooks).find(group => seriesUtils.getSeriesKey(group.name) === seriesKey) || null);
+      }
     } catch (error) {
       console.error('Error loading series books:', error);
     } finally {
@@ -95,6 +127,31 @@ export default function BookProfilePage() {
     );
   }
 
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <div className="text-white text-xl">This book could not be loaded</div>
+          <p className="text-white/70 text-sm">{loadError}</p>
+          <div className="flex gap-3 justify-center">
+            <button
+              onClick={() => window.location.reload()}
+              className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+            >
+              Try again
+            </button>
+            <button
+              onClick={() => router.push('/')}
+              className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+            >
+              Back to library
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (!book) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center">
@@ -104,6 +161,13 @@ export default function BookProfilePage() {
   }
 
   const statusConfig = {
+    'want-to-read': {
+      icon: Heart,
+      label: 'Want to Read',
+      color: 'border-red-200 bg-red-50 text-red-700',
+      bgColor: 'bg-red-50',
+      textColor: 'text-red-700'
+    },
     'currently-reading': {
       icon: Clock,
       label: 'Currently Reading',
@@ -111,6 +175,13 @@ export default function BookProfilePage() {
       bgColor: 'bg-orange-50',
       textColor: 'text-orange-700'
     },
+    'paused': {
+      icon: PauseCircle,
+      label: 'Paused',
+      color: 'border-yellow-200 bg-yellow-50 text-yellow-700',
+      bgColor: 'bg-yellow-50',
+      textColor: 'text-yellow-700'
+    },
     'read': {
       icon: CheckCircle2,
       label: 'Read',
@@ -118,6 +189,13 @@ export default function BookProfilePage() {
       bgColor: 'bg-green-50',
       textColor: 'text-green-700'
     },
+    'dnf': {
+      icon: XCircle,
+      label: 'Did Not Finish',
+      color: 'border-gray-300 bg-gray-100 text-gray-700',
+      bgColor: 'bg-gray-100',
+      textColor: 'text-gray-700'
+    },
   };
 
   const ownershipConfig = {
@@ -135,38 +213,111 @@ export default function BookProfilePage() {
     },
   };
 
+  const seriesProgress = seriesGroup ? seriesUtils.getProgress(seriesGroup, seriesBooks) : null;
+
+  const readingFormatLabels: Record<ReadingFormat, string> = {
+    'print': 'Print',
+    'ebook': 'eBook',
+    'audiobook': 'Audiobook',
+  };
+
   const handleStatusChange = async (newStatus: ReadingStatus) => {
-    const updates: Partial<Book> = { status: newStatus };
+    const updates = readingStatus.getTransitionUpdates(book, newStatus);
     
-    if (newStatus === 'currently-reading' && !book.dateStarted) {
-      updates.dateStarted = new Date();
-    } else if (newStatus === 'read') {
-      if (!book.dateStarted) updates.dateStarted = new Date();
-      updates.dateFinished = new Date();
+    await libraryRepository.updateBook(book.id, updates);
+    setBook(applyUpdate(book, updates));
+  };
+
+  const handleStartReread = async () => {
+    if (!window.confirm('Start reading this book again? Your current dates and rating will be saved to its reading history.')) {
+      return;
     }
+    const updates = readingStatus.startReread(book, rereadFormat);
     
-    await firestoreStorage.updateBook(book.id, updates);
-    setBook({ ...book, ...updates });
+    await libraryRepository.updateBook(book.id, updates);
+    setBook(applyUpdate(book, updates));
+  };
+
+  const handleDnfDetailsChange = async (updates: Pick<BookUpdate, 'dnfReason'> | Pick<BookUpdate, 'stoppedAtPage'>) => {
+    await libraryRepository.updateBook(book.id, updates);
+    setBook(applyUpdate(book, updates));
+  };
+
+  const handleSaveDetails = async (updates: BookUpdate) => {
+    const updatedBook = await libraryRepository.updateBook(book.id, updates);
+    if (!updatedBook) {
+      throw new Error('Failed to update book');
+    }
+    setBook(updatedBook);
+    setIsEditing(false);
   };
 
   const handleRatingChange = async (rating: number) => {
-    await firestoreStorage.updateBook(book.id, { rating });
+    await libraryRepository.updateBook(book.id, { rating });
     setBook({ ...book, rating });
   };
 
   const handleOwnershipTypeChange = async (ownershipType: 'physical' | 'digital') => {
-    await firestoreStorage.updateBook(book.id, { ownershipType });
+    await libraryRepository.updateBook(book.id, { ownershipType });
     setBook({ ...book, ownershipType });
   };
 
   const handleProgressUpdate = async (currentPage: number) => {
-    await firestoreStorage.updateBook(book.id, { currentPage });
+    await libraryRepository.updateBook(book.id, { currentPage });
     setBook({ ...book, currentPage });
   };
 
+  const handleAddReadingSession = async (session: Omit<ReadingSession, 'id'>) => {
+    await libraryRepository.addReadingSession(session);
+    if (session.endPage !== undefined) {
+      setBook({ ...book, currentPage: session.endPage });
+    }
+  };
+
+  const handleDeleteReadingSession = async (id: string) => {
+    if (window.confirm('Delete this reading session?')) {
+      await libraryRepository.deleteReadingSession(id);
+    }
+  };
+
+  const handleAddToShelf = async (shelfId: string) => {
+    await libraryRepository.addBookToShelf(book.id, shelfId);
+    setBook({ ...book, shelfIds: [...(book.shelfIds || []), shelfId] });
+  };
+
+  const handleRemoveFromShelf = async (shelfId: string) => {
+    await libraryRepository.removeBookFromShelf(book.id, shelfId);
+    setBook({ ...book, shelfIds: (book.shelfIds || []).filter(id => id !== shelfId) });
+  };
+
+  const handleCreateShelf = async (name: string, color: ShelfColor) => {
+    return libraryRepository.addShelf(name, color);
+  };
+
+  const handleAddNote = async (note: Omit<BookNote, 'id' | 'dateAdded' | 'dateUpdated'>) => {
+    await libraryRepository.addBookNote(note);
+  };
+
+  const handleUpdateNote = async (id: string, updates: Partial<Pick<BookNote, 'type' | 'content' | 'page'>>) => {
+    const updated = await libraryRepository.updateBookNote(id, updates);
+    if (!updated) throw new Error('Failed to update note');
+  };
+
+  const handleDeleteNote = async (id: string) => {
+    if (window.confirm('Delete this note?')) {
+      await libraryRepository.deleteBookNote(id);
+    }
+  };
+
+  const handleDeleteHighlight = async (id: string) => {
+    if (window.confirm('Delete this highlight?')) {
+      await libraryRepository.deleteHighlight(id);
+    }
+  };
+
   const handleDelete = async () => {
     if (window.confirm('Are you sure you want to delete this book from your library?')) {
-      await firestoreStorage.deleteBook(book.id);
+      await libraryRepository.deleteBook(book.id);
       router.push('/');
     }
   };
@@ -188,6 +339,8 @@ export default function BookProfilePage() {
   const tabs = [
     { key: 'overview', label: 'Overview', icon: BookOpen },
     { key: 'progress', label: 'Progress', icon: Target },
+    { key: 'notes', label: 'Notes', icon: NotebookPen },
+    { key: 'highlights', label: 'Highlights', icon: Highlighter },
     { key: 'series', label: 'Books in this series', icon: BookMarked },
   ];
 
@@ -212,7 +365,15 @@ export default function BookProfilePage() {
                 </div>
                 <div>
                   <h1 className="text-xl font-semibold text-white line-clamp-1">{book.title}</h1>
-                  <p className="text-sm text-white/70">by {book.author}</p>
+                  <p className="text-sm text-white/70">
+                    by {book.author}
+                    {book.pendingSync && (
+                      <span className="inline-flex items-center gap-1 ml-2 text-amber-200" title="Saved on this device, waiting to sync">
+                        <CloudOff className="h-3.5 w-3.5" />
+                        Waiting to sync
+                      </span>
+                    )}
+                  </p>
                 </div>
               </div>
             </div>
@@ -244,15 +405,17 @@ export default function BookProfilePage() {
                 <div className="absolute right-0 mt-2 w-48 bg-white/10 backdrop-blur-lg rounded-lg shadow-lg border border-white/20 z-50">
                   <div className="py-1">
                     <div className="px-4 py-2 text-sm text-white/80 border-b border-white/10">
-                      {user.email}
+                      {REQUIRES_ACCOUNT ? user.email : 'Stored on this device'}
                     </div>
-                    <button
-                      onClick={handleSignOut}
-                      className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
-                    >
-                      <LogOut className="h-4 w-4 mr-2" />
-                      Sign Out
-                    </button>
+                    {REQUIRES_ACCOUNT && (
+                      <button
+                        onClick={handleSignOut}
+                        className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                      >
+                        <LogOut className="h-4 w-4 mr-2" />
+                        Sign Out
+                      </button>
+                    )}
                   </div>
                 </div>
               )}
@@ -294,15 +457,15 @@ export default function BookProfilePage() {
 
         {/* Tabs */}
         <div className="bg-white/10 backdrop-blur-lg rounded-xl border border-white/20 mb-8">
-          <nav className="flex px-6" aria-label="Tabs">
+          <nav className="flex px-6 overflow-x-auto hide-scrollbar" aria-label="Tabs">
             {tabs.map((tab) => {
               const Icon = tab.icon;
               const isActive = activeTab === tab.key;
               return (
                 <button
                   key={tab.key}
-                  onClick={() => setActiveTab(tab.key as 'overview' | 'progress' | 'series')}
-                  className={`flex items-center gap-2 py-4 px-4 font-medium text-sm border-b-2 transition-colors ${
+                  onClick={() => setActiveTab(tab.key as 'overview' | 'progress' | 'notes' | 'highlights' | 'series')}
+                  className={`flex items-center gap-2 py-4 px-4 font-medium text-sm border-b-2 whitespace-nowrap transition-colors ${
                     isActive
                       ? 'border-blue-400 text-white'
                       : 'border-transparent text-white/70 hover:text-white hover:border-white/30'
@@ -318,8 +481,20 @@ export default function BookProfilePage() {
 
         {/* Content Area */}
         <div className="bg-white rounded-2xl shadow-xl p-8">
+          {/* Edit Form */}
+          {isEditing && (
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">Edit Book Details</h2>
+              <BookEditForm
+                book={book}
+                onSave={handleSaveDetails}
+                onCancel={() => setIsEditing(false)}
+              />
+            </div>
+          )}
+
           {/* Overview Tab */}
-          {activeTab === 'overview' && (
+          {!isEditing && activeTab === 'overview' && (
             <div className="space-y-6">
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Book Cover & Basic Info */}
@@ -350,6 +525,15 @@ export default function BookProfilePage() {
 
                     {/* Book Details */}
                     <div className="space-y-3 text-sm">
+                      {book.series && (
+                        <div className="flex items-center gap-2">
+                          <BookMarked className="h-4 w-4 text-gray-400" />
+                          <span className="text-gray-600">Series:</span>
+                          <span className="text-gray-900">
+                            {book.series}{book.seriesNumber !== undefined && ` #${book.seriesNumber}`}
+                          </span>
+                        </div>
+                      )}
                       {book.isbn && (
                         <div className="flex items-center gap-2">
                           <Hash className="h-4 w-4 text-gray-400" />
@@ -371,6 +555,13 @@ export default function BookProfilePage() {
                           <span className="text-gray-900">{book.genre}</span>
                         </div>
                       )}
+                      {(book.publisher || book.publishedYear) && (
+                        <div className="flex items-center gap-2">
+                          <Calendar className="h-4 w-4 text-gray-400" />
+                          <span className="text-gray-600">Published:</span>
+                          <span className="text-gray-900">{[book.publisher, book.publishedYear].filter(Boolean).join(', ')}</span>
+                        </div>
+                      )}
                       <div className="flex items-center gap-2">
                         <Calendar className="h-4 w-4 text-gray-400" />
                         <span className="text-gray-600">Added:</span>
@@ -386,7 +577,7 @@ export default function BookProfilePage() {
                       {book.dateFinished && (
                         <div className="flex items-center gap-2">
                           <Calendar className="h-4 w-4 text-gray-400" />
-                          <span className="text-gray-600">Finished:</span>
+                          <span className="text-gray-600">{book.status === 'dnf' ? 'Stopped:' : 'Finished:'}</span>
                           <span className="text-gray-900">{format(book.dateFinished, 'MMM d, yyyy')}</span>
                         </div>
                       )}
@@ -403,14 +594,18 @@ export default function BookProfilePage() {
                       {Object.entries(statusConfig).map(([status, config]) => {
                         const Icon = config.icon;
                         const isActive = book.status === status;
+                        const isAllowed = readingStatus.canTransition(book.status, status as ReadingStatus);
                         return (
                           <button
                             key={status}
                             onClick={() => handleStatusChange(status as ReadingStatus)}
+                            disabled={!isAllowed}
                             className={`p-3 rounded-lg border-2 text-center text-sm font-medium transition-all ${
                               isActive 
                                 ? config.color + ' ring-2 ring-offset-2'
-                                : 'border-gray-200 hover:border-gray-300'
+                                : isAllowed
+                                  ? 'border-gray-200 hover:border-gray-300'
+                                  : 'border-gray-100 text-gray-300 cursor-not-allowed'
                             }`}
                           >
                             <Icon className="h-5 w-5 mx-auto mb-1" />
@@ -447,6 +642,18 @@ export default function BookProfilePage() {
                     </div>
                   </div>
 
+                  {/* Shelves & Tags */}
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-3">Shelves &amp; Tags</h3>
+                    <ShelfEditor
+                      shelves={shelves}
+                      selectedIds={book.shelfIds || []}
+                      onAdd={handleAddToShelf}
+                      onRemove={handleRemoveFromShelf}
+                      onCreate={handleCreateShelf}
+                    />
+                  </div>
+
                   {/* Rating */}
                   {book.status === 'read' && (
                     <div>
@@ -476,8 +683,76 @@ export default function BookProfilePage() {
                     </div>
                   )}
 
+                  {/* Re-read */}
+                  {book.status === 'read' && (
+                    <div>
+                      <h3 className="font-semibold text-gray-900 mb-3">Read It Again</h3>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <select
+                          value={rereadFormat}
+                          onChange={(e) => setRereadFormat(e.target.value as ReadingFormat)}
+                          className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                        >
+                          {Object.entries(readingFormatLabels).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={handleStartReread}
+                          className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          Start re-read
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Did Not Finish Details */}
+                  {book.status === 'dnf' && (
+                    <div>
+                      <h3 className="font-semibold text-gray-900 mb-3">Why I Stopped</h3>
+                      <div className="space-y-3">
+                        <div className="flex items-center gap-3">
+                          <span className="text-sm text-gray-600">Stopped at page:</span>
+                          <input
+                            key={book.stoppedAtPage ?? 'none'}
+                            type="number"
+                            defaultValue={book.stoppedAtPage ?? ''}
+                            onBlur={(e) => {
+                              // Saved once the user is done typing; clearing the field removes the page
+                              const page = e.target.value.trim() === '' ? null : parseInt(e.target.value, 10);
+                              if (page !== null && (isNaN(page) || page < 0)) {
+                                e.target.value = book.stoppedAtPage !== undefined ? String(book.stoppedAtPage) : '';
+                                return;
+                              }
+                              if (page !== (book.stoppedAtPage ?? null)) {
+                                handleDnfDetailsChange({ stoppedAtPage: page });
+                              }
+                            }}
+                            className="w-20 px-2 py-1 border border-gray-200 rounded text-sm"
+                            min="0"
+                            max={book.pages}
+                          />
+                          {book.pages && <span className="text-sm text-gray-600">of {book.pages}</span>}
+                        </div>
+                        <textarea
+                          defaultValue={book.dnfReason || ''}
+                          onBlur={(e) => {
+                            if (e.target.value.trim() !== (book.dnfReason || '')) {
+                              handleDnfDetailsChange({ dnfReason: e.target.value.trim() });
+                            }
+                          }}
+                          rows={3}
+                          className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                          placeholder="Not for me, lost interest, too slow..."
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   {/* Current Progress */}
-                  {book.status === 'currently-reading' && book.pages && (
+                  {(book.status === 'currently-reading' || book.status === 'paused') && book.pages && (
                     <div>
                       <h3 className="font-semibold text-gray-900 mb-3">Reading Progress</h3>
                       <div className="space-y-3">
@@ -507,11 +782,21 @@ export default function BookProfilePage() {
                   )}
                 </div>
               </div>
+
+              {/* Description */}
+              {book.description && (
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-3">About This Book</h3>
+                  <p className="text-sm text-gray-600 leading-relaxed whitespace-pre-line">
+                    {book.description.replace(/<[^>]*>/g, '')}
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
           {/* Progress Tab */}
-          {activeTab === 'progress' && (
+          {!isEditing && activeTab === 'progress' && (
             <div className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* Reading Timeline */}
@@ -533,7 +818,7 @@ export default function BookProfilePage() {
                     )}
                     {book.dateFinished && (
                       <div className="flex justify-between items-center">
-                        <span className="text-gray-600">Finished reading:</span>
+                        <span className="text-gray-600">{book.status === 'dnf' ? 'Stopped reading:' : 'Finished reading:'}</span>
                         <span className="font-medium">{format(book.dateFinished, 'MMM d, yyyy')}</span>
                       </div>
                     )}
@@ -560,7 +845,7 @@ export default function BookProfilePage() {
                         <span className="text-gray-600">Total pages:</span>
                         <span className="font-medium">{book.pages}</span>
                       </div>
-                      {book.status === 'currently-reading' && (
+                      {(book.status === 'currently-reading' || book.status === 'paused') && (
                         <>
                           <div className="flex justify-between items-center">
                             <span className="text-gray-600">Current page:</span>
@@ -576,16 +861,131 @@ export default function BookProfilePage() {
                           </div>
                         </>
                       )}
+                      {book.status === 'dnf' && book.stoppedAtPage !== undefined && (
+                        <div className="flex justify-between items-center">
+                          <span className="text-gray-600">Stopped at page:</span>
+                          <span className="font-medium">{book.stoppedAtPage}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
               </div>
+
+              {/* Reading History */}
+              {book.readings && book.readings.length > 0 && (
+                <div className="bg-gray-50 rounded-xl p-6">
+                  <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Reading History ({readingStatus.getCompletedReadingCount(book)} completed)
+                  </h3>
+                  <ul className="divide-y divide-gray-200">
+                    {book.readings.map((reading, index) => (
+                      <li key={index} className="py-3 flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <div>
+                          <span className="font-medium text-gray-900">Reading {index + 1}</span>
+                          <span className="text-gray-600 ml-2">
+                            {reading.dateStarted ? format(reading.dateStarted, 'MMM d, yyyy') : '?'}
+                            {' – '}
+                            {reading.dateFinished ? format(reading.dateFinished, 'MMM d, yyyy') : '?'}
+                          </span>
+                          {reading.format && (
+                            <span className="ml-2 px-2 py-0.5 bg-gray-200 text-gray-700 text-xs rounded-full">
+                              {readingFormatLabels[reading.format]}
+                            </span>
+                          )}
+                        </div>
+                        {reading.rating && (
+                          <div className="flex items-center gap-0.5">
+                            {[1, 2, 3, 4, 5].map((star) => (
+                              <Star
+                                key={star}
+                                className={`h-4 w-4 ${star <= reading.rating! ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+                              />
+                            ))}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                    <li className="py-3 text-sm">
+                      <span className="font-medium text-gray-900">Reading {book.readings.length + 1}</span>
+                      <span className="text-gray-600 ml-2">
+                        {book.dateStarted ? format(book.dateStarted, 'MMM d, yyyy') : '?'}
+                        {' – '}
+                        {book.dateFinished ? format(book.dateFinished, 'MMM d, yyyy') : 'in progress'}
+                      </span>
+                      {book.readingFormat && (
+                        <span className="ml-2 px-2 py-0.5 bg-gray-200 text-gray-700 text-xs rounded-full">
+                          {readingFormatLabels[book.readingFormat]}
+                        </span>
+                      )}
+                    </li>
+                  </ul>
+                </div>
+              )}
+
+              {/* Pages Over Time */}
+              <div className="bg-gray-50 rounded-xl p-6">
+                <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <Target className="h-5 w-5" />
+                  {book.pages ? 'Pages Over Time' : 'Progress Over Time'}
+                </h3>
+                <ReadingProgressChart sessions={readingSessions} totalPages={book.pages} />
+              </div>
+
+              {/* Reading Sessions */}
+              <div className="bg-gray-50 rounded-xl p-6">
+                <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  Reading Sessions ({readingSessions.length})
+                </h3>
+                <ReadingSessionLog
+                  book={book}
+                  sessions={readingSessions}
+                  onAdd={handleAddReadingSession}
+                  onDelete={handleDeleteReadingSession}
+                />
+              </div>
             </div>
           )}
 
+          {/* Notes Tab */}
+          {!isEditing && activeTab === 'notes' && (
+            <BookNotes
+              bookId={book.id}
+              notes={notes}
+              onAdd={handleAddNote}
+              onUpdate={handleUpdateNote}
+              onDelete={handleDeleteNote}
+            />
+          )}
+
+          {/* Highlights Tab */}
+          {!isEditing && activeTab === 'highlights' && (
+            <BookHighlights highlights={highlights} onDelete={handleDeleteHighlight} />
+          )}
+
           {/* Series Tab */}
-          {activeTab === 'series' && (
+          {!isEditing && activeTab === 'series' && (
             <div className="space-y-6">
+              {seriesGroup && seriesProgress && !loadingSeries && (
+                <div className="bg-gray-50 rounded-xl p-4 text-sm text-gray-700">
+                  <p>
+                    You own <span className="font-semibold text-gray-900">{seriesProgress.ownedCount}</span> and have read{' '}
+                    <span className="font-semibold text-gray-900">{seriesProgress.readCount}</span> of {seriesGroup.name}.
+                  </p>
+                  {seriesProgress.nextMissingNumber !== undefined ? (
+                    <p className="mt-1">Next up is #{seriesProgress.nextMissingNumber}, which isn&apos;t in your library yet.</p>
+                  ) : seriesProgress.nextToRead && seriesProgress.nextToRead.id !== book.id ? (
+                    <p className="mt-1">
+                      Next up:{' '}
+                      <Link href={`/book/${seriesProgress.nextToRead.id}`} className="font-medium text-blue-600 hover:underline">
+                        {seriesProgress.nextToRead.title}
+                      </Link>
+                    </p>
+                  ) : null}
+                </div>
+              )}
               {loadingSeries ? (
                 <div className="text-center py-12">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
@@ -645,10 +1045,17 @@ export default function BookProfilePage() {
                               <p className="text-xs text-gray-500 mt-1">{seriesBook.publishedYear}</p>
                             )}
 
-                            {seriesBook.inLibrary && (
+                            {seriesBook.inLibrary ? (
                               <div className="flex items-center gap-1 mt-2">
                                 <CheckCircle2 className="h-3 w-3 text-green-600" />
-                                <span className="text-xs text-green-700 font-medium">In your library</span>
+                                <span className="text-xs text-green-700 font-medium">
+                                  {seriesBook.libraryStatus ? statusConfig[seriesBook.libraryStatus].label : 'In your library'}
+                                </span>
+                              </div>
+                            ) : seriesBook.inWishList && (
+                              <div className="flex items-center gap-1 mt-2">
+                                <Star className="h-3 w-3 text-purple-600" />
+                                <span className="text-xs text-purple-700 font-medium">On your wish list</span>
                               </div>
                             )}
 
@@ -10,8 +10,25 @@ import AddBookModal from '@/components/AddBookModal';
 import BookSearchModal from '@/components/BookSearchModal';
 import BarcodeScannerModal from '@/components/BarcodeScannerModal';
 import LocalSearchBar from '@/components/LocalSearchBar';
-import { Book, ReadingStatus, WishListBook } from '@/types/book';
-import { firestoreStorage } from '@/utils/firestoreStorage';
+import ShelfChip from '@/components/ShelfChip';
+import SeriesProgressPanel from '@/components/SeriesProgressPanel';
+import RestoreBackupModal from '@/components/RestoreBackupModal';
+import ImportLibraryModal from '@/components/ImportLibraryModal';
+import CsvImportWizard from '@/components/CsvImportWizard';
+import BulkIsbnImportModal from '@/components/BulkIsbnImportModal';
+import KindleImportModal from '@/components/KindleImportModal';
+import DuplicateFinderModal from '@/components/DuplicateFinderModal';
+import WishListBookModal, { PRIORITY_COLORS, PRIORITY_LABELS } from '@/components/WishListBookModal';
+import { Book, ReadingStatus, Shelf, WishListBook, WishListPriority } from '@/types/book';
+import { AddOptions, AddResult, MoveToLibraryOptions } from '@/types/repository';
+import { libraryRepository, REQUIRES_ACCOUNT } from '@/utils/repository';
+import { readingStatus } from '@/utils/readingStatus';
+import { seriesUtils } from '@/utils/series';
+import { syncStatus } from '@/utils/syncStatus';
+import { backupUtils } from '@/utils/backup';
+import { downloadUtils } from '@/utils/download';
+import { goodreadsUtils } from '@/utils/goodreads';
+import { storygraphUtils } from '@/utils/storygraph';
 import { 
   Book as BookIcon, 
   Plus, 
@@ -26,17 +43,35 @@ import {
   Star,
   Trash2,
   ArrowRight,
-  AlertCircle
+  AlertCircle,
+  Download,
+  ArchiveRestore,
+  FileUp,
+  FileDown,
+  ListPlus,
+  Highlighter,
+  CopyCheck,
+  ArrowUpDown
 } from 'lucide-react';
 
+// Wish list order when sorting by priority; books without a priority sort with medium
+const PRIORITY_RANK: Record<WishListPriority, number> = { high: 0, medium: 1, low: 2 };
+
 export default function Home() {
   const { user, signOut, loading, error: authError } = useAuth();
   const [books, setBooks] = useState<Book[]>([]);
   const [wishListBooks, setWishListBooks] = useState<WishListBook[]>([]);
-  const [activeTab, setActiveTab] = useState<ReadingStatus | 'all' | 'wishlist'>('all');
+  const [shelves, setShelves] = useState<Shelf[]>([]);
+  const [activeShelfId, setActiveShelfId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<ReadingStatus | 'all' | 'series' | 'wishlist'>('all');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isSearchModalOpen, setIsSearchModalOpen] = useState(false);
   const [isScanModalOpen, setIsScanModalOpen] = useState(false);
+  const [isRestoreModalOpen, setIsRestoreModalOpen] = useState(false);
+  const [isDuplicateFinderOpen, setIsDuplicateFinderOpen] = useState(false);
+  const [selectedWishListBookId, setSelectedWishListBookId] = useState<string | null>(null);
+  const [wishListSort, setWishListSort] = useState<'priority' | 'newest'>('priority');
+  const [importSource, setImportSource] = useState<'goodreads' | 'storygraph' | 'csv' | 'isbn' | 'kindle' | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const [firestoreError, setFirestoreError] = useState<string | null>(null);
@@ -46,22 +81,27 @@ export default function Home() {
       try {
         console.log('Setting up Firestore listeners for user:', user.uid);
         
-        const unsubscribeBooks = firestoreStorage.onBooksChange((updatedBooks: Book[]) => {
+        const unsubscribeBooks = libraryRepository.onBooksChange((updatedBooks: Book[]) => {
           console.log('Books updated:', updatedBooks.length);
           setBooks(updatedBooks);
           setFirestoreError(null);
         });
 
-        const unsubscribeWishList = firestoreStorage.onWishListBooksChange((updatedWishListBooks: WishListBook[]) => {
+        const unsubscribeWishList = libraryRepository.onWishListBooksChange((updatedWishListBooks: WishListBook[]) => {
           console.log('Wish list updated:', updatedWishListBooks.length);
           setWishListBooks(updatedWishListBooks);
           setFirestoreError(null);
         });
 
+        const unsubscribeShelves = libraryRepository.onShelvesChange((updatedShelves: Shelf[]) => {
+          setShelves(updatedShelves);
+        });
+
         return () => {
           console.log('Cleaning up Firestore listeners');
           unsubscribeBooks();
           unsubscribeWishList();
+          unsubscribeShelves();
         };
       } catch (error) {
         console.error('Error setting up Firestore listeners:', error);
@@ -70,6 +110,16 @@ export default function Home() {
     }
   }, [user]);
 
+  // Stop retrying the server and work from the local cache; writes are queued until reconnecting
+  const handleContinueOffline = async () => {
+    try {
+      await syncStatus.workOffline();
+    } catch (error) {
+      console.error('Error switching to offline mode:', error);
+    }
+    setFirestoreError(null);
+  };
+
   // Show loading screen
   if (loading) {
     return (
@@ -142,11 +192,14 @@ export default function Home() {
                 Retry Connection
               </button>
               <button
-                onClick={() => setFirestoreError(null)}
+                onClick={handleContinueOffline}
                 className="w-full px-4 py-2 border border-yellow-300 text-yellow-700 rounded-lg hover:bg-yellow-100 transition-colors"
               >
                 Continue Offline
               </button>
+              <p className="text-xs text-yellow-600 text-center">
+                Your library loads from this device and changes sync once you reconnect.
+              </p>
             </div>
           </div>
         </div>
@@ -156,47 +209,54 @@ export default function Home() {
 
   // Filter books based on active tab and search query
   const filteredBooks = books.filter(book => {
-    const matchesTab = activeTab === 'all' || book.status === activeTab;
+    const matchesTab = activeTab === 'all' ||
+      (activeTab === 'series' ? !!book.series : book.status === activeTab);
+    const matchesShelf = !activeShelfId || (book.shelfIds || []).includes(activeShelfId);
     const matchesSearch = searchQuery === '' || 
       book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       book.author.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchesTab && matchesSearch;
+    return matchesTab && matchesShelf && matchesSearch;
   });
 
-  // Filter wish list books based on search query
+  // Filter wish list books based on search query, then sort by priority or newest first
   const filteredWishListBooks = wishListBooks.filter(book => {
     const matchesSearch = searchQuery === '' || 
       book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       book.author.toLowerCase().includes(searchQuery.toLowerCase());
     return matchesSearch;
+  }).sort((a, b) => {
+    const byPriority = wishListSort === 'priority'
+      ? PRIORITY_RANK[a.priority ?? 'medium'] - PRIORITY_RANK[b.priority ?? 'medium']
+      : 0;
+    return byPriority || b.dateAdded.getTime() - a.dateAdded.getTime();
   });
 
-  const handleAddBook = async (newBook: Omit<Book, 'id' | 'dateAdded'>) => {
+  const selectedWishListBook = wishListBooks.find(book => book.id === selectedWishListBookId);
+
+  // The add modals close themselves once a book is added, and show any conflict with a saved book
+  const handleAddBook = async (newBook: Omit<Book, 'id' | 'dateAdded'>, options?: AddOptions): Promise<AddResult<Book> | null> => {
     try {
-      await firestoreStorage.addBook(newBook);
-      setIsAddModalOpen(false);
+      return await libraryRepository.addBookChecked(newBook, options);
     } catch (error) {
       console.error('Error adding book:', error);
       setFirestoreError(error instanceof Error ? error.message : 'Failed to add book');
+      return null;
     }
   };
 
-  const handleAddWishListBook = async (newBook: Omit<WishListBook, 'id' | 'dateAdded'>) => {
-    console.log('🔍 Adding book to wish list:', newBook);
+  const handleAddWishListBook = async (newBook: Omit<WishListBook, 'id' | 'dateAdded'>, options?: AddOptions): Promise<AddResult<WishListBook> | null> => {
     try {
-      const result = await firestoreStorage.addWishListBook(newBook);
-      console.log('✅ Book added to wish list successfully:', result);
-      setIsSearchModalOpen(false);
-      setIsScanModalOpen(false);
+      return await libraryRepository.addWishListBookChecked(newBook, options);
     } catch (error) {
       console.error('❌ Error adding book to wish list:', error);
       setFirestoreError(error instanceof Error ? error.message : 'Failed to add book to wish list');
+      return null;
     }
   };
 
   const handleUpdateBook = async (updatedBook: Book) => {
     try {
-      await firestoreStorage.updateBook(updatedBook.id, updatedBook);
+      await libraryRepository.updateBook(updatedBook.id, updatedBook);
     } catch (error) {
       console.error('Error updating book:', error);
       setFirestoreError(error instanceof Error ? error.message : 'Failed to update book');
@@ -205,44 +265,85 @@ export default function Home() {
 
   const handleDeleteWishListBook = async (bookId: string) => {
     try {
-      await firestoreStorage.deleteWishListBook(bookId);
+      await libraryRepository.deleteWishListBook(bookId);
     } catch (error) {
       console.error('Error deleting wish list book:', error);
       setFirestoreError(error instanceof Error ? error.message : 'Failed to delete book from wish list');
     }
   };
 
-  const handleMoveWishListBookToCollection = async (wishListBookId: string, status: ReadingStatus = 'currently-reading') => {
+  const handleMoveWishListBookToCollection = async (wishListBookId: string, options?: MoveToLibraryOptions) => {
     try {
-      await firestoreStorage.moveWishListBookToCollection(wishListBookId, status);
+      const movedBook = await libraryRepository.moveWishListBookToCollection(wishListBookId, options);
+      if (!movedBook) throw new Error('Failed to move book to collection');
     } catch (error) {
       console.error('Error moving book to collection:', error);
       setFirestoreError(error instanceof Error ? error.message : 'Failed to move book to collection');
     }
   };
 
+  const handleDeleteShelf = async (shelfId: string) => {
+    const shelf = shelves.find(s => s.id === shelfId);
+    if (!shelf || !window.confirm(`Delete the "${shelf.name}" shelf? Books on it stay in your library.`)) return;
+
+    try {
+      await libraryRepository.deleteShelf(shelfId);
+      setActiveShelfId(null);
+    } catch (error) {
+      console.error('Error deleting shelf:', error);
+      setFirestoreError(error instanceof Error ? error.message : 'Failed to delete shelf');
+    }
+  };
+
   const getStats = () => {
     const reading = books.filter(book => book.status === 'currently-reading').length;
-    const completed = books.filter(book => book.status === 'read').length;
-    const totalPages = books
-      .filter(book => book.status === 'read')
-      .reduce((sum, book) => sum + (book.pages || 0), 0);
+    // Every completed read-through counts, so re-reads add to the totals
+    const completed = books.reduce((sum, book) => sum + readingStatus.getCompletedReadingCount(book), 0);
+    const totalPages = books.reduce((sum, book) => {
+      const completedPages = readingStatus.getCompletedReadingCount(book) * (book.pages || 0);
+      // Abandoned books still count the pages that were actually read
+      if (book.status === 'dnf') return sum + completedPages + (book.stoppedAtPage || 0);
+      return sum + completedPages;
+    }, 0);
 
     return { reading, completed, totalPages, wishList: wishListBooks.length };
   };
 
   const stats = getStats();
 
-  const getTabCount = (tab: ReadingStatus | 'all' | 'wishlist') => {
+  const getTabCount = (tab: ReadingStatus | 'all' | 'series' | 'wishlist') => {
     if (tab === 'all') {
       return books.length;
     }
+    if (tab === 'series') {
+      return seriesUtils.groupBySeries(books).length;
+    }
     if (tab === 'wishlist') {
       return wishListBooks.length;
     }
     return books.filter(book => book.status === tab).length;
   };
 
+  const handleExportBackup = async () => {
+    setIsUserMenuOpen(false);
+    try {
+      const backup = backupUtils.createBackup(await libraryRepository.exportLibrary());
+      downloadUtils.saveFile(backupUtils.toJSON(backup), backupUtils.getFileName(backup), 'application/json');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      alert('Failed to export backup. Please try again.');
+    }
+  };
+
+  const handleExportCsv = (service: 'goodreads' | 'storygraph') => {
+    setIsUserMenuOpen(false);
+    const date = new Date().toISOString().slice(0, 10);
+    const csv = service === 'goodreads'
+      ? goodreadsUtils.toLibraryExport(books, wishListBooks)
+      : storygraphUtils.toLibraryExport(books, wishListBooks);
+    downloadUtils.saveFile(csv, `novel-noted-${service}-${date}.csv`, 'text/csv');
+  };
+
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -253,8 +354,12 @@ export default function Home() {
 
   const tabs = [
     { key: 'all' as const, label: 'My Library', mobileLabel: 'Library', icon: '📚' },
+    { key: 'want-to-read' as const, label: 'Want to Read', mobileLabel: 'To Read', icon: '🔖' },
     { key: 'currently-reading' as const, label: 'Currently Reading', mobileLabel: 'Reading', icon: '📖' },
+    { key: 'paused' as const, label: 'Paused', mobileLabel: 'Paused', icon: '⏸️' },
     { key: 'read' as const, label: 'Read', mobileLabel: 'Read', icon: '✅' },
+    { key: 'dnf' as const, label: 'Did Not Finish', mobileLabel: 'DNF', icon: '🚫' },
+    { key: 'series' as const, label: 'Series', mobileLabel: 'Series', icon: '🗂️' },
     { key: 'wishlist' as const, label: 'Wish List', mobileLabel: 'Wish List', icon: '⭐' },
   ];
 
@@ -296,15 +401,98 @@ export default function Home() {
                 <div className="absolute right-0 mt-2 w-48 bg-white/10 backdrop-blur-lg rounded-lg shadow-lg border border-white/20 z-50">
                   <div className="py-1">
                     <div className="px-4 py-2 text-sm text-white/80 border-b border-white/10">
-                      {user.email}
+                      {REQUIRES_ACCOUNT ? user.email : 'Stored on this device'}
                     </div>
                     <button
-                      onClick={handleSignOut}
+                      onClick={handleExportBackup}
+                      className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Export Backup
+                    </button>
+                    <button
+                      onClick={() => {
+                        setIsUserMenuOpen(false);
+                        setIsRestoreModalOpen(true);
+                      }}
+                      className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                    >
+                      <ArchiveRestore className="h-4 w-4 mr-2" />
+                      Restore Backup
+                    </button>
+                    {([
+                      { service: 'goodreads', name: 'Goodreads' },
+                      { service: 'storygraph', name: 'StoryGraph' },
+                    ] as const).map(({ service, name }) => (
+                      <div key={service} className="border-t border-white/10">
+                        <button
+                          onClick={() => {
+                            setIsUserMenuOpen(false);
+                            setImportSource(service);
+                          }}
+                          className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                        >
+                          <FileUp className="h-4 w-4 mr-2" />
+                          Import from {name}
+                        </button>
+                        <button
+                          onClick={() => handleExportCsv(service)}
+                          className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                        >
+                          <FileDown className="h-4 w-4 mr-2" />
+                          Export for {name}
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => {
+                        setIsUserMenuOpen(false);
+                        setImportSource('csv');
+                      }}
+                      className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors border-t border-white/10"
+                    >
+                      <FileUp className="h-4 w-4 mr-2" />
+                      Import from CSV
+                    </button>
+                    <button
+                      onClick={() => {
+                        setIsUserMenuOpen(false);
+                        setImportSource('isbn');
+                      }}
+                      className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                    >
+                      <ListPlus className="h-4 w-4 mr-2" />
+                      Add ISBN List
+                    </button>
+                    <button
+                      onClick={() => {
+                        setIsUserMenuOpen(false);
+                        setImportSource('kindle');
+                      }}
                       className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
                     >
-                      <LogOut className="h-4 w-4 mr-2" />
-                      Sign Out
+                      <Highlighter className="h-4 w-4 mr-2" />
+                      Import Kindle Highlights
                     </button>
+                    <button
+                      onClick={() => {
+                        setIsUserMenuOpen(false);
+                        setIsDuplicateFinderOpen(true);
+                      }}
+                      className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                    >
+                      <CopyCheck className="h-4 w-4 mr-2" />
+                      Find Duplicates
+                    </button>
+                    {REQUIRES_ACCOUNT && (
+                      <button
+                        onClick={handleSignOut}
+                        className="flex items-center w-full px-4 py-2 text-sm text-white hover:bg-white/10 transition-colors"
+                      >
+                        <LogOut className="h-4 w-4 mr-2" />
+                        Sign Out
+                      </button>
+                    )}
                   </div>
                 </div>
               )}
@@ -395,6 +583,60 @@ export default function Home() {
               </button>
             ))}
           </div>
+
+          {/* Wish List Sort */}
+          {activeTab === 'wishlist' && wishListBooks.length > 1 && (
+            <div className="flex justify-end pb-3">
+              <button
+                onClick={() => setWishListSort(wishListSort === 'priority' ? 'newest' : 'priority')}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap bg-white/5 text-white/70 hover:text-white hover:bg-white/10 transition-all duration-200"
+                title="Change sort order"
+              >
+                <ArrowUpDown className="h-3 w-3" />
+                {wishListSort === 'priority' ? 'Sorted by priority' : 'Newest first'}
+              </button>
+            </div>
+          )}
+
+          {/* Shelf Tabs */}
+          {activeTab !== 'wishlist' && shelves.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto pb-3 hide-scrollbar">
+              <button
+                onClick={() => setActiveShelfId(null)}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-all duration-200 ${
+                  activeShelfId === null
+                    ? 'bg-white/20 text-white ring-1 ring-white/30'
+                    : 'bg-white/5 text-white/70 hover:text-white hover:bg-white/10'
+                }`}
+              >
+                All shelves
+              </button>
+              {shelves.map((shelf) => (
+                <button
+                  key={shelf.id}
+                  onClick={() => setActiveShelfId(activeShelfId === shelf.id ? null : shelf.id)}
+                  className={`flex items-center gap-1 rounded-full whitespace-nowrap transition-all duration-200 ${
+                    activeShelfId === shelf.id ? 'ring-2 ring-white/60' : 'opacity-80 hover:opacity-100'
+                  }`}
+                >
+                  <ShelfChip shelf={shelf} size="md" />
+                  <span className="text-xs text-white/70 pr-1">
+                    {books.filter(book => (book.shelfIds || []).includes(shelf.id)).length}
+                  </span>
+                </button>
+              ))}
+              {activeShelfId && (
+                <button
+                  onClick={() => handleDeleteShelf(activeShelfId)}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap bg-red-600/20 text-red-300 hover:bg-red-600/30 transition-colors"
+                  title="Delete this shelf"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  Delete shelf
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Content based on active tab */}
@@ -405,7 +647,10 @@ export default function Home() {
               <div key={wishListBook.id} className="bg-white/10 backdrop-blur-lg rounded-xl p-4 border border-white/20 hover:bg-white/15 transition-all duration-200">
                 <div className="flex gap-4">
                   {/* Book Cover */}
-                  <div className="flex-shrink-0">
+                  <div
+                    className="flex-shrink-0 cursor-pointer"
+                    onClick={() => setSelectedWishListBookId(wishListBook.id)}
+                  >
                     {wishListBook.coverUrl ? (
                                               <Image
                           src={wishListBook.coverUrl}
@@ -423,7 +668,10 @@ export default function Home() {
 
                   {/* Book Info */}
                   <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold text-white text-sm sm:text-base leading-tight line-clamp-2 mb-2">
+                    <h3
+                      onClick={() => setSelectedWishListBookId(wishListBook.id)}
+                      className="font-semibold text-white text-sm sm:text-base leading-tight line-clamp-2 mb-2 cursor-pointer hover:underline"
+                    >
                       {wishListBook.title}
                     </h3>
                     <p className="text-white/70 text-sm mb-2">
@@ -435,11 +683,21 @@ export default function Home() {
                     )}
                     
                     {wishListBook.pages && (
-                      <p className="text-white/50 text-xs mb-3">{wishListBook.pages} pages</p>
+                      <p className="text-white/50 text-xs mb-1">{wishListBook.pages} pages</p>
+                    )}
+
+                    {wishListBook.recommendedBy && (
+                      <p className="text-white/50 text-xs mb-1 truncate">Recommended by {wishListBook.recommendedBy}</p>
+                    )}
+
+                    {wishListBook.priority && (
+                      <span className={`inline-block px-2 py-0.5 mb-1 text-xs font-medium rounded-full border ${PRIORITY_COLORS[wishListBook.priority]}`}>
+                        {PRIORITY_LABELS[wishListBook.priority]} priority
+                      </span>
                     )}
 
                     {/* Action Buttons */}
-                    <div className="flex gap-2">
+                    <div className="flex gap-2 mt-2">
                       <button
                         onClick={() => handleMoveWishListBookToCollection(wishListBook.id)}
                         className="flex items-center gap-1 px-3 py-2 bg-green-600/20 text-green-300 rounded-lg hover:bg-green-600/30 transition-colors text-xs font-medium"
@@ -471,6 +729,25 @@ export default function Home() {
               </div>
             ))}
           </div>
+        ) : activeTab === 'series' ? (
+          // Series Groups - each series in reading order
+          <div className="space-y-8">
+            {seriesUtils.groupBySeries(filteredBooks).map((group) => (
+              <div key={group.name} className="space-y-4">
+                <SeriesProgressPanel group={group} />
+                <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 sm:gap-5 lg:gap-6">
+                  {group.books.map((book) => (
+                    <BookCard
+                      key={book.id}
+                      book={book}
+                      shelves={shelves.filter(shelf => (book.shelfIds || []).includes(shelf.id))}
+                      onUpdate={(id, updates) => handleUpdateBook({ ...book, ...updates })}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
         ) : (
           // Regular Books Grid - Optimized for larger covers
           <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 sm:gap-5 lg:gap-6">
@@ -478,6 +755,7 @@ export default function Home() {
               <BookCard
                 key={book.id}
                 book={book}
+                shelves={shelves.filter(shelf => (book.shelfIds || []).includes(shelf.id))}
                 onUpdate={(id, updates) => handleUpdateBook({ ...book, ...updates })}
               />
             ))}
@@ -505,9 +783,17 @@ export default function Home() {
                   ? 'Start adding books you want to read someday!'
                   : activeTab === 'all' 
                     ? 'Start building your personal library by adding your first book!'
-                    : activeTab === 'currently-reading'
-                      ? 'Add some books you are currently reading!'
-                      : 'Add some books you have read!'
+                    : activeTab === 'series'
+                      ? 'Add a series name to your books and they will be grouped here.'
+                      : activeTab === 'want-to-read'
+                        ? 'Add books from your shelf that you plan to read next!'
+                        : activeTab === 'currently-reading'
+                          ? 'Add some books you are currently reading!'
+                          : activeTab === 'paused'
+                            ? 'Books you put on hold will show up here.'
+                            : activeTab === 'dnf'
+                              ? 'Books you decided not to finish will show up here.'
+                              : 'Add some books you have read!'
               }
             </p>
             {!searchQuery && (
@@ -523,10 +809,59 @@ export default function Home() {
       </div>
 
       {/* Modals */}
+      {isRestoreModalOpen && (
+        <RestoreBackupModal onClose={() => setIsRestoreModalOpen(false)} />
+      )}
+      {isDuplicateFinderOpen && (
+        <DuplicateFinderModal books={books} onClose={() => setIsDuplicateFinderOpen(false)} />
+      )}
+      {selectedWishListBook && (
+        <WishListBookModal
+          key={selectedWishListBook.id}
+          book={selectedWishListBook}
+          onClose={() => setSelectedWishListBookId(null)}
+          onMoveToLibrary={(id, options) => {
+            setSelectedWishListBookId(null);
+            handleMoveWishListBookToCollection(id, options);
+          }}
+          onDelete={(id) => {
+            setSelectedWishListBookId(null);
+            handleDeleteWishListBook(id);
+          }}
+        />
+      )}
+      {importSource === 'goodreads' && (
+        <ImportLibraryModal
+          title="Import from Goodreads"
+          instructions="On Goodreads, go to My Books, choose Import and export, then Export Library and download the CSV file. Books on your to-read shelf are added to your wish list."
+          accept=".csv,text/csv"
+          parseFile={goodreadsUtils.parseLibraryExport}
+          onClose={() => setImportSource(null)}
+        />
+      )}
+      {importSource === 'storygraph' && (
+        <ImportLibraryModal
+          title="Import from StoryGraph"
+          instructions="On The StoryGraph, go to Manage Account, choose Export StoryGraph Library and download the CSV file. To-read books you don't own are added to your wish list."
+          accept=".csv,text/csv"
+          parseFile={storygraphUtils.parseLibraryExport}
+          onClose={() => setImportSource(null)}
+        />
+      )}
+      {importSource === 'csv' && (
+        <CsvImportWizard onClose={() => setImportSource(null)} />
+      )}
+      {importSource === 'isbn' && (
+        <BulkIsbnImportModal onClose={() => setImportSource(null)} />
+      )}
+      {importSource === 'kindle' && (
+        <KindleImportModal onClose={() => setImportSource(null)} />
+      )}
       {isAddModalOpen && (
         <AddBookModal
           onClose={() => setIsAddModalOpen(false)}
           onAdd={handleAddBook}
+          onMoveToLibrary={handleMoveWishListBookToCollection}
         />
       )}
 
@@ -535,6 +870,7 @@ export default function Home() {
           onClose={() => setIsSearchModalOpen(false)}
           onAdd={handleAddBook}
           onAddToWishList={handleAddWishListBook}
+          onMoveToLibrary={handleMoveWishListBookToCollection}
         />
       )}
 
@@ -543,6 +879,7 @@ export default function Home() {
         onClose={() => setIsScanModalOpen(false)}
         onAddBook={handleAddBook}
         onAddToWishList={handleAddWishListBook}
+        onMoveToLibrary={handleMoveWishListBookToCollection}
       />
     </div>
   );
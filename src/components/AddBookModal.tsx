@@ -1,14 +1,21 @@
 import { useState } from 'react';
 import { Book, ReadingStatus, OwnershipType } from '@/types/book';
+import { AddConflict, AddOptions, AddResult, MoveToLibraryOptions } from '@/types/repository';
 import { X, BookOpen, User, Hash, Image as IconImage, FileText, Tag, Home, Tablet } from 'lucide-react';
 import NextImage from 'next/image';
+import { readingStatus } from '@/utils/readingStatus';
+import { bookValidation } from '@/utils/bookValidation';
+import { isbnUtils } from '@/utils/isbn';
+import SeriesConfirmation from '@/components/SeriesConfirmation';
+import AddConflictNotice from '@/components/AddConflictNotice';
 
 interface AddBookModalProps {
   onClose: () => void;
-  onAdd: (book: Omit<Book, 'id' | 'dateAdded'>) => void;
+  onAdd: (book: Omit<Book, 'id' | 'dateAdded'>, options?: AddOptions) => Promise<AddResult<Book> | null>;
+  onMoveToLibrary: (wishListBookId: string, options: MoveToLibraryOptions) => Promise<void>;
 }
 
-export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
+export default function AddBookModal({ onClose, onAdd, onMoveToLibrary }: AddBookModalProps) {
   const [formData, setFormData] = useState({
     title: '',
     author: '',
@@ -20,7 +27,29 @@ export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
     ownershipType: 'physical' as OwnershipType,
     rating: 0,
     currentPage: '',
+    stoppedAtPage: '',
+    dnfReason: '',
+    series: '',
+    seriesNumber: '',
   });
+  const [isbnError, setIsbnError] = useState('');
+  const [conflict, setConflict] = useState<{ conflict: AddConflict; book: Omit<Book, 'id' | 'dateAdded'> } | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const addBook = async (bookData: Omit<Book, 'id' | 'dateAdded'>, options?: AddOptions) => {
+    setIsAdding(true);
+    const result = await onAdd(bookData, options);
+    setIsAdding(false);
+    if (result?.status === 'added') onClose();
+    if (result?.status === 'conflict') setConflict({ conflict: result.conflict, book: bookData });
+  };
+
+  const handleMoveToLibrary = async (wishListBookId: string) => {
+    setIsAdding(true);
+    await onMoveToLibrary(wishListBookId, { status: formData.status, ownershipType: formData.ownershipType });
+    setIsAdding(false);
+    onClose();
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -30,22 +59,31 @@ export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
       return;
     }
 
+    if (formData.isbn.trim() && !isbnUtils.isValid(formData.isbn)) {
+      setIsbnError('This is not a valid ISBN-10 or ISBN-13.');
+      return;
+    }
+
     const bookData: Omit<Book, 'id' | 'dateAdded'> = {
       title: formData.title.trim(),
       author: formData.author.trim(),
-      isbn: formData.isbn.trim() || undefined,
+      isbn: formData.isbn.trim() ? isbnUtils.toCanonical(formData.isbn) : undefined,
       coverUrl: formData.coverUrl.trim() || undefined,
       pages: formData.pages ? parseInt(formData.pages) : undefined,
       genre: formData.genre.trim() || undefined,
-      status: formData.status,
+      series: formData.series.trim() || undefined,
+      seriesNumber: formData.series.trim() ? bookValidation.parseSeriesNumber(formData.seriesNumber) : undefined,
       ownershipType: formData.ownershipType,
       rating: formData.rating || undefined,
-      currentPage: formData.currentPage ? parseInt(formData.currentPage) : undefined,
-      dateStarted: formData.status === 'currently-reading' ? new Date() : undefined,
-      dateFinished: formData.status === 'read' ? new Date() : undefined,
+      dnfReason: formData.status === 'dnf' ? formData.dnfReason.trim() || undefined : undefined,
+      ...readingStatus.getInitialFields(formData.status, {
+        pages: formData.pages ? parseInt(formData.pages) : undefined,
+        currentPage: formData.currentPage ? parseInt(formData.currentPage) : undefined,
+        stoppedAtPage: formData.stoppedAtPage ? parseInt(formData.stoppedAtPage) : undefined,
+      }),
     };
 
-    onAdd(bookData);
+    addBook(bookData);
   };
 
   const handleInputChange = (field: string, value: string | number) => {
@@ -116,10 +154,16 @@ export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
               <input
                 type="text"
                 value={formData.isbn}
-                onChange={(e) => handleInputChange('isbn', e.target.value)}
-                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                onChange={(e) => {
+                  handleInputChange('isbn', e.target.value);
+                  setIsbnError('');
+                }}
+                className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all ${
+                  isbnError ? 'border-red-300 bg-red-50' : 'border-gray-200'
+                }`}
                 placeholder="978-0123456789"
               />
+              {isbnError && <p className="text-xs text-red-600 mt-1">{isbnError}</p>}
             </div>
             
             <div>
@@ -152,6 +196,14 @@ export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
             </div>
           </div>
 
+          {/* Series */}
+          <SeriesConfirmation
+            title={formData.title}
+            series={formData.series}
+            seriesNumber={formData.seriesNumber}
+            onChange={(series, seriesNumber) => setFormData(prev => ({ ...prev, series, seriesNumber }))}
+          />
+
           {/* Cover URL */}
           <div>
             <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
@@ -180,10 +232,13 @@ export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
           {/* Status */}
           <div>
             <label className="text-sm font-medium text-gray-700 mb-3 block">Reading Status</label>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
               {[
+                { value: 'want-to-read', label: 'Want to Read', color: 'border-red-200 bg-red-50 text-red-700' },
                 { value: 'currently-reading', label: 'Currently Reading', color: 'border-orange-200 bg-orange-50 text-orange-700' },
+                { value: 'paused', label: 'Paused', color: 'border-yellow-200 bg-yellow-50 text-yellow-700' },
                 { value: 'read', label: 'Read', color: 'border-green-200 bg-green-50 text-green-700' },
+                { value: 'dnf', label: 'Did Not Finish', color: 'border-gray-300 bg-gray-100 text-gray-700' },
               ].map((status) => (
                 <label key={status.value} className="cursor-pointer">
                   <input
@@ -252,8 +307,8 @@ export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
             </div>
           </div>
 
-          {/* Current Page (for currently reading books) */}
-          {formData.status === 'currently-reading' && formData.pages && (
+          {/* Current Page (for books in progress) */}
+          {(formData.status === 'currently-reading' || formData.status === 'paused') && formData.pages && (
             <div>
               <label className="text-sm font-medium text-gray-700 mb-2 block">Current Page</label>
               <input
@@ -268,6 +323,34 @@ export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
             </div>
           )}
 
+          {/* Stop Page and Reason (for abandoned books) */}
+          {formData.status === 'dnf' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Stopped at Page</label>
+                <input
+                  type="number"
+                  value={formData.stoppedAtPage}
+                  onChange={(e) => handleInputChange('stoppedAtPage', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  placeholder="Last page read"
+                  min="0"
+                  max={formData.pages || undefined}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Reason</label>
+                <input
+                  type="text"
+                  value={formData.dnfReason}
+                  onChange={(e) => handleInputChange('dnfReason', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  placeholder="Why did you stop?"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Rating (for read books) */}
           {formData.status === 'read' && (
             <div>
@@ -291,6 +374,16 @@ export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
             </div>
           )}
 
+          {conflict && (
+            <AddConflictNotice
+              conflict={conflict.conflict}
+              isWorking={isAdding}
+              onAddAnyway={() => addBook(conflict.book, { allowDuplicate: true })}
+              onCancel={() => setConflict(null)}
+              onMoveToLibrary={() => handleMoveToLibrary(conflict.conflict.book.id)}
+            />
+          )}
+
           {/* Actions */}
           <div className="flex gap-3 pt-4 border-t border-gray-100">
             <button
@@ -302,9 +395,10 @@ export default function AddBookModal({ onClose, onAdd }: AddBookModalProps) {
             </button>
             <button
               type="submit"
-              className="flex-1 px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-xl hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl"
+              disabled={isAdding || !!conflict}
+              className="flex-1 px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-xl hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Add Book
+              {isAdding ? 'Adding...' : 'Add Book'}
             </button>
           </div>
         </form>
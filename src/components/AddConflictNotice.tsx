@@ -0,0 +1,64 @@
+import Link from 'next/link';
+import { AddConflict } from '@/types/repository';
+import { STATUS_LABELS } from '@/utils/readingStatus';
+import { AlertCircle } from 'lucide-react';
+
+interface AddConflictNoticeProps {
+  conflict: AddConflict;
+  isWorking?: boolean;
+  onAddAnyway: () => void;
+  onCancel: () => void;
+  onMoveToLibrary?: () => void; // Offered when adding to the library a book that's on the wish list
+}
+
+export default function AddConflictNotice({ conflict, isWorking, onAddAnyway, onCancel, onMoveToLibrary }: AddConflictNoticeProps) {
+  return (
+    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-xl space-y-3">
+      <div className="flex items-start gap-2 text-sm text-yellow-800">
+        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <p>
+          <span className="font-medium">&quot;{conflict.book.title}&quot;</span> is already{' '}
+          {conflict.location === 'library'
+            ? `in your library as ${STATUS_LABELS[conflict.book.status]}.`
+            : 'on your wish list.'}
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {conflict.location === 'library' && (
+          <Link
+            href={`/book/${conflict.book.id}`}
+            className="px-3 py-1.5 text-sm bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all"
+          >
+            Open it
+          </Link>
+        )}
+        {conflict.location === 'wishlist' && onMoveToLibrary && (
+          <button
+            type="button"
+            onClick={onMoveToLibrary}
+            disabled={isWorking}
+            className="px-3 py-1.5 text-sm bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50"
+          >
+            Move it to your library
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onAddAnyway}
+          disabled={isWorking}
+          className="px-3 py-1.5 text-sm border border-yellow-300 text-yellow-800 rounded-lg hover:bg-yellow-100 transition-colors disabled:opacity-50"
+        >
+          Add another copy
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isWorking}
+          className="px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
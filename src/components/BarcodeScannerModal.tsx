@@ -4,25 +4,32 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { X, Camera, AlertCircle, BookOpen, Plus, Loader2, FlipHorizontal, Star } from 'lucide-react';
 import Webcam from 'react-webcam';
 import { BrowserMultiFormatReader } from '@zxing/browser';
-import { googleBooksAPI, BookSearchResult } from '@/utils/googleBooks';
+import { googleBooksAPI, BookSearchResult, GoogleBooksUnavailableError } from '@/utils/googleBooks';
+import { readingStatus } from '@/utils/readingStatus';
+import { bookValidation } from '@/utils/bookValidation';
+import { isbnUtils } from '@/utils/isbn';
 import { Book, ReadingStatus, WishListBook } from '@/types/book';
-import { firestoreStorage } from '@/utils/firestoreStorage';
+import { AddConflict, AddOptions, AddResult, MoveToLibraryOptions } from '@/types/repository';
+import { libraryRepository } from '@/utils/repository';
 import Image from 'next/image';
+import SeriesConfirmation from '@/components/SeriesConfirmation';
 
 interface BarcodeScannerModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAddBook: (book: Omit<Book, 'id' | 'dateAdded'>) => void;
-  onAddToWishList: (book: Omit<WishListBook, 'id' | 'dateAdded'>) => void;
+  onAddBook: (book: Omit<Book, 'id' | 'dateAdded'>, options?: AddOptions) => Promise<AddResult<Book> | null>;
+  onAddToWishList: (book: Omit<WishListBook, 'id' | 'dateAdded'>, options?: AddOptions) => Promise<AddResult<WishListBook> | null>;
+  onMoveToLibrary: (wishListBookId: string, options: MoveToLibraryOptions) => Promise<void>;
 }
 
-export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddToWishList }: BarcodeScannerModalProps) {
+export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddToWishList, onMoveToLibrary }: BarcodeScannerModalProps) {
   const [scannedBook, setScannedBook] = useState<BookSearchResult | null>(null);
   const [existingBook, setExistingBook] = useState<Book | null>(null);
   const [existingWishListBook, setExistingWishListBook] = useState<WishListBook | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [status, setStatus] = useState<ReadingStatus>('currently-reading');
+  const [seriesInfo, setSeriesInfo] = useState({ series: '', seriesNumber: '' });
   const [hasCamera, setHasCamera] = useState(true);
   const [scanning, setScanning] = useState(true);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment'); // Back camera by default
@@ -52,6 +59,11 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
     };
   }, [isOpen]);
 
+  const showConflict = useCallback((conflict: AddConflict | null) => {
+    if (conflict?.location === 'library') setExistingBook(conflict.book);
+    if (conflict?.location === 'wishlist') setExistingWishListBook(conflict.book);
+  }, []);
+
   const handleBarcodeScan = useCallback(async (result: string) => {
     if (!result || isLoading || scannedBook) return;
     
@@ -72,11 +84,11 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
     setError('');
 
     try {
-      // Clean the scanned result (remove any extra characters)
-      const isbn = result.replace(/[^\d]/g, '');
+      // Only Bookland EAN-13s and ISBN-10s (which can end in X) are books
+      const isbn = isbnUtils.toIsbn13(result);
       
-      if (isbn.length < 10) {
-        setError('Invalid barcode. Please try scanning again.');
+      if (!isbn) {
+        setError('This barcode isn\'t an ISBN. Scan the barcode on the back cover, usually above "ISBN".');
         setTimeout(() => {
           setScanning(true);
           setIsLoading(false);
@@ -85,23 +97,13 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
       }
 
       // Search for book by ISBN
-      const books = await googleBooksAPI.searchBooks(`isbn:${isbn}`, 1);
+      const foundBook = await googleBooksAPI.lookupIsbn(isbn);
       
-      if (books.length > 0) {
-        const foundBook = books[0];
+      if (foundBook) {
         setScannedBook(foundBook);
         
-        // Check if this book already exists in the user's library
-        const existingBookInLibrary = await firestoreStorage.checkBookExists(foundBook.isbn || isbn);
-        if (existingBookInLibrary) {
-          setExistingBook(existingBookInLibrary);
-        }
-
-        // Check if this book is in the wish list
-        const existingWishListBookFound = await firestoreStorage.checkWishListBookExists(foundBook.isbn || isbn);
-        if (existingWishListBookFound) {
-          setExistingWishListBook(existingWishListBookFound);
-        }
+        // Check if this book is already in the user's library or wish list
+        showConflict(await libraryRepository.findSameWork({ ...foundBook, isbn: foundBook.isbn || isbn }));
       } else {
         setError('Book not found. Try scanning again or search manually.');
         setTimeout(() => {
@@ -111,7 +113,7 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
       }
     } catch (error) {
       console.error('Error searching for book:', error);
-      setError('Error searching for book. Please try again.');
+      setError(error instanceof GoogleBooksUnavailableError ? error.message : 'Error searching for book. Please try again.');
       setTimeout(() => {
         setScanning(true);
         setIsLoading(false);
@@ -119,7 +121,7 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
     } finally {
       setIsLoading(false);
     }
-  }, [isLoading, scannedBook]);
+  }, [isLoading, scannedBook, showConflict]);
 
   const scanFrame = useCallback(() => {
     if (!webcamRef.current || !readerRef.current || !scanning || scannedBook || isLoading) {
@@ -173,7 +175,7 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
     };
   }, [isOpen, scanning, scannedBook, error, hasCamera, scanFrame]);
 
-  const handleAddToLibrary = () => {
+  const handleAddToLibrary = async (options?: AddOptions) => {
     if (!scannedBook) return;
 
     const bookData: Omit<Book, 'id' | 'dateAdded'> = {
@@ -183,17 +185,18 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
       coverUrl: scannedBook.coverUrl,
       pages: scannedBook.pages,
       genre: scannedBook.genre,
-      status: status,
+      series: seriesInfo.series.trim() || undefined,
+      seriesNumber: seriesInfo.series.trim() ? bookValidation.parseSeriesNumber(seriesInfo.seriesNumber) : undefined,
       ownershipType: 'physical', // Default to physical when adding from barcode scanner
-      dateStarted: status === 'currently-reading' ? new Date() : undefined,
-      dateFinished: status === 'read' ? new Date() : undefined,
+      ...readingStatus.getInitialFields(status, { pages: scannedBook.pages }),
     };
 
-    onAddBook(bookData);
-    onClose();
+    const result = await onAddBook(bookData, options);
+    if (result?.status === 'added') onClose();
+    if (result?.status === 'conflict') showConflict(result.conflict);
   };
 
-  const handleAddToWishListAction = () => {
+  const handleAddToWishListAction = async () => {
     if (!scannedBook) return;
 
     const wishListBookData: Omit<WishListBook, 'id' | 'dateAdded'> = {
@@ -208,7 +211,14 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
       description: scannedBook.description,
     };
 
-    onAddToWishList(wishListBookData);
+    const result = await onAddToWishList(wishListBookData);
+    if (result?.status === 'added') onClose();
+    if (result?.status === 'conflict') showConflict(result.conflict);
+  };
+
+  const handleMoveToLibrary = async () => {
+    if (!existingWishListBook) return;
+    await onMoveToLibrary(existingWishListBook.id, { status });
     onClose();
   };
 
@@ -216,6 +226,7 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
     setScannedBook(null);
     setExistingBook(null);
     setExistingWishListBook(null);
+    setSeriesInfo({ series: '', seriesNumber: '' });
     setError('');
     setScanning(true);
     setIsLoading(false);
@@ -386,7 +397,7 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
                       <span className="font-medium text-yellow-800">Already in Library!</span>
                     </div>
                     <p className="text-yellow-700 text-sm">
-                      This book is already in your library with status: <span className="font-medium">{existingBook.status.replace('-', ' ')}</span>.
+                      This book is already in your library with status: <span className="font-medium">{existingBook.status === 'dnf' ? 'did not finish' : existingBook.status.replace(/-/g, ' ')}</span>.
                     </p>
                   </div>
                 ) : existingWishListBook ? (
@@ -450,38 +461,44 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
                   </div>
                 </div>
 
-                {/* Status Selection - Only show for new books */}
-                {!existingBook && !existingWishListBook && (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Reading Status (for library)
-                    </label>
-                    <div className="grid grid-cols-2 gap-2 mb-4">
-                      {[
-                        { value: 'currently-reading', label: 'Currently Reading', color: 'border-orange-200 bg-orange-50 text-orange-700' },
-                        { value: 'read', label: 'Read', color: 'border-green-200 bg-green-50 text-green-700' },
-                      ].map((statusOption) => (
-                        <label key={statusOption.value} className="cursor-pointer">
-                          <input
-                            type="radio"
-                            name="status"
-                            value={statusOption.value}
-                            checked={status === statusOption.value}
-                            onChange={(e) => setStatus(e.target.value as ReadingStatus)}
-                            className="sr-only"
-                          />
-                          <div className={`p-2 rounded-lg border-2 text-center text-xs font-medium transition-all ${
-                            status === statusOption.value 
-                              ? statusOption.color + ' ring-2 ring-offset-2'
-                              : 'border-gray-200 hover:border-gray-300'
-                          }`}>
-                            {statusOption.label}
-                          </div>
-                        </label>
-                      ))}
-                    </div>
+                {/* Status Selection for Library */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Reading Status (for library)
+                  </label>
+                  <div className="grid grid-cols-3 gap-2 mb-4">
+                    {[
+                      { value: 'want-to-read', label: 'Want to Read', color: 'border-red-200 bg-red-50 text-red-700' },
+                      { value: 'currently-reading', label: 'Currently Reading', color: 'border-orange-200 bg-orange-50 text-orange-700' },
+                      { value: 'read', label: 'Read', color: 'border-green-200 bg-green-50 text-green-700' },
+                    ].map((statusOption) => (
+                      <label key={statusOption.value} className="cursor-pointer">
+                        <input
+                          type="radio"
+                          name="status"
+                          value={statusOption.value}
+                          checked={status === statusOption.value}
+                          onChange={(e) => setStatus(e.target.value as ReadingStatus)}
+                          className="sr-only"
+                        />
+                        <div className={`p-2 rounded-lg border-2 text-center text-xs font-medium transition-all ${
+                          status === statusOption.value 
+                            ? statusOption.color + ' ring-2 ring-offset-2'
+                            : 'border-gray-200 hover:border-gray-300'
+                        }`}>
+                          {statusOption.label}
+                        </div>
+                      </label>
+                    ))}
                   </div>
-                )}
+                  <SeriesConfirmation
+                    title={scannedBook.title}
+                    series={seriesInfo.series}
+                    seriesNumber={seriesInfo.seriesNumber}
+                    onChange={(series, seriesNumber) => setSeriesInfo({ series, seriesNumber })}
+                    compact
+                  />
+                </div>
 
                 {/* Action Buttons */}
                 <div className="space-y-3">
@@ -494,6 +511,13 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
                         <BookOpen className="h-4 w-4" />
                         View in Library
                       </button>
+                      <button
+                        onClick={() => handleAddToLibrary({ allowDuplicate: true })}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add Another Copy
+                      </button>
                       <button
                         onClick={handleScanAgain}
                         className="w-full px-4 py-3 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
@@ -510,6 +534,13 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
                         <Star className="h-4 w-4" />
                         View in Wish List
                       </button>
+                      <button
+                        onClick={handleMoveToLibrary}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-all font-medium"
+                      >
+                        <Plus className="h-4 w-4" />
+                        Move to Library
+                      </button>
                       <button
                         onClick={handleScanAgain}
                         className="w-full px-4 py-3 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
@@ -535,7 +566,7 @@ export default function BarcodeScannerModal({ isOpen, onClose, onAddBook, onAddT
                         </div>
                       </div>
                       <button
-                        onClick={handleAddToLibrary}
+                        onClick={() => handleAddToLibrary()}
                         className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-all font-medium"
                       >
                         <Plus className="h-4 w-4" />
@@ -1,14 +1,17 @@
-import { Book } from '@/types/book';
-import { Star, Home, Tablet } from 'lucide-react';
+import { Book, Shelf } from '@/types/book';
+import { Star, Home, Tablet, CloudOff } from 'lucide-react';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
+import { readingStatus } from '@/utils/readingStatus';
+import ShelfChip from '@/components/ShelfChip';
 
 interface BookCardProps {
   book: Book;
+  shelves?: Shelf[]; // Shelves this book is on
   onUpdate: (id: string, updates: Partial<Book>) => void;
 }
 
-export default function BookCard({ book, onUpdate }: BookCardProps) {
+export default function BookCard({ book, shelves = [], onUpdate }: BookCardProps) {
   const router = useRouter();
 
   const handleRatingChange = (rating: number, e: React.MouseEvent) => {
@@ -102,10 +105,19 @@ export default function BookCard({ book, onUpdate }: BookCardProps) {
             {getOwnershipIcon()}
             <span>{getOwnershipLabel()}</span>
           </span>
+          {book.pendingSync && (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-1 bg-amber-50 text-amber-700 text-xs rounded-full font-medium border border-amber-100"
+              title="Saved on this device, waiting to sync"
+            >
+              <CloudOff className="h-3 w-3" />
+              <span>Not synced</span>
+            </span>
+          )}
         </div>
         
         {/* Status/Progress */}
-        {book.status === 'currently-reading' && book.pages && (
+        {(book.status === 'currently-reading' || book.status === 'paused') && book.pages && (
           <div className="w-full mt-2 px-1">
             <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
               <div
@@ -114,12 +126,33 @@ export default function BookCard({ book, onUpdate }: BookCardProps) {
               />
             </div>
             <div className="flex justify-between text-xs text-gray-500">
-              <span className="font-medium">Progress</span>
+              <span className="font-medium">{book.status === 'paused' ? 'Paused' : 'Progress'}</span>
               <span className="font-mono">{book.currentPage || 0}/{book.pages}</span>
             </div>
           </div>
         )}
         
+        {book.status === 'dnf' && (
+          <span className="inline-block mt-2 px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-full font-medium">
+            Did not finish{book.stoppedAtPage ? ` · p. ${book.stoppedAtPage}` : ''}
+          </span>
+        )}
+        
+        {/* Shelf chips */}
+        {shelves.length > 0 && (
+          <div className="flex flex-wrap gap-1 justify-center">
+            {shelves.map(shelf => (
+              <ShelfChip key={shelf.id} shelf={shelf} />
+            ))}
+          </div>
+        )}
+        
+        {book.readings && book.readings.length > 0 && (
+          <span className="inline-block px-2 py-1 bg-indigo-50 text-indigo-700 text-xs rounded-full font-medium border border-indigo-100">
+            Read {readingStatus.getCompletedReadingCount(book)}×
+          </span>
+        )}
+        
         {/* Rating */}
         {book.status === 'read' && (
           <div className="flex items-center gap-1 mt-2 p-2 bg-yellow-50 rounded-lg">
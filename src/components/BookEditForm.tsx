@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { Book, BookUpdate } from '@/types/book';
+import { bookValidation, BookDetailsErrors, BookDetailsInput, MAX_PAGES } from '@/utils/bookValidation';
+import { BookOpen, User, Hash, FileText, Tag, Image as IconImage, Calendar, Save, X } from 'lucide-react';
+import { format } from 'date-fns';
+import SeriesConfirmation from '@/components/SeriesConfirmation';
+
+interface BookEditFormProps {
+  book: Book;
+  onSave: (updates: BookUpdate) => Promise<void>;
+  onCancel: () => void;
+}
+
+const toDateInput = (date?: Date) => (date ? format(date, 'yyyy-MM-dd') : '');
+
+export default function BookEditForm({ book, onSave, onCancel }: BookEditFormProps) {
+  const [formData, setFormData] = useState<BookDetailsInput>({
+    title: book.title,
+    author: book.author,
+    isbn: book.isbn || '',
+    pages: book.pages ? String(book.pages) : '',
+    genre: book.genre || '',
+    coverUrl: book.coverUrl || '',
+    dateStarted: toDateInput(book.dateStarted),
+    dateFinished: toDateInput(book.dateFinished),
+    series: book.series || '',
+    seriesNumber: book.seriesNumber !== undefined ? String(book.seriesNumber) : '',
+  });
+  const [errors, setErrors] = useState<BookDetailsErrors>({});
+  const [saveError, setSaveError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleInputChange = (field: keyof BookDetailsInput, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = bookValidation.validateDetails({
+      ...formData,
+      currentPage: book.currentPage,
+      status: book.status,
+      saved: { dateStarted: toDateInput(book.dateStarted), dateFinished: toDateInput(book.dateFinished) },
+    });
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    // Emptied optional fields are cleared rather than left untouched
+    const updates: BookUpdate = {
+      title: formData.title.trim(),
+      author: formData.author.trim(),
+      isbn: formData.isbn.trim() || null,
+      pages: formData.pages.trim() ? Number(formData.pages) : null,
+      genre: formData.genre.trim() || null,
+      coverUrl: formData.coverUrl.trim() || null,
+      dateStarted: bookValidation.parseDateInput(formData.dateStarted) ?? null,
+      dateFinished: bookValidation.parseDateInput(formData.dateFinished) ?? null,
+      series: formData.series.trim() || null,
+      seriesNumber: bookValidation.parseSeriesNumber(formData.seriesNumber) ?? null,
+    };
+
+    setIsSaving(true);
+    setSaveError('');
+    try {
+      await onSave(updates);
+    } catch (error) {
+      console.error('Error saving book:', error);
+      setSaveError('Failed to save your changes. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = (field: keyof BookDetailsInput) =>
+    `w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all ${
+      errors[field] ? 'border-red-300 bg-red-50' : 'border-gray-200'
+    }`;
+
+  const renderError = (field: keyof BookDetailsInput) =>
+    errors[field] && <p className="text-xs text-red-600 mt-1">{errors[field]}</p>;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            <BookOpen className="h-4 w-4" />
+            Title *
+          </label>
+          <input
+            type="text"
+            value={formData.title}
+            onChange={(e) => handleInputChange('title', e.target.value)}
+            className={inputClassName('title')}
+          />
+          {renderError('title')}
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            <User className="h-4 w-4" />
+            Author *
+          </label>
+          <input
+            type="text"
+            value={formData.author}
+            onChange={(e) => handleInputChange('author', e.target.value)}
+            className={inputClassName('author')}
+          />
+          {renderError('author')}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            <Hash className="h-4 w-4" />
+            ISBN
+          </label>
+          <input
+            type="text"
+            value={formData.isbn}
+            onChange={(e) => handleInputChange('isbn', e.target.value)}
+            className={inputClassName('isbn')}
+            placeholder="978-0123456789"
+          />
+          {renderError('isbn')}
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            <FileText className="h-4 w-4" />
+            Pages
+          </label>
+          <input
+            type="number"
+            value={formData.pages}
+            onChange={(e) => handleInputChange('pages', e.target.value)}
+            className={inputClassName('pages')}
+            min="1"
+            max={MAX_PAGES}
+          />
+          {renderError('pages')}
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            <Tag className="h-4 w-4" />
+            Genre
+          </label>
+          <input
+            type="text"
+            value={formData.genre}
+            onChange={(e) => handleInputChange('genre', e.target.value)}
+            className={inputClassName('genre')}
+          />
+          {renderError('genre')}
+        </div>
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+          <IconImage className="h-4 w-4" />
+          Cover Image URL
+        </label>
+        <input
+          type="url"
+          value={formData.coverUrl}
+          onChange={(e) => handleInputChange('coverUrl', e.target.value)}
+          className={inputClassName('coverUrl')}
+          placeholder="https://example.com/book-cover.jpg"
+        />
+        {renderError('coverUrl')}
+      </div>
+
+      <div>
+        <SeriesConfirmation
+          title={formData.title}
+          series={formData.series}
+          seriesNumber={formData.seriesNumber}
+          onChange={(series, seriesNumber) => {
+            setFormData(prev => ({ ...prev, series, seriesNumber }));
+            setErrors(prev => ({ ...prev, series: undefined, seriesNumber: undefined }));
+          }}
+        />
+        {renderError('series')}
+        {renderError('seriesNumber')}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            <Calendar className="h-4 w-4" />
+            Date Started
+          </label>
+          <input
+            type="date"
+            value={formData.dateStarted}
+            onChange={(e) => handleInputChange('dateStarted', e.target.value)}
+            className={inputClassName('dateStarted')}
+          />
+          {renderError('dateStarted')}
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            <Calendar className="h-4 w-4" />
+            {book.status === 'dnf' ? 'Date Stopped' : 'Date Finished'}
+          </label>
+          <input
+            type="date"
+            value={formData.dateFinished}
+            onChange={(e) => handleInputChange('dateFinished', e.target.value)}
+            className={inputClassName('dateFinished')}
+          />
+          {renderError('dateFinished')}
+        </div>
+      </div>
+
+      {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+      <div className="flex gap-3 justify-end pt-4 border-t border-gray-100">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center gap-2 px-6 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <X className="h-4 w-4" />
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="flex items-center gap-2 px-6 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-all disabled:opacity-50"
+        >
+          <Save className="h-4 w-4" />
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </form>
+  );
+}
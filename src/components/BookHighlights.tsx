@@ -0,0 +1,79 @@
+import { Highlight } from '@/types/book';
+import { Highlighter, NotebookPen, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface BookHighlightsProps {
+  highlights: Highlight[];
+  onDelete: (id: string) => void;
+}
+
+const highlightTypeConfig = {
+  'highlight': {
+    icon: Highlighter,
+    label: 'Highlight',
+    color: 'border-yellow-200 bg-yellow-50 text-yellow-700',
+  },
+  'note': {
+    icon: NotebookPen,
+    label: 'Note',
+    color: 'border-blue-200 bg-blue-50 text-blue-700',
+  },
+};
+
+export default function BookHighlights({ highlights, onDelete }: BookHighlightsProps) {
+  if (highlights.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Highlighter className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+        <h3 className="font-medium text-gray-900 mb-2">No Kindle highlights yet</h3>
+        <p className="text-gray-600 text-sm max-w-md mx-auto">
+          Choose Import Kindle Highlights from the menu on your library page to bring in the highlights and notes
+          from your Kindle&apos;s My Clippings.txt.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        {highlights.length} clipping{highlights.length === 1 ? '' : 's'} from your Kindle, in the order you made them
+      </p>
+      {highlights.map((highlight) => {
+        const config = highlightTypeConfig[highlight.type];
+        const Icon = config.icon;
+
+        return (
+          <div key={highlight.id} className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="flex items-start justify-between gap-3 mb-2">
+              <div className="flex items-center gap-2 text-xs">
+                <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border font-medium ${config.color}`}>
+                  <Icon className="h-3 w-3" />
+                  {config.label}
+                </span>
+                {highlight.page && <span className="text-gray-500">p. {highlight.page}</span>}
+                {highlight.location && <span className="text-gray-500">loc. {highlight.location}</span>}
+                <span className="text-gray-400">{format(highlight.dateAdded, 'MMM d, yyyy')}</span>
+              </div>
+              <button
+                onClick={() => onDelete(highlight.id)}
+                className="p-1 text-gray-400 hover:text-red-500 transition-colors flex-shrink-0"
+                title="Delete"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+
+            {highlight.type === 'highlight' ? (
+              <blockquote className="border-l-4 border-yellow-300 bg-yellow-50/50 pl-3 text-sm italic text-gray-800 whitespace-pre-line">
+                {highlight.content}
+              </blockquote>
+            ) : (
+              <p className="text-sm text-gray-800 whitespace-pre-line">{highlight.content}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
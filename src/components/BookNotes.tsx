@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { BookNote, BookNoteType } from '@/types/book';
+import { Plus, Edit3, Trash2, Quote, Highlighter, NotebookPen, Save, X, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import ReactMarkdown from 'react-markdown';
+
+interface BookNotesProps {
+  bookId: string;
+  notes: BookNote[];
+  onAdd: (note: Omit<BookNote, 'id' | 'dateAdded' | 'dateUpdated'>) => Promise<void>;
+  onUpdate: (id: string, updates: Partial<Pick<BookNote, 'type' | 'content' | 'page'>>) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+const noteTypeConfig = {
+  'note': {
+    icon: NotebookPen,
+    label: 'Note',
+    color: 'border-blue-200 bg-blue-50 text-blue-700',
+    placeholder: 'Your thoughts... (Markdown supported)',
+  },
+  'quote': {
+    icon: Quote,
+    label: 'Quote',
+    color: 'border-purple-200 bg-purple-50 text-purple-700',
+    placeholder: 'A passage worth remembering',
+  },
+  'highlight': {
+    icon: Highlighter,
+    label: 'Highlight',
+    color: 'border-yellow-200 bg-yellow-50 text-yellow-700',
+    placeholder: 'Highlighted text',
+  },
+};
+
+interface NoteFormProps {
+  initial?: { type: BookNoteType; content: string; page?: number };
+  submitLabel: string;
+  onSubmit: (values: { type: BookNoteType; content: string; page?: number }) => Promise<void>;
+  onCancel: () => void;
+}
+
+function NoteForm({ initial, submitLabel, onSubmit, onCancel }: NoteFormProps) {
+  const [type, setType] = useState<BookNoteType>(initial?.type || 'note');
+  const [content, setContent] = useState(initial?.content || '');
+  const [page, setPage] = useState(initial?.page ? String(initial.page) : '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        type,
+        content: content.trim(),
+        page: page ? parseInt(page) : undefined,
+      });
+    } catch (error) {
+      console.error('Error saving note:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save note');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex gap-2">
+        {(Object.keys(noteTypeConfig) as BookNoteType[]).map((noteType) => {
+          const config = noteTypeConfig[noteType];
+          const Icon = config.icon;
+          return (
+            <button
+              key={noteType}
+              type="button"
+              onClick={() => setType(noteType)}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 text-xs font-medium transition-all ${
+                type === noteType ? config.color : 'border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              <Icon className="h-3 w-3" />
+              {config.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={type === 'note' ? 6 : 3}
+        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        placeholder={noteTypeConfig[type].placeholder}
+        required
+      />
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <label className="text-xs font-medium text-gray-600">Page</label>
+          <input
+            type="number"
+            value={page}
+            onChange={(e) => setPage(e.target.value)}
+            className="w-20 px-2 py-1 border border-gray-200 rounded text-sm"
+            min="1"
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <X className="h-4 w-4" />
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !content.trim()}
+            className="flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            {isSaving ? 'Saving...' : submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+export default function BookNotes({ bookId, notes, onAdd, onUpdate, onDelete }: BookNotesProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<BookNoteType | 'all'>('all');
+
+  const filteredNotes = filter === 'all' ? notes : notes.filter(note => note.type === filter);
+
+  const getCount = (type: BookNoteType | 'all') =>
+    type === 'all' ? notes.length : notes.filter(note => note.type === type).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2 overflow-x-auto hide-scrollbar">
+          {(['all', 'note', 'quote', 'highlight'] as const).map((type) => (
+            <button
+              key={type}
+              onClick={() => setFilter(type)}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${
+                filter === type ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {type === 'all' ? 'All' : `${noteTypeConfig[type].label}s`} ({getCount(type)})
+            </button>
+          ))}
+        </div>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Add
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <NoteForm
+          initial={filter !== 'all' ? { type: filter, content: '' } : undefined}
+          submitLabel="Save"
+          onSubmit={async (values) => {
+            await onAdd({ bookId, ...values });
+            setIsAdding(false);
+          }}
+          onCancel={() => setIsAdding(false)}
+        />
+      )}
+
+      {filteredNotes.length === 0 && !isAdding ? (
+        <div className="text-center py-12">
+          <NotebookPen className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+          <h3 className="font-medium text-gray-900 mb-2">Nothing here yet</h3>
+          <p className="text-gray-600 text-sm max-w-md mx-auto">
+            Jot down your thoughts, or save quotes and highlights with the page they came from.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredNotes.map((note) => {
+            const config = noteTypeConfig[note.type];
+            const Icon = config.icon;
+
+            if (editingId === note.id) {
+              return (
+                <NoteForm
+                  key={note.id}
+                  initial={note}
+                  submitLabel="Save Changes"
+                  onSubmit={async (values) => {
+                    await onUpdate(note.id, values);
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              );
+            }
+
+            return (
+              <div key={note.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border font-medium ${config.color}`}>
+                      <Icon className="h-3 w-3" />
+                      {config.label}
+                    </span>
+                    {note.page && <span className="text-gray-500">p. {note.page}</span>}
+                    <span className="text-gray-400">{format(note.dateAdded, 'MMM d, yyyy')}</span>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => setEditingId(note.id)}
+                      className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+                      title="Edit"
+                    >
+                      <Edit3 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => onDelete(note.id)}
+                      className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {note.type === 'note' ? (
+                  <div className="prose-note text-sm text-gray-800 space-y-2">
+                    <ReactMarkdown>{note.content}</ReactMarkdown>
+                  </div>
+                ) : (
+                  <blockquote
+                    className={`border-l-4 pl-3 text-sm italic text-gray-800 whitespace-pre-line ${
+                      note.type === 'quote' ? 'border-purple-300' : 'border-yellow-300 bg-yellow-50/50'
+                    }`}
+                  >
+                    {note.content}
+                  </blockquote>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,22 @@
 import { useState, useEffect } from 'react';
-import { Book, ReadingStatus, SeriesBook } from '@/types/book';
+import { Book, BookUpdate, ReadingStatus, SeriesBook } from '@/types/book';
 import { googleBooksAPI } from '@/utils/googleBooks';
-import { firestoreStorage } from '@/utils/firestoreStorage';
+import { libraryRepository } from '@/utils/repository';
+import { readingStatus } from '@/utils/readingStatus';
+import { libraryMatching } from '@/utils/libraryMatching';
 import { 
   X, BookOpen, Calendar, Hash, Star, Edit3, Trash2, 
-  Save, Clock, CheckCircle2, Heart,
+  Clock, CheckCircle2, Heart, PauseCircle, XCircle,
   FileText, Target, BookMarked
 } from 'lucide-react';
 import { format } from 'date-fns';
 import Image from 'next/image';
+import BookEditForm from '@/components/BookEditForm';
 
 interface BookProfileModalProps {
   book: Book;
   onClose: () => void;
-  onUpdate: (id: string, updates: Partial<Book>) => void;
+  onUpdate: (id: string, updates: BookUpdate) => void;
   onDelete: (id: string) => void;
 }
 
@@ -38,6 +41,13 @@ export default function BookProfileModal({ book, onClose, onUpdate, onDelete }:
       bgColor: 'bg-orange-50',
       textColor: 'text-orange-700'
     },
+    'paused': {
+      icon: PauseCircle,
+      label: 'Paused',
+      color: 'border-yellow-200 bg-yellow-50 text-yellow-700',
+      bgColor: 'bg-yellow-50',
+      textColor: 'text-yellow-700'
+    },
     'read': {
       icon: CheckCircle2,
       label: 'Read',
@@ -45,24 +55,22 @@ export default function BookProfileModal({ book, onClose, onUpdate, onDelete }:
       bgColor: 'bg-green-50',
       textColor: 'text-green-700'
     },
+    'dnf': {
+      icon: XCircle,
+      label: 'Did Not Finish',
+      color: 'border-gray-300 bg-gray-100 text-gray-700',
+      bgColor: 'bg-gray-100',
+      textColor: 'text-gray-700'
+    },
   };
 
-  const handleSave = () => {
-    // Handle save functionality when editing mode is implemented
+  const handleSave = (updates: BookUpdate) => {
+    onUpdate(book.id, updates);
     setIsEditing(false);
   };
 
   const handleStatusChange = (newStatus: ReadingStatus) => {
-    const updates: Partial<Book> = { status: newStatus };
-    
-    if (newStatus === 'currently-reading' && !book.dateStarted) {
-      updates.dateStarted = new Date();
-    } else if (newStatus === 'read') {
-      if (!book.dateStarted) updates.dateStarted = new Date();
-      updates.dateFinished = new Date();
-    }
-    
-    onUpdate(book.id, updates);
+    onUpdate(book.id, readingStatus.getTransitionUpdates(book, newStatus));
   };
 
   const handleRatingChange = (rating: number) => {
@@ -85,15 +93,12 @@ export default function BookProfileModal({ book, onClose, onUpdate, onDelete }:
     try {
       const books = await googleBooksAPI.searchSeriesBooks(book.author, book.title);
       
-      // Check which books are in user's library
-      const userBooks = await firestoreStorage.getBooks();
-      const booksWithLibraryStatus = books.map(seriesBook => ({
-        ...seriesBook,
-        inLibrary: userBooks.some(userBook => 
-          userBook.title.toLowerCase().includes(seriesBook.title.toLowerCase()) ||
-          seriesBook.title.toLowerCase().includes(userBook.title.toLowerCase())
-        )
-      }));
+      // Check which books are in user's library or wish list
+      const [userBooks, wishListBooks] = await Promise.all([
+        libraryRepository.getBooks(),
+        libraryRepository.getWishListBooks(),
+      ]);
+      const booksWithLibraryStatus = libraryMatching.annotateSeriesBooks(books, userBooks, wishListBooks);
 
       setSeriesBooks(booksWithLibraryStatus);
     } catch (error) {
@@ -269,14 +274,18 @@ export default function BookProfileModal({ book, onClose, onUpdate, onDelete }:
                       {Object.entries(statusConfig).map(([status, config]) => {
                         const Icon = config.icon;
                         const isActive = book.status === status;
+                        const isAllowed = readingStatus.canTransition(book.status, status as ReadingStatus);
                         return (
                           <button
                             key={status}
                             onClick={() => handleStatusChange(status as ReadingStatus)}
+                            disabled={!isAllowed}
                             className={`p-3 rounded-lg border-2 text-center text-sm font-medium transition-all ${
                               isActive 
                                 ? config.color + ' ring-2 ring-offset-2'
-                                : 'border-gray-200 hover:border-gray-300'
+                                : isAllowed
+                                  ? 'border-gray-200 hover:border-gray-300'
+                                  : 'border-gray-100 text-gray-300 cursor-not-allowed'
                             }`}
                           >
                             <Icon className="h-5 w-5 mx-auto mb-1" />
@@ -485,10 +494,17 @@ export default function BookProfileModal({ book, onClose, onUpdate, onDelete }:
                               <p className="text-xs text-gray-500 mt-1">{seriesBook.publishedYear}</p>
                             )}
 
-                            {seriesBook.inLibrary && (
+                            {seriesBook.inLibrary ? (
                               <div className="flex items-center gap-1 mt-2">
                                 <CheckCircle2 className="h-3 w-3 text-green-600" />
-                                <span className="text-xs text-green-700 font-medium">In your library</span>
+                                <span className="text-xs text-green-700 font-medium">
+                                  {seriesBook.libraryStatus ? statusConfig[seriesBook.libraryStatus].label : 'In your library'}
+                                </span>
+                              </div>
+                            ) : seriesBook.inWishList && (
+                              <div className="flex items-center gap-1 mt-2">
+                                <Star className="h-3 w-3 text-purple-600" />
+                                <span className="text-xs text-purple-700 font-medium">On your wish list</span>
                               </div>
                             )}
 
@@ -537,24 +553,14 @@ export default function BookProfileModal({ book, onClose, onUpdate, onDelete }:
           )}
         </div>
 
-        {/* Footer Actions */}
+        {/* Edit Form */}
         {isEditing && (
           <div className="border-t border-gray-100 p-6">
-            <div className="flex gap-3 justify-end">
-              <button
-                onClick={() => setIsEditing(false)}
-                className="px-6 py-2 border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleSave}
-                className="flex items-center gap-2 px-6 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-all"
-              >
-                <Save className="h-4 w-4" />
-                Save Changes
-              </button>
-            </div>
+            <BookEditForm
+              book={book}
+              onSave={async (updates) => handleSave(updates)}
+              onCancel={() => setIsEditing(false)}
+            />
           </div>
         )}
       </div>
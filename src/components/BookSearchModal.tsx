@@ -1,21 +1,30 @@
 import { useState, useEffect, useRef } from 'react';
 import { Book, ReadingStatus, WishListBook } from '@/types/book';
+import { AddConflict, AddOptions, AddResult, MoveToLibraryOptions } from '@/types/repository';
 import { googleBooksAPI, BookSearchResult } from '@/utils/googleBooks';
+import { readingStatus } from '@/utils/readingStatus';
+import { bookValidation } from '@/utils/bookValidation';
 import { X, Search, BookOpen, Calendar, Hash, Loader2, Plus, Star } from 'lucide-react';
 import Image from 'next/image';
+import SeriesConfirmation from '@/components/SeriesConfirmation';
+import AddConflictNotice from '@/components/AddConflictNotice';
 
 interface BookSearchModalProps {
   onClose: () => void;
-  onAdd: (book: Omit<Book, 'id' | 'dateAdded'>) => void;
-  onAddToWishList: (book: Omit<WishListBook, 'id' | 'dateAdded'>) => void;
+  onAdd: (book: Omit<Book, 'id' | 'dateAdded'>, options?: AddOptions) => Promise<AddResult<Book> | null>;
+  onAddToWishList: (book: Omit<WishListBook, 'id' | 'dateAdded'>, options?: AddOptions) => Promise<AddResult<WishListBook> | null>;
+  onMoveToLibrary: (wishListBookId: string, options: MoveToLibraryOptions) => Promise<void>;
 }
 
-export default function BookSearchModal({ onClose, onAdd, onAddToWishList }: BookSearchModalProps) {
+export default function BookSearchModal({ onClose, onAdd, onAddToWishList, onMoveToLibrary }: BookSearchModalProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<BookSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [selectedBook, setSelectedBook] = useState<BookSearchResult | null>(null);
   const [status, setStatus] = useState<ReadingStatus>('currently-reading');
+  const [seriesInfo, setSeriesInfo] = useState({ series: '', seriesNumber: '' });
+  const [conflict, setConflict] = useState<{ conflict: AddConflict; target: 'library' | 'wishlist' } | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Debounced search
@@ -51,9 +60,17 @@ export default function BookSearchModal({ onClose, onAdd, onAddToWishList }: Boo
 
   const handleBookSelect = (book: BookSearchResult) => {
     setSelectedBook(book);
+    setSeriesInfo({ series: '', seriesNumber: '' });
+    setConflict(null);
   };
 
-  const handleAddBook = () => {
+  // Close once added, or show what the book conflicts with and which add to retry
+  const handleResult = (result: AddResult<Book | WishListBook> | null, target: 'library' | 'wishlist') => {
+    if (result?.status === 'added') onClose();
+    if (result?.status === 'conflict') setConflict({ conflict: result.conflict, target });
+  };
+
+  const handleAddBook = async (options?: AddOptions) => {
     if (!selectedBook) return;
 
     const bookData: Omit<Book, 'id' | 'dateAdded'> = {
@@ -63,17 +80,18 @@ export default function BookSearchModal({ onClose, onAdd, onAddToWishList }: Boo
       coverUrl: selectedBook.coverUrl,
       pages: selectedBook.pages,
       genre: selectedBook.genre,
-      status: status,
+      series: seriesInfo.series.trim() || undefined,
+      seriesNumber: seriesInfo.series.trim() ? bookValidation.parseSeriesNumber(seriesInfo.seriesNumber) : undefined,
       ownershipType: 'physical', // Default to physical when adding from search
-      dateStarted: status === 'currently-reading' ? new Date() : undefined,
-      dateFinished: status === 'read' ? new Date() : undefined,
+      ...readingStatus.getInitialFields(status, { pages: selectedBook.pages }),
     };
 
-    onAdd(bookData);
-    onClose(); // Close the modal after adding to library
+    setIsAdding(true);
+    handleResult(await onAdd(bookData, options), 'library');
+    setIsAdding(false);
   };
 
-  const handleAddToWishList = () => {
+  const handleAddToWishList = async (options?: AddOptions) => {
     if (!selectedBook) return;
 
     const wishListBookData: Omit<WishListBook, 'id' | 'dateAdded'> = {
@@ -88,8 +106,16 @@ export default function BookSearchModal({ onClose, onAdd, onAddToWishList }: Boo
       description: selectedBook.description,
     };
 
-    onAddToWishList(wishListBookData);
-    onClose(); // Close the modal after adding to wish list
+    setIsAdding(true);
+    handleResult(await onAddToWishList(wishListBookData, options), 'wishlist');
+    setIsAdding(false);
+  };
+
+  const handleMoveToLibrary = async (wishListBookId: string) => {
+    setIsAdding(true);
+    await onMoveToLibrary(wishListBookId, { status });
+    setIsAdding(false);
+    onClose();
   };
 
   const truncateText = (text: string, maxLength: number) => {
@@ -297,9 +323,20 @@ export default function BookSearchModal({ onClose, onAdd, onAddToWishList }: Boo
                   {/* Action Buttons */}
                   <div className="space-y-3">
                     {/* Add to Wish List Button */}
+                    {conflict && (
+                      <AddConflictNotice
+                        conflict={conflict.conflict}
+                        isWorking={isAdding}
+                        onAddAnyway={() => (conflict.target === 'library' ? handleAddBook : handleAddToWishList)({ allowDuplicate: true })}
+                        onCancel={() => setConflict(null)}
+                        onMoveToLibrary={conflict.target === 'library' ? () => handleMoveToLibrary(conflict.conflict.book.id) : undefined}
+                      />
+                    )}
+
                     <button
-                      onClick={handleAddToWishList}
-                      className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-purple-500 to-pink-600 text-white rounded-xl hover:from-purple-600 hover:to-pink-700 transition-all shadow-lg hover:shadow-xl"
+                      onClick={() => handleAddToWishList()}
+                      disabled={isAdding}
+                      className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-purple-500 to-pink-600 text-white rounded-xl hover:from-purple-600 hover:to-pink-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-50"
                     >
                       <Star className="h-5 w-5" />
                       Add to Wish List
@@ -318,8 +355,9 @@ export default function BookSearchModal({ onClose, onAdd, onAddToWishList }: Boo
                     {/* Status Selection for Library */}
                     <div>
                       <h5 className="font-semibold text-gray-900 mb-3">Add to Library with Status</h5>
-                      <div className="grid grid-cols-2 gap-2 mb-3">
+                      <div className="grid grid-cols-3 gap-2 mb-3">
                         {[
+                          { value: 'want-to-read', label: 'Want to Read', color: 'border-red-200 bg-red-50 text-red-700' },
                           { value: 'currently-reading', label: 'Currently Reading', color: 'border-orange-200 bg-orange-50 text-orange-700' },
                           { value: 'read', label: 'Read', color: 'border-green-200 bg-green-50 text-green-700' },
                         ].map((statusOption) => (
@@ -343,10 +381,22 @@ export default function BookSearchModal({ onClose, onAdd, onAddToWishList }: Boo
                         ))}
                       </div>
 
+                      <div className="mb-3">
+                        <SeriesConfirmation
+                          key={selectedBook.id}
+                          title={selectedBook.title}
+                          series={seriesInfo.series}
+                          seriesNumber={seriesInfo.seriesNumber}
+                          onChange={(series, seriesNumber) => setSeriesInfo({ series, seriesNumber })}
+                          compact
+                        />
+                      </div>
+
                       {/* Add to Library Button */}
                       <button
-                        onClick={handleAddBook}
-                        className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-xl hover:from-green-700 hover:to-blue-700 transition-all shadow-lg hover:shadow-xl"
+                        onClick={() => handleAddBook()}
+                        disabled={isAdding}
+                        className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-xl hover:from-green-700 hover:to-blue-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-50"
                       >
                         <Plus className="h-5 w-5" />
                         Add to My Library
@@ -0,0 +1,338 @@
+import { useEffect, useRef, useState } from 'react';
+import NextImage from 'next/image';
+import { Book, OwnershipType, ReadingStatus, WishListBook } from '@/types/book';
+import { libraryRepository } from '@/utils/repository';
+import { readingStatus, STATUS_LABELS } from '@/utils/readingStatus';
+import { googleBooksAPI, GoogleBooksUnavailableError } from '@/utils/googleBooks';
+import { isbnList, IsbnListEntry, IsbnListStatus } from '@/utils/isbnList';
+import { downloadUtils } from '@/utils/download';
+import { X, ListPlus, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+
+interface BulkIsbnImportModalProps {
+  onClose: () => void;
+}
+
+type Destination = 'library' | 'wishlist';
+
+const ENTRY_LABELS: Record<IsbnListStatus, { label: string; className: string }> = {
+  'invalid': { label: 'Not a valid ISBN', className: 'text-red-600' },
+  'repeated': { label: 'Repeated in list', className: 'text-gray-500' },
+  'pending': { label: 'Waiting...', className: 'text-gray-400' },
+  'found': { label: 'Found', className: 'text-green-600' },
+  'not-found': { label: 'Not found', className: 'text-red-600' },
+  'in-library': { label: 'Already in library', className: 'text-yellow-700' },
+  'in-wishlist': { label: 'Already on wish list', className: 'text-yellow-700' },
+};
+
+const STATUS_OPTIONS: ReadingStatus[] = ['want-to-read', 'currently-reading', 'read'];
+
+export default function BulkIsbnImportModal({ onClose }: BulkIsbnImportModalProps) {
+  const [text, setText] = useState('');
+  const [entries, setEntries] = useState<IsbnListEntry[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [destination, setDestination] = useState<Destination>('library');
+  const [status, setStatus] = useState<ReadingStatus>('want-to-read');
+  const [ownershipType, setOwnershipType] = useState<OwnershipType>('physical');
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [addedCount, setAddedCount] = useState<number | null>(null);
+  const stopRef = useRef(false);
+
+  // Stop looking up when the modal closes
+  useEffect(() => () => {
+    stopRef.current = true;
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setText(await downloadUtils.readFile(file));
+  };
+
+  const handleLookup = async () => {
+    const parsed = isbnList.parse(text);
+    if (parsed.length === 0) {
+      setError('Enter at least one ISBN.');
+      return;
+    }
+
+    setEntries(parsed);
+    setSelected(new Set());
+    setError(null);
+    setIsLookingUp(true);
+    stopRef.current = false;
+    try {
+      const [books, wishlist] = await Promise.all([
+        libraryRepository.getBooks(),
+        libraryRepository.getWishListBooks(),
+      ]);
+      await isbnList.lookup(
+        parsed,
+        { books, wishlist },
+        (index, entry) => {
+          setEntries(prev => prev.map((e, i) => (i === index ? entry : e)));
+          if (entry.status === 'found') setSelected(prev => new Set(prev).add(index));
+        },
+        () => stopRef.current
+      );
+    } catch (error) {
+      console.error('Error looking up ISBNs:', error);
+      setError(error instanceof GoogleBooksUnavailableError ? error.message : 'Failed to look up ISBNs. Please try again.');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleAdd = async () => {
+    const results = entries
+      .filter((entry, index) => selected.has(index) && entry.result)
+      .map(entry => ({ ...entry.result!, isbn: entry.result!.isbn || entry.isbn }));
+
+    const now = new Date();
+    const books: Book[] = destination === 'library'
+      ? results.map(result => {
+          const { series, seriesNumber } = googleBooksAPI.extractSeriesInfo(result.title);
+          return {
+            id: result.id,
+            title: result.title,
+            author: result.author,
+            isbn: result.isbn,
+            coverUrl: result.coverUrl,
+            pages: result.pages,
+            genre: result.genre,
+            publisher: result.publisher,
+            publishedYear: result.publishedYear,
+            description: result.description,
+            ownershipType,
+            dateAdded: now,
+            series,
+            seriesNumber,
+            ...readingStatus.getInitialFields(status, { pages: result.pages }, now),
+          };
+        })
+      : [];
+    const wishlist: WishListBook[] = destination === 'wishlist'
+      ? results.map(result => ({
+          id: result.id,
+          title: result.title,
+          author: result.author,
+          isbn: result.isbn,
+          coverUrl: result.coverUrl,
+          pages: result.pages,
+          genre: result.genre,
+          publisher: result.publisher,
+          publishedYear: result.publishedYear,
+          description: result.description,
+          dateAdded: now,
+        }))
+      : [];
+
+    setIsAdding(true);
+    setError(null);
+    try {
+      await libraryRepository.importLibrary({ books, wishlist, readingSessions: [], notes: [], highlights: [], shelves: [] });
+      setAddedCount(results.length);
+    } catch (error) {
+      console.error('Error adding books from ISBN list:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add books');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const lookedUp = entries.filter(entry => entry.status !== 'pending').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <ListPlus className="h-5 w-5 text-white" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Add Books by ISBN</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+        </div>
+
+        {addedCount !== null ? (
+          <div className="p-6 text-center space-y-4">
+            <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+            <p className="text-gray-900 font-medium">
+              {addedCount} book{addedCount === 1 ? '' : 's'} added to your {destination === 'library' ? 'library' : 'wish list'}
+            </p>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            {entries.length === 0 ? (
+              <div className="space-y-3">
+                <textarea
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  rows={8}
+                  placeholder={'Paste ISBNs, one per line\n9780441172719\n0-7653-2635-X'}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-xl text-gray-900 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <label className="inline-block text-sm text-blue-600 hover:text-blue-700 cursor-pointer">
+                  Or load a text file
+                  <input type="file" accept=".txt,.csv,text/plain" onChange={handleFileChange} className="sr-only" />
+                </label>
+              </div>
+            ) : (
+              <>
+                {isLookingUp && (
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Looking up {lookedUp} of {entries.length}...
+                    <button
+                      onClick={() => {
+                        stopRef.current = true;
+                      }}
+                      className="ml-auto text-blue-600 hover:text-blue-700"
+                    >
+                      Stop
+                    </button>
+                  </div>
+                )}
+
+                <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-80 overflow-y-auto">
+                  {entries.map((entry, index) => (
+                    <li key={index} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(index)}
+                        disabled={entry.status !== 'found'}
+                        onChange={() => toggleSelected(index)}
+                        className="flex-shrink-0"
+                      />
+                      {entry.result?.thumbnail ? (
+                        <NextImage
+                          src={entry.result.thumbnail}
+                          alt={`${entry.result.title} cover`}
+                          width={32}
+                          height={48}
+                          className="w-8 h-12 object-cover rounded flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-8 h-12 bg-gray-100 rounded flex-shrink-0" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="text-gray-900 truncate">{entry.result?.title || entry.input}</p>
+                        <p className="text-gray-500 truncate">
+                          {entry.result ? `${entry.result.author} · ${entry.input}` : ''}
+                        </p>
+                      </div>
+                      <span className={`flex-shrink-0 text-xs ${ENTRY_LABELS[entry.status].className}`}>
+                        {ENTRY_LABELS[entry.status].label}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                {/* Destination */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Add to</label>
+                    <select
+                      value={destination}
+                      onChange={(e) => setDestination(e.target.value as Destination)}
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="library">Library</option>
+                      <option value="wishlist">Wish list</option>
+                    </select>
+                  </div>
+                  {destination === 'library' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+                        <select
+                          value={status}
+                          onChange={(e) => setStatus(e.target.value as ReadingStatus)}
+                          className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {STATUS_OPTIONS.map(option => (
+                            <option key={option} value={option}>{STATUS_LABELS[option]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Ownership</label>
+                        <select
+                          value={ownershipType}
+                          onChange={(e) => setOwnershipType(e.target.value as OwnershipType)}
+                          className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="physical">Physical Book</option>
+                          <option value="digital">Digital Copy</option>
+                        </select>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+
+            {error && (
+              <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              {entries.length === 0 ? (
+                <button
+                  onClick={handleLookup}
+                  disabled={!text.trim()}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Look up
+                </button>
+              ) : (
+                <button
+                  onClick={handleAdd}
+                  disabled={selected.size === 0 || isLookingUp || isAdding}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isAdding ? 'Adding...' : `Add ${selected.size} book${selected.size === 1 ? '' : 's'}`}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
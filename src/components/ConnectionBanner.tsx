@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { REQUIRES_ACCOUNT } from '@/utils/repository';
+import { syncStatus, SyncState } from '@/utils/syncStatus';
+import { AlertCircle, CloudOff, RefreshCw, X } from 'lucide-react';
+
+export default function ConnectionBanner() {
+  const { user } = useAuth();
+  const [state, setState] = useState<SyncState>(syncStatus.getState());
+  const [isReconnecting, setIsReconnecting] = useState(false);
+
+  useEffect(() => syncStatus.subscribe(setState), []);
+
+  // Only the Firestore backend syncs with a server
+  if (!REQUIRES_ACCOUNT || !user) return null;
+
+  const isOffline = !state.online || state.workingOffline;
+  const changeLabel = `${state.pendingWrites} change${state.pendingWrites === 1 ? '' : 's'}`;
+
+  const handleReconnect = async () => {
+    setIsReconnecting(true);
+    try {
+      await syncStatus.reconnect();
+    } catch (error) {
+      console.error('Error reconnecting to Firestore:', error);
+    } finally {
+      setIsReconnecting(false);
+    }
+  };
+
+  if (!isOffline && state.pendingWrites === 0 && state.failures.length === 0) return null;
+
+  return (
+    <div className="sticky top-0 z-50">
+      {isOffline ? (
+        <div className="bg-amber-500 text-white text-sm px-4 py-2 flex items-center justify-center gap-2">
+          <CloudOff className="h-4 w-4 flex-shrink-0" />
+          <span>
+            {state.workingOffline ? 'Working offline.' : 'You are offline.'} Changes are saved on this device
+            {state.pendingWrites > 0 ? ` (${changeLabel} waiting to sync)` : ''} and will sync when you reconnect.
+          </span>
+          {state.workingOffline && (
+            <button
+              onClick={handleReconnect}
+              disabled={isReconnecting}
+              className="ml-2 px-2 py-0.5 bg-white/20 hover:bg-white/30 rounded transition-colors disabled:opacity-50"
+            >
+              {isReconnecting ? 'Reconnecting...' : 'Reconnect'}
+            </button>
+          )}
+        </div>
+      ) : state.pendingWrites > 0 && (
+        <div className="bg-blue-600 text-white text-sm px-4 py-2 flex items-center justify-center gap-2">
+          <RefreshCw className="h-4 w-4 animate-spin flex-shrink-0" />
+          <span>Syncing {changeLabel}...</span>
+        </div>
+      )}
+
+      {state.failures.map(failure => (
+        <div key={failure.id} className="bg-red-50 border-b border-red-200 text-red-800 text-sm px-4 py-2 flex items-center gap-2">
+          <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+          <span className="flex-1">
+            <span className="font-medium">{failure.description}</span> could not be synced: {failure.message}
+          </span>
+          <button
+            onClick={() => syncStatus.dismissFailure(failure.id)}
+            className="p-1 text-red-500 hover:text-red-700 transition-colors"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { OwnershipType, ReadingStatus } from '@/types/book';
+import { libraryRepository } from '@/utils/repository';
+import { csvUtils } from '@/utils/csv';
+import { csvImport, CSV_IMPORT_FIELDS, ColumnMapping, CsvImportDefaults, CsvImportRow } from '@/utils/csvImport';
+import { STATUS_LABELS } from '@/utils/readingStatus';
+import { downloadUtils } from '@/utils/download';
+import { X, Upload, AlertCircle, CheckCircle2, Table, ArrowLeft, Copy } from 'lucide-react';
+
+interface CsvImportWizardProps {
+  onClose: () => void;
+}
+
+type WizardStep = 'upload' | 'map' | 'review' | 'done';
+
+export default function CsvImportWizard({ onClose }: CsvImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaults, setDefaults] = useState<CsvImportDefaults>({ status: 'want-to-read', ownershipType: 'physical' });
+  const [rows, setRows] = useState<CsvImportRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const readyRows = rows.filter(row => row.book && !row.duplicateOf);
+  const invalidRows = rows.filter(row => !row.book);
+  const duplicateRows = rows.filter(row => row.duplicateOf);
+  const missingRequired = CSV_IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    try {
+      const parsed = csvUtils.parseRecords(await downloadUtils.readFile(file));
+      if (parsed.headers.length === 0 || parsed.records.length === 0) {
+        setError('This file has no rows to import. The first row must hold the column names.');
+        return;
+      }
+
+      setHeaders(parsed.headers);
+      setRecords(parsed.records);
+      setMapping(csvImport.guessMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      setError(error instanceof Error ? error.message : 'This file could not be read.');
+    }
+  };
+
+  // Validate every row and look up duplicates without writing anything
+  const handleDryRun = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const builtRows = csvImport.buildRows(records, mapping, defaults);
+      setRows(csvImport.markDuplicates(builtRows, await libraryRepository.getBooks()));
+      setStep('review');
+    } catch (error) {
+      console.error('Error checking CSV import:', error);
+      setError(error instanceof Error ? error.message : 'Failed to check the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await libraryRepository.importLibrary({
+        books: readyRows.map(row => row.book!),
+        wishlist: [],
+        readingSessions: [],
+        notes: [],
+        highlights: [],
+        shelves: [],
+      });
+      setStep('done');
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import books');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <Table className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Import from CSV</h2>
+              <p className="text-sm text-gray-500">
+                {step === 'upload' && 'Step 1 of 3: Choose a file'}
+                {step === 'map' && 'Step 2 of 3: Match columns to book fields'}
+                {step === 'review' && 'Step 3 of 3: Check the results'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-colors">
+              <Upload className="h-6 w-6 text-gray-400" />
+              <span className="text-sm text-gray-600">Choose a CSV file with a header row</span>
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="sr-only" />
+            </label>
+          )}
+
+          {step === 'map' && (
+            <>
+              <p className="text-sm text-gray-600">
+                {records.length} row{records.length === 1 ? '' : 's'} found. Choose which column holds each field.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {CSV_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {label}{required && ' *'}
+                    </label>
+                    <select
+                      value={mapping[field] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value || undefined }))}
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Not imported</option>
+                      {headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {/* Defaults */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t border-gray-100">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Default status</label>
+                  <select
+                    value={defaults.status}
+                    onChange={(e) => setDefaults(prev => ({ ...prev, status: e.target.value as ReadingStatus }))}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {(Object.keys(STATUS_LABELS) as ReadingStatus[]).map(status => (
+                      <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Default ownership</label>
+                  <select
+                    value={defaults.ownershipType}
+                    onChange={(e) => setDefaults(prev => ({ ...prev, ownershipType: e.target.value as OwnershipType }))}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="physical">Physical Book</option>
+                    <option value="digital">Digital Copy</option>
+                  </select>
+                </div>
+                <p className="sm:col-span-2 text-xs text-gray-500">
+                  Defaults are used for rows where the column isn&apos;t mapped or the cell is empty.
+                </p>
+              </div>
+            </>
+          )}
+
+          {step === 'review' && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <span className="px-3 py-1 bg-green-50 text-green-700 text-sm rounded-full border border-green-100">
+                  Ready: {readyRows.length}
+                </span>
+                <span className="px-3 py-1 bg-yellow-50 text-yellow-700 text-sm rounded-full border border-yellow-100">
+                  Already in library: {duplicateRows.length}
+                </span>
+                <span className="px-3 py-1 bg-red-50 text-red-700 text-sm rounded-full border border-red-100">
+                  Invalid: {invalidRows.length}
+                </span>
+              </div>
+
+              <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-96 overflow-y-auto">
+                {rows.map(row => (
+                  <li key={row.row} className="flex items-start gap-3 px-3 py-2 text-sm">
+                    {!row.book ? (
+                      <AlertCircle className="h-4 w-4 mt-0.5 text-red-500 flex-shrink-0" />
+                    ) : row.duplicateOf ? (
+                      <Copy className="h-4 w-4 mt-0.5 text-yellow-500 flex-shrink-0" />
+                    ) : (
+                      <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-500 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-gray-900 truncate">
+                        <span className="text-gray-400 mr-2">Row {row.row}</span>
+                        {row.title}
+                      </p>
+                      {row.errors.map(message => (
+                        <p key={message} className="text-red-600 text-xs">{message}</p>
+                      ))}
+                      {row.duplicateOf && (
+                        <p className="text-yellow-700 text-xs">Same ISBN as &quot;{row.duplicateOf}&quot;, will be skipped</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {step === 'done' && (
+            <div className="text-center space-y-4 py-4">
+              <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+              <p className="text-gray-900 font-medium">Import complete</p>
+              <p className="text-sm text-gray-600">
+                {readyRows.length} book{readyRows.length === 1 ? '' : 's'} added to your library.
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 justify-between">
+            <div>
+              {(step === 'map' || step === 'review') && (
+                <button
+                  onClick={() => setStep(step === 'review' ? 'map' : 'upload')}
+                  disabled={isWorking}
+                  className="flex items-center gap-1 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Back
+                </button>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                {step === 'done' ? 'Close' : 'Cancel'}
+              </button>
+              {step === 'map' && (
+                <button
+                  onClick={handleDryRun}
+                  disabled={missingRequired.length > 0 || isWorking}
+                  title={missingRequired.length > 0 ? `Choose a column for ${missingRequired.map(f => f.label).join(' and ')}` : undefined}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isWorking ? 'Checking...' : 'Check rows'}
+                </button>
+              )}
+              {step === 'review' && (
+                <button
+                  onClick={handleImport}
+                  disabled={readyRows.length === 0 || isWorking}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isWorking ? 'Importing...' : `Import ${readyRows.length} book${readyRows.length === 1 ? '' : 's'}`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useMemo, useState } from 'react';
+import NextImage from 'next/image';
+import { format } from 'date-fns';
+import { Book } from '@/types/book';
+import { libraryRepository } from '@/utils/repository';
+import { STATUS_LABELS } from '@/utils/readingStatus';
+import { duplicateUtils, DuplicatePair, MERGE_FIELDS, MergeChoices, MergeField } from '@/utils/duplicates';
+import { X, Copy, AlertCircle, CheckCircle2, ArrowLeft, ArrowLeftRight } from 'lucide-react';
+
+interface DuplicateFinderModalProps {
+  books: Book[];
+  onClose: () => void;
+}
+
+const formatDate = (date?: Date) => (date ? format(date, 'MMM d, yyyy') : '');
+
+// How a field reads in the comparison table
+const renderValue = (book: Book, field: MergeField) => {
+  switch (field) {
+    case 'coverUrl':
+      return book.coverUrl ? (
+        <NextImage
+          src={book.coverUrl}
+          alt={`${book.title} cover`}
+          width={40}
+          height={60}
+          className="w-10 h-[60px] object-cover rounded"
+        />
+      ) : null;
+    case 'series':
+      return book.series ? `${book.series}${book.seriesNumber !== undefined ? ` #${book.seriesNumber}` : ''}` : null;
+    case 'ownershipType':
+      return book.ownershipType === 'digital' ? 'Digital Copy' : 'Physical Book';
+    case 'reading': {
+      const dates = [formatDate(book.dateStarted), formatDate(book.dateFinished)].filter(Boolean).join(' – ');
+      const earlier = book.readings?.length ?? 0;
+      return (
+        <>
+          <span className="block">{STATUS_LABELS[book.status]}{book.rating ? ` · ${book.rating}★` : ''}</span>
+          {dates && <span className="block text-xs text-gray-500">{dates}</span>}
+          {earlier > 0 && (
+            <span className="block text-xs text-gray-500">
+              {earlier} earlier read{earlier === 1 ? '' : 's'}, always kept
+            </span>
+          )}
+        </>
+      );
+    }
+    default:
+      return book[field] || null;
+  }
+};
+
+export default function DuplicateFinderModal({ books, onClose }: DuplicateFinderModalProps) {
+  const pairs = useMemo(() => duplicateUtils.findDuplicates(books), [books]);
+  const [selected, setSelected] = useState<[Book, Book] | null>(null);
+  const [choices, setChoices] = useState<MergeChoices | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergedCount, setMergedCount] = useState(0);
+
+  const openPair = (keep: Book, merge: Book) => {
+    setSelected([keep, merge]);
+    setChoices(duplicateUtils.defaultChoices(keep, merge));
+    setError(null);
+  };
+
+  const handleMerge = async () => {
+    if (!selected || !choices) return;
+    const [keep, merge] = selected;
+
+    setIsMerging(true);
+    setError(null);
+    try {
+      const merged = await libraryRepository.mergeBooks(keep.id, merge.id, duplicateUtils.buildMerge(keep, merge, choices));
+      if (!merged) throw new Error('Failed to merge books');
+      setMergedCount(count => count + 1);
+      setSelected(null);
+    } catch (error) {
+      console.error('Error merging books:', error);
+      setError(error instanceof Error ? error.message : 'Failed to merge books');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <Copy className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Find Duplicates</h2>
+              <p className="text-sm text-gray-500">
+                {selected ? 'Choose which value to keep for each field' : 'Books with the same ISBN or a very similar title and author'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {!selected ? (
+            <>
+              {mergedCount > 0 && (
+                <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+                  <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+                  <span>{mergedCount} duplicate{mergedCount === 1 ? '' : 's'} merged.</span>
+                </div>
+              )}
+
+              {pairs.length === 0 ? (
+                <div className="text-center space-y-2 py-6">
+                  <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+                  <p className="text-gray-900 font-medium">No duplicates found</p>
+                </div>
+              ) : (
+                <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                  {pairs.map((pair: DuplicatePair) => (
+                    <li key={`${pair.books[0].id}-${pair.books[1].id}`} className="flex items-center gap-3 px-3 py-3">
+                      <div className="flex-1 min-w-0 text-sm">
+                        {pair.books.map(book => (
+                          <p key={book.id} className="text-gray-900 truncate">
+                            {book.title} <span className="text-gray-500">by {book.author} · {STATUS_LABELS[book.status]}</span>
+                          </p>
+                        ))}
+                        <p className="text-xs text-yellow-700">
+                          {pair.reason === 'isbn' ? 'Same ISBN' : `Similar title (${Math.round(pair.similarity * 100)}% match)`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => openPair(pair.books[0], pair.books[1])}
+                        className="px-3 py-1.5 text-sm text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors flex-shrink-0"
+                      >
+                        Compare
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          ) : choices && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-2 pr-3 font-medium w-28"></th>
+                      <th className="py-2 px-3 font-medium">Kept copy</th>
+                      <th className="py-2 px-3 font-medium">Removed copy</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {MERGE_FIELDS.map(({ field, label }) => (
+                      <tr key={field}>
+                        <td className="py-2 pr-3 text-gray-500 align-top">{label}</td>
+                        {(['keep', 'merge'] as const).map((side, index) => (
+                          <td key={side} className="py-1 px-1 align-top">
+                            <label
+                              className={`flex items-start gap-2 p-2 rounded-lg cursor-pointer border ${
+                                choices[field] === side ? 'border-blue-300 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+                              }`}
+                            >
+                              <input
+                                type="radio"
+                                name={field}
+                                checked={choices[field] === side}
+                                onChange={() => setChoices(prev => prev && { ...prev, [field]: side })}
+                                className="mt-0.5"
+                              />
+                              <span className="min-w-0 break-words text-gray-900">
+                                {renderValue(selected[index], field) ?? <span className="text-gray-400">None</span>}
+                              </span>
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Earlier reads, reading sessions, notes and shelves from both copies are kept. A finished read you
+                don&apos;t choose as the current read is kept as an earlier read.
+              </p>
+            </>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 justify-between">
+            <div className="flex gap-2">
+              {selected && (
+                <>
+                  <button
+                    onClick={() => setSelected(null)}
+                    disabled={isMerging}
+                    className="flex items-center gap-1 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back
+                  </button>
+                  <button
+                    onClick={() => openPair(selected[1], selected[0])}
+                    disabled={isMerging}
+                    className="flex items-center gap-1 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    <ArrowLeftRight className="h-4 w-4" />
+                    Swap copies
+                  </button>
+                </>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Close
+              </button>
+              {selected && (
+                <button
+                  onClick={handleMerge}
+                  disabled={isMerging}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isMerging ? 'Merging...' : 'Merge'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { ReadingStatus } from '@/types/book';
+import { LibraryImport } from '@/types/import';
+import { LibraryData } from '@/types/repository';
+import { libraryRepository } from '@/utils/repository';
+import { backupUtils } from '@/utils/backup';
+import { STATUS_LABELS } from '@/utils/readingStatus';
+import { downloadUtils } from '@/utils/download';
+import { X, Upload, AlertCircle, CheckCircle2, FileUp } from 'lucide-react';
+
+interface ImportLibraryModalProps {
+  title: string; // e.g. 'Import from Goodreads'
+  instructions: string; // Where to find the file in the other service
+  accept: string; // File types for the file picker
+  parseFile: (contents: string) => LibraryImport; // Throws with a readable message for the wrong kind of file
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+export default function ImportLibraryModal({ title, instructions, accept, parseFile, onClose }: ImportLibraryModalProps) {
+  const [currentLibrary, setCurrentLibrary] = useState<LibraryData | null>(null);
+  const [parsed, setParsed] = useState<LibraryImport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  // Load the current library so books that are already in it can be skipped
+  useEffect(() => {
+    libraryRepository.exportLibrary()
+      .then(setCurrentLibrary)
+      .catch(error => {
+        console.error('Error loading library for import:', error);
+        setImportError('Could not load your current library.');
+      });
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setParsed(null);
+    setFileError(null);
+    setImportError(null);
+    try {
+      setParsed(parseFile(await downloadUtils.readFile(file)));
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'This file could not be read.');
+    }
+  };
+
+  const plan = parsed && currentLibrary ? backupUtils.planRestore(parsed.data, currentLibrary, 'merge') : null;
+  const statusCounts = plan
+    ? (Object.keys(STATUS_LABELS) as ReadingStatus[])
+        .map(status => ({ status, count: plan.data.books.filter(book => book.status === status).length }))
+        .filter(({ count }) => count > 0)
+    : [];
+  const totalToImport = plan ? plan.data.books.length + plan.data.wishlist.length : 0;
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      await libraryRepository.importLibrary(plan.data);
+      setImportedCount(totalToImport);
+    } catch (error) {
+      console.error('Error importing books:', error);
+      setImportError(error instanceof Error ? error.message : 'Failed to import books');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <FileUp className="h-5 w-5 text-white" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+        </div>
+
+        {importedCount !== null ? (
+          <div className="p-6 text-center space-y-4">
+            <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+            <p className="text-gray-900 font-medium">Import complete</p>
+            <p className="text-sm text-gray-600">
+              {importedCount} book{importedCount === 1 ? '' : 's'} added to your library and wish list.
+            </p>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            <p className="text-sm text-gray-600">{instructions}</p>
+
+            {/* File picker */}
+            <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-colors">
+              <Upload className="h-6 w-6 text-gray-400" />
+              <span className="text-sm text-gray-600">Choose a file</span>
+              <input type="file" accept={accept} onChange={handleFileChange} className="sr-only" />
+            </label>
+
+            {fileError && (
+              <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{fileError}</span>
+              </div>
+            )}
+
+            {parsed && plan && (
+              <div className="space-y-4">
+                {/* Summary */}
+                <div className="flex flex-wrap gap-2">
+                  {statusCounts.map(({ status, count }) => (
+                    <span key={status} className="px-3 py-1 bg-blue-50 text-blue-700 text-sm rounded-full border border-blue-100">
+                      {STATUS_LABELS[status]}: {count}
+                    </span>
+                  ))}
+                  {plan.data.wishlist.length > 0 && (
+                    <span className="px-3 py-1 bg-purple-50 text-purple-700 text-sm rounded-full border border-purple-100">
+                      Wish list: {plan.data.wishlist.length}
+                    </span>
+                  )}
+                </div>
+
+                {(plan.skipped.books > 0 || plan.skipped.wishlist > 0) && (
+                  <p className="text-sm text-gray-600">
+                    {plan.skipped.books + plan.skipped.wishlist} book{plan.skipped.books + plan.skipped.wishlist === 1 ? ' is' : 's are'} already
+                    in your library or wish list and will be skipped.
+                  </p>
+                )}
+
+                {parsed.skippedRows.length > 0 && (
+                  <details className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                    <summary className="cursor-pointer">
+                      {parsed.skippedRows.length} row{parsed.skippedRows.length === 1 ? '' : 's'} could not be imported
+                    </summary>
+                    <ul className="mt-2 space-y-1">
+                      {parsed.skippedRows.map(skipped => (
+                        <li key={skipped.row}>
+                          Row {skipped.row}{skipped.title ? ` (${skipped.title})` : ''}: {skipped.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+
+                {/* Book list */}
+                {totalToImport > 0 && (
+                  <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-72 overflow-y-auto">
+                    {[
+                      ...plan.data.books.map(book => ({ id: book.id, title: book.title, author: book.author, label: STATUS_LABELS[book.status] })),
+                      ...plan.data.wishlist.map(book => ({ id: book.id, title: book.title, author: book.author, label: 'Wish list' })),
+                    ].slice(0, PREVIEW_LIMIT).map(book => (
+                      <li key={book.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">{book.title}</p>
+                          <p className="text-gray-500 truncate">{book.author}</p>
+                        </div>
+                        <span className="flex-shrink-0 text-xs text-gray-500">{book.label}</span>
+                      </li>
+                    ))}
+                    {totalToImport > PREVIEW_LIMIT && (
+                      <li className="px-3 py-2 text-sm text-gray-500">and {totalToImport - PREVIEW_LIMIT} more...</li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {importError && (
+              <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{importError}</span>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={!plan || totalToImport === 0 || isImporting}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? 'Importing...' : `Import ${totalToImport} book${totalToImport === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
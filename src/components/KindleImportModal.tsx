@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { Book, Highlight, ReadingStatus } from '@/types/book';
+import { libraryRepository } from '@/utils/repository';
+import { kindleClippings, KindleClippingGroup } from '@/utils/kindleClippings';
+import { downloadUtils } from '@/utils/download';
+import { readingStatus, STATUS_LABELS } from '@/utils/readingStatus';
+import { X, Upload, AlertCircle, CheckCircle2, Highlighter } from 'lucide-react';
+
+interface KindleImportModalProps {
+  onClose: () => void;
+}
+
+// Where a group's clippings go: an existing book's id, a new book, or nowhere
+const NEW_BOOK = 'new';
+const SKIP = 'skip';
+
+// Statuses a new book can get. Its clippings show it has been picked up, so not want-to-read.
+const NEW_BOOK_STATUSES: ReadingStatus[] = ['currently-reading', 'paused', 'read', 'dnf'];
+
+export default function KindleImportModal({ onClose }: KindleImportModalProps) {
+  const [groups, setGroups] = useState<KindleClippingGroup[]>([]);
+  const [targets, setTargets] = useState<string[]>([]);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [existingHighlights, setExistingHighlights] = useState<Highlight[]>([]);
+  const [newBookStatus, setNewBookStatus] = useState<ReadingStatus>('currently-reading');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  const sortedBooks = [...books].sort((a, b) => a.title.localeCompare(b.title));
+
+  // Highlights each group would add with its current target
+  const highlightsFor = (group: KindleClippingGroup, index: number): Highlight[] => {
+    const target = targets[index];
+    if (target === SKIP) return [];
+    return kindleClippings.toHighlights(group.clippings, target === NEW_BOOK ? `kindle-book-${index}` : target, existingHighlights);
+  };
+
+  const plannedHighlights = groups.map(highlightsFor);
+  const totalHighlights = plannedHighlights.reduce((sum, highlights) => sum + highlights.length, 0);
+  const addsNewBooks = groups.some((_, index) => targets[index] === NEW_BOOK && plannedHighlights[index].length > 0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const [text, current] = await Promise.all([downloadUtils.readFile(file), libraryRepository.exportLibrary()]);
+      const parsed = kindleClippings.groupByBook(kindleClippings.parse(text), current.books);
+      if (parsed.length === 0) {
+        setError('No highlights or notes found. Choose the My Clippings.txt file from your Kindle\'s documents folder.');
+        return;
+      }
+
+      setBooks(current.books);
+      setExistingHighlights(current.highlights);
+      setGroups(parsed);
+      setTargets(parsed.map(group => group.matchedBookId ?? NEW_BOOK));
+    } catch (error) {
+      console.error('Error reading Kindle clippings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const now = new Date();
+      const newBooks: Book[] = groups.flatMap((group, index) =>
+        targets[index] === NEW_BOOK && plannedHighlights[index].length > 0 ? [{
+          id: `kindle-book-${index}`,
+          title: group.title,
+          author: group.author || 'Unknown Author',
+          ownershipType: 'digital' as const,
+          readingFormat: 'ebook' as const,
+          dateAdded: now,
+          ...readingStatus.getInitialFields(newBookStatus, {}, now),
+        }] : []
+      );
+
+      await libraryRepository.importLibrary({
+        books: newBooks,
+        notes: [],
+        highlights: plannedHighlights.flat(),
+        wishlist: [],
+        readingSessions: [],
+        shelves: [],
+      });
+      setImportedCount(totalHighlights);
+    } catch (error) {
+      console.error('Error importing Kindle clippings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import highlights');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <Highlighter className="h-5 w-5 text-white" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Import Kindle Highlights</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {importedCount !== null ? (
+            <div className="text-center space-y-4 py-4">
+              <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+              <p className="text-gray-900 font-medium">Import complete</p>
+              <p className="text-sm text-gray-600">
+                {importedCount} clipping{importedCount === 1 ? '' : 's'} added. You&apos;ll find them on each book&apos;s Highlights tab.
+              </p>
+            </div>
+          ) : groups.length === 0 ? (
+            <>
+              <p className="text-sm text-gray-600">
+                Connect your Kindle by USB and choose <span className="font-medium">documents/My Clippings.txt</span>.
+                Highlights and notes are saved with the matching books in your library. Bookmarks are left out.
+              </p>
+              <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-colors">
+                <Upload className="h-6 w-6 text-gray-400" />
+                <span className="text-sm text-gray-600">{isWorking ? 'Reading file...' : 'Choose My Clippings.txt'}</span>
+                <input type="file" accept=".txt,text/plain" onChange={handleFileChange} disabled={isWorking} className="sr-only" />
+              </label>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {groups.length} book{groups.length === 1 ? '' : 's'} found. Check where each book&apos;s clippings should go.
+              </p>
+              <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-96 overflow-y-auto">
+                {groups.map((group, index) => {
+                  const highlights = group.clippings.filter(c => c.type === 'highlight').length;
+                  const notes = group.clippings.filter(c => c.type === 'note').length;
+                  const alreadyImported = highlights + notes - plannedHighlights[index].length;
+                  return (
+                    <li key={index} className="px-3 py-3 space-y-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{group.title}</p>
+                        <p className="text-xs text-gray-500">
+                          {group.author && `${group.author} · `}
+                          {highlights} highlight{highlights === 1 ? '' : 's'}, {notes} note{notes === 1 ? '' : 's'}
+                          {targets[index] !== SKIP && alreadyImported > 0 && ` · ${alreadyImported} already imported`}
+                        </p>
+                      </div>
+                      <select
+                        value={targets[index]}
+                        onChange={(e) => setTargets(prev => prev.map((t, i) => (i === index ? e.target.value : t)))}
+                        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value={NEW_BOOK}>Add as a new book</option>
+                        <option value={SKIP}>Don&apos;t import</option>
+                        <optgroup label="Books in your library">
+                          {sortedBooks.map(book => (
+                            <option key={book.id} value={book.id}>{book.title} by {book.author}</option>
+                          ))}
+                        </optgroup>
+                      </select>
+                    </li>
+                  );
+                })}
+              </ul>
+              {addsNewBooks && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Status for new books</label>
+                  <select
+                    value={newBookStatus}
+                    onChange={(e) => setNewBookStatus(e.target.value as ReadingStatus)}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {NEW_BOOK_STATUSES.map(status => (
+                      <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 justify-end">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              {importedCount !== null ? 'Close' : 'Cancel'}
+            </button>
+            {importedCount === null && groups.length > 0 && (
+              <button
+                onClick={handleImport}
+                disabled={totalHighlights === 0 || isWorking}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Importing...' : `Import ${totalHighlights} clipping${totalHighlights === 1 ? '' : 's'}`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { ReadingSession } from '@/types/book';
+import { format } from 'date-fns';
+
+interface ReadingProgressChartProps {
+  sessions: ReadingSession[];
+  totalPages?: number;
+}
+
+interface ProgressPoint {
+  time: Date;
+  value: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 44 };
+
+// Turn sessions into a cumulative progress line: the start of the first session,
+// then the end of every session. Percent-only sessions are plotted as percent.
+const getProgressPoints = (sessions: ReadingSession[], usePages: boolean): ProgressPoint[] => {
+  const sorted = [...sessions].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const points: ProgressPoint[] = [];
+
+  sorted.forEach((session, index) => {
+    const start = usePages ? session.startPage : session.startPercent;
+    const end = usePages ? session.endPage : session.endPercent;
+
+    if (index === 0 && start !== undefined) {
+      points.push({ time: session.startTime, value: start });
+    }
+    if (end !== undefined) {
+      points.push({ time: session.endTime, value: end });
+    }
+  });
+
+  return points;
+};
+
+export default function ReadingProgressChart({ sessions, totalPages }: ReadingProgressChartProps) {
+  const usePages = sessions.some(session => session.endPage !== undefined);
+  const points = getProgressPoints(sessions, usePages);
+
+  if (points.length < 2) {
+    return (
+      <div className="h-40 flex items-center justify-center text-sm text-gray-500">
+        Log at least one session to see your progress over time.
+      </div>
+    );
+  }
+
+  const minTime = points[0].time.getTime();
+  const maxTime = Math.max(points[points.length - 1].time.getTime(), minTime + 1);
+  const maxValue = usePages
+    ? Math.max(totalPages || 0, ...points.map(point => point.value), 1)
+    : 100;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: Date) => PADDING.left + ((time.getTime() - minTime) / (maxTime - minTime)) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const path = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${x(point.time).toFixed(1)} ${y(point.value).toFixed(1)}`)
+    .join(' ');
+  const area = `${path} L ${x(points[points.length - 1].time).toFixed(1)} ${y(0)} L ${x(points[0].time).toFixed(1)} ${y(0)} Z`;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Reading progress over time">
+      <defs>
+        <linearGradient id="reading-progress-fill" x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0%" stopColor="#6366f1" stopOpacity="0.3" />
+          <stop offset="100%" stopColor="#6366f1" stopOpacity="0" />
+        </linearGradient>
+      </defs>
+
+      {/* Gridlines */}
+      {[0, 0.25, 0.5, 0.75, 1].map((fraction) => {
+        const value = Math.round(maxValue * fraction);
+        return (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+              stroke="#e5e7eb"
+              strokeDasharray={fraction === 0 ? undefined : '4 4'}
+            />
+            <text x={PADDING.left - 8} y={y(value) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+              {usePages ? value : `${value}%`}
+            </text>
+          </g>
+        );
+      })}
+
+      <path d={area} fill="url(#reading-progress-fill)" />
+      <path d={path} fill="none" stroke="#6366f1" strokeWidth="2.5" strokeLinejoin="round" />
+      {points.map((point, index) => (
+        <circle key={index} cx={x(point.time)} cy={y(point.value)} r="3.5" fill="#6366f1" />
+      ))}
+
+      <text x={PADDING.left} y={HEIGHT - 8} fontSize="11" fill="#6b7280">
+        {format(points[0].time, 'MMM d')}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" fontSize="11" fill="#6b7280">
+        {format(points[points.length - 1].time, 'MMM d')}
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { Book, ReadingSession } from '@/types/book';
+import { Clock, Plus, Trash2, MessageSquare } from 'lucide-react';
+import { format, differenceInMinutes } from 'date-fns';
+
+interface ReadingSessionLogProps {
+  book: Book;
+  sessions: ReadingSession[];
+  onAdd: (session: Omit<ReadingSession, 'id'>) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+// Format a date for a datetime-local input
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export default function ReadingSessionLog({ book, sessions, onAdd, onDelete }: ReadingSessionLogProps) {
+  const usePages = !!book.pages;
+  const lastSession = sessions[sessions.length - 1];
+  const lastPosition = usePages
+    ? lastSession?.endPage ?? book.currentPage ?? 0
+    : lastSession?.endPercent ?? 0;
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const getEmptyForm = () => ({
+    startTime: toInputValue(new Date(Date.now() - 30 * 60 * 1000)),
+    endTime: toInputValue(new Date()),
+    start: String(lastPosition),
+    end: '',
+    note: '',
+  });
+  const [formData, setFormData] = useState(getEmptyForm);
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError('');
+  };
+
+  const openForm = () => {
+    setFormData(getEmptyForm());
+    setError('');
+    setIsAdding(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const startTime = new Date(formData.startTime);
+    const endTime = new Date(formData.endTime);
+    const start = parseInt(formData.start);
+    const end = parseInt(formData.end);
+    const max = usePages ? book.pages! : 100;
+
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+      setError('Please enter a start and end time.');
+      return;
+    }
+    if (endTime < startTime) {
+      setError('The session must end after it starts.');
+      return;
+    }
+    if (isNaN(start) || isNaN(end) || start < 0 || end > max) {
+      setError(usePages ? `Pages must be between 0 and ${max}.` : 'Progress must be between 0% and 100%.');
+      return;
+    }
+    if (end < start) {
+      setError('The session must end at or after where it started.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onAdd({
+        bookId: book.id,
+        startTime,
+        endTime,
+        ...(usePages
+          ? { startPage: start, endPage: end }
+          : { startPercent: start, endPercent: end }),
+        note: formData.note.trim() || undefined,
+      });
+      setIsAdding(false);
+    } catch (error) {
+      console.error('Error logging reading session:', error);
+      setError('Failed to save the session. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatDuration = (session: ReadingSession) => {
+    const minutes = differenceInMinutes(session.endTime, session.startTime);
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const formatRange = (session: ReadingSession) => {
+    if (session.startPage !== undefined && session.endPage !== undefined) {
+      return `Pages ${session.startPage}–${session.endPage} (${session.endPage - session.startPage} pages)`;
+    }
+    if (session.startPercent !== undefined && session.endPercent !== undefined) {
+      return `${session.startPercent}% – ${session.endPercent}%`;
+    }
+    return '';
+  };
+
+  return (
+    <div className="space-y-4">
+      {!isAdding && (
+        <button
+          onClick={openForm}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          Log reading session
+        </button>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-medium text-gray-600 mb-1 block">Started</label>
+              <input
+                type="datetime-local"
+                value={formData.startTime}
+                onChange={(e) => handleInputChange('startTime', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                required
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-600 mb-1 block">Finished</label>
+              <input
+                type="datetime-local"
+                value={formData.endTime}
+                onChange={(e) => handleInputChange('endTime', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                required
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-600 mb-1 block">
+                {usePages ? 'From page' : 'From %'}
+              </label>
+              <input
+                type="number"
+                value={formData.start}
+                onChange={(e) => handleInputChange('start', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                min="0"
+                max={usePages ? book.pages : 100}
+                required
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-600 mb-1 block">
+                {usePages ? 'To page' : 'To %'}
+              </label>
+              <input
+                type="number"
+                value={formData.end}
+                onChange={(e) => handleInputChange('end', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                min="0"
+                max={usePages ? book.pages : 100}
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="text-xs font-medium text-gray-600 mb-1 block">Note</label>
+            <input
+              type="text"
+              value={formData.note}
+              onChange={(e) => handleInputChange('note', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+              placeholder="Optional thoughts about this session"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2 justify-end">
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              className="px-4 py-2 text-sm border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save session'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No reading sessions logged yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {[...sessions].reverse().map((session) => (
+            <li key={session.id} className="py-3 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{formatRange(session)}</p>
+                <p className="text-xs text-gray-500 flex items-center gap-1 mt-0.5">
+                  <Clock className="h-3 w-3" />
+                  {format(session.startTime, 'MMM d, yyyy h:mm a')} · {formatDuration(session)}
+                </p>
+                {session.note && (
+                  <p className="text-xs text-gray-600 flex items-start gap-1 mt-1">
+                    <MessageSquare className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    {session.note}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={() => onDelete(session.id)}
+                className="p-1 text-gray-400 hover:text-red-500 transition-colors flex-shrink-0"
+                title="Delete session"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { LibraryData, LibraryTable } from '@/types/repository';
+import { libraryRepository } from '@/utils/repository';
+import { backupUtils, LibraryBackup, LIBRARY_TABLES, RestoreMode } from '@/utils/backup';
+import { downloadUtils } from '@/utils/download';
+import { X, Upload, AlertCircle, CheckCircle2, ArchiveRestore } from 'lucide-react';
+
+interface RestoreBackupModalProps {
+  onClose: () => void;
+}
+
+const TABLE_LABELS: Record<LibraryTable, string> = {
+  books: 'Books',
+  wishlist: 'Wish list books',
+  readingSessions: 'Reading sessions',
+  notes: 'Notes, quotes and highlights',
+  highlights: 'Kindle highlights',
+  shelves: 'Shelves',
+};
+
+export default function RestoreBackupModal({ onClose }: RestoreBackupModalProps) {
+  const [currentLibrary, setCurrentLibrary] = useState<LibraryData | null>(null);
+  const [backup, setBackup] = useState<LibraryBackup | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [restoredCount, setRestoredCount] = useState<number | null>(null);
+
+  // Load the current library so merging can skip books that are already in it
+  useEffect(() => {
+    libraryRepository.exportLibrary()
+      .then(setCurrentLibrary)
+      .catch(error => {
+        console.error('Error loading library for restore:', error);
+        setRestoreError('Could not load your current library.');
+      });
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setBackup(null);
+    setFileError(null);
+    setRestoreError(null);
+    try {
+      setBackup(backupUtils.parse(await downloadUtils.readFile(file)));
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'This file could not be read.');
+    }
+  };
+
+  const plan = backup && currentLibrary ? backupUtils.planRestore(backup.data, currentLibrary, mode) : null;
+  const backupCounts = backup ? backupUtils.countRecords(backup.data) : null;
+  const currentCounts = currentLibrary ? backupUtils.countRecords(currentLibrary) : null;
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    if (mode === 'replace' && !confirm('Delete everything in your library and replace it with this backup?')) {
+      return;
+    }
+
+    setIsRestoring(true);
+    setRestoreError(null);
+    try {
+      if (mode === 'replace') {
+        await libraryRepository.replaceLibrary(plan.data);
+      } else {
+        await libraryRepository.importLibrary(plan.data);
+      }
+      setRestoredCount(plan.data.books.length + plan.data.wishlist.length);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setRestoreError(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <ArchiveRestore className="h-5 w-5 text-white" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Restore Backup</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+        </div>
+
+        {restoredCount !== null ? (
+          <div className="p-6 text-center space-y-4">
+            <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+            <p className="text-gray-900 font-medium">Backup restored</p>
+            <p className="text-sm text-gray-600">
+              {restoredCount} book{restoredCount === 1 ? '' : 's'} added to your library and wish list.
+            </p>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            {/* File picker */}
+            <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-colors">
+              <Upload className="h-6 w-6 text-gray-400" />
+              <span className="text-sm text-gray-600">Choose a Novel Noted backup (.json)</span>
+              <input type="file" accept=".json,application/json" onChange={handleFileChange} className="sr-only" />
+            </label>
+
+            {fileError && (
+              <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{fileError}</span>
+              </div>
+            )}
+
+            {backup && backupCounts && (
+              <>
+                {/* Preview */}
+                <div>
+                  <p className="text-sm text-gray-600 mb-2">
+                    Backup from {format(backup.exportedAt, 'MMM d, yyyy h:mm a')}
+                  </p>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="font-medium py-1"></th>
+                        <th className="font-medium py-1 text-right">In backup</th>
+                        <th className="font-medium py-1 text-right">To add</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {LIBRARY_TABLES.map(table => (
+                        <tr key={table} className="border-t border-gray-100">
+                          <td className="py-1.5 text-gray-700">{TABLE_LABELS[table]}</td>
+                          <td className="py-1.5 text-right text-gray-900">{backupCounts[table]}</td>
+                          <td className="py-1.5 text-right text-gray-900">
+                            {plan ? plan.data[table].length : '…'}
+                            {plan && plan.skipped[table] > 0 && (
+                              <span className="text-gray-500"> ({plan.skipped[table]} already in library)</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Merge or replace */}
+                <div className="space-y-2">
+                  {([
+                    { value: 'merge', label: 'Merge', description: 'Add the backup to your library, skipping books with an ISBN you already have' },
+                    { value: 'replace', label: 'Replace', description: 'Delete your current library and restore the backup exactly' },
+                  ] as const).map(option => (
+                    <label
+                      key={option.value}
+                      className={`flex items-start gap-3 p-3 rounded-lg border-2 cursor-pointer transition-colors ${
+                        mode === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="restoreMode"
+                        value={option.value}
+                        checked={mode === option.value}
+                        onChange={() => setMode(option.value)}
+                        className="mt-1"
+                      />
+                      <div>
+                        <div className="font-medium text-gray-900">{option.label}</div>
+                        <div className="text-xs text-gray-600">{option.description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+
+                {mode === 'replace' && currentCounts && (
+                  <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      This permanently deletes the {currentCounts.books} book{currentCounts.books === 1 ? '' : 's'} and{' '}
+                      {currentCounts.wishlist} wish list book{currentCounts.wishlist === 1 ? '' : 's'} currently in your library,
+                      along with their sessions, notes and shelves.
+                    </span>
+                  </div>
+                )}
+              </>
+            )}
+
+            {restoreError && (
+              <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{restoreError}</span>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRestore}
+                disabled={!plan || isRestoring}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRestoring ? 'Restoring...' : 'Restore'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
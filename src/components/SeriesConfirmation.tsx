@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { googleBooksAPI } from '@/utils/googleBooks';
+import { BookMarked, Check, X } from 'lucide-react';
+
+interface SeriesConfirmationProps {
+  title: string;
+  series: string;
+  seriesNumber: string;
+  onChange: (series: string, seriesNumber: string) => void;
+  compact?: boolean;
+}
+
+export default function SeriesConfirmation({ title, series, seriesNumber, onChange, compact = false }: SeriesConfirmationProps) {
+  const [dismissedTitle, setDismissedTitle] = useState<string | null>(null);
+  const detected = googleBooksAPI.extractSeriesInfo(title);
+  const showSuggestion = !!detected.series && !series && dismissedTitle !== title;
+
+  const inputClassName = compact
+    ? 'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+    : 'w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  return (
+    <div className="space-y-3">
+      {showSuggestion && (
+        <div className="flex flex-wrap items-center justify-between gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-blue-800">
+            This looks like{detected.seriesNumber !== undefined ? ` book ${detected.seriesNumber} of` : ' part of'}{' '}
+            <span className="font-medium">{detected.series}</span>. Save it to the series?
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => onChange(detected.series!, detected.seriesNumber !== undefined ? String(detected.seriesNumber) : '')}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Check className="h-3 w-3" />
+              Yes
+            </button>
+            <button
+              type="button"
+              onClick={() => setDismissedTitle(title)}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-blue-200 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              <X className="h-3 w-3" />
+              No
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="col-span-2">
+          <label className={`flex items-center gap-2 font-medium text-gray-700 ${compact ? 'text-xs mb-1' : 'text-sm mb-2'}`}>
+            <BookMarked className={compact ? 'h-3 w-3' : 'h-4 w-4'} />
+            Series
+          </label>
+          <input
+            type="text"
+            value={series}
+            onChange={(e) => onChange(e.target.value, seriesNumber)}
+            className={inputClassName}
+            placeholder="Series name"
+          />
+        </div>
+        <div>
+          <label className={`block font-medium text-gray-700 ${compact ? 'text-xs mb-1' : 'text-sm mb-2'}`}>
+            Number
+          </label>
+          <input
+            type="number"
+            value={seriesNumber}
+            onChange={(e) => onChange(series, e.target.value)}
+            className={inputClassName}
+            placeholder="1"
+            min="0"
+            step="any"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
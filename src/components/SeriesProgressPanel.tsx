@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import { SeriesBook, WishListBook } from '@/types/book';
+import { googleBooksAPI } from '@/utils/googleBooks';
+import { libraryRepository } from '@/utils/repository';
+import { libraryMatching } from '@/utils/libraryMatching';
+import { seriesUtils, SeriesGroup } from '@/utils/series';
+import { BookMarked, CheckCircle2, Loader2, Search, Star } from 'lucide-react';
+
+interface SeriesProgressPanelProps {
+  group: SeriesGroup;
+  volumes?: SeriesBook[]; // Search results already loaded by the caller
+}
+
+export default function SeriesProgressPanel({ group, volumes: initialVolumes }: SeriesProgressPanelProps) {
+  const [volumes, setVolumes] = useState<SeriesBook[] | null>(initialVolumes ?? null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadedVolumes = initialVolumes ?? volumes;
+  const progress = seriesUtils.getProgress(group, loadedVolumes || []);
+  const missingVolumes = loadedVolumes ? seriesUtils.getMissingVolumes(group, loadedVolumes) : [];
+  const firstBook = group.books[0];
+  const readPercent = Math.round((progress.readCount / progress.ownedCount) * 100);
+
+  const handleFindMissing = async () => {
+    setIsSearching(true);
+    setMessage('');
+    try {
+      const results = await googleBooksAPI.searchSeriesBooks(firstBook.author, firstBook.title, 20, group.name);
+      setVolumes(results);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleAddMissingToWishList = async () => {
+    setIsAdding(true);
+    setMessage('');
+    try {
+      const wishListBooks = await libraryRepository.getWishListBooks();
+      const toAdd = missingVolumes.filter(volume =>
+        !wishListBooks.some(book => libraryMatching.isSameBook(volume, book))
+      );
+
+      for (const volume of toAdd) {
+        const wishListBook: Omit<WishListBook, 'id' | 'dateAdded'> = {
+          title: volume.title,
+          author: volume.author,
+          isbn: volume.isbn,
+          coverUrl: volume.coverUrl,
+          pages: volume.pages,
+          genre: volume.genre,
+          publisher: volume.publisher,
+          publishedYear: volume.publishedYear,
+          description: volume.description,
+        };
+        await libraryRepository.addWishListBook(wishListBook);
+      }
+
+      setMessage(
+        toAdd.length === 0
+          ? 'All missing volumes are already on your wish list.'
+          : `Added ${toAdd.length} ${toAdd.length === 1 ? 'book' : 'books'} to your wish list.`
+      );
+    } catch (error) {
+      console.error('Error adding missing volumes to wish list:', error);
+      setMessage('Failed to add books to your wish list. Please try again.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl border border-white/20 p-4 text-white space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <BookMarked className="h-5 w-5 text-white/70" />
+          <h2 className="text-lg font-semibold">{group.name}</h2>
+          <span className="text-white/60 text-sm">by {firstBook.author}</span>
+        </div>
+        <div className="text-sm text-white/80">
+          {progress.ownedCount} owned · {progress.readCount} read
+          {progress.missingNumbers.length > 0 && ` · ${progress.missingNumbers.length} missing`}
+        </div>
+      </div>
+
+      <div className="w-full bg-white/10 rounded-full h-2">
+        <div
+          className="bg-gradient-to-r from-green-400 to-blue-400 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${readPercent}%` }}
+        />
+      </div>
+
+      <div className="text-sm">
+        {progress.nextMissingNumber !== undefined ? (
+          <span className="text-yellow-200">
+            Next up: #{progress.nextMissingNumber}, which isn&apos;t in your library yet
+          </span>
+        ) : progress.nextToRead ? (
+          <span className="text-white/80">
+            Next up:{' '}
+            <Link href={`/book/${progress.nextToRead.id}`} className="font-medium text-white hover:underline">
+              {progress.nextToRead.seriesNumber !== undefined && `#${progress.nextToRead.seriesNumber} `}
+              {progress.nextToRead.title}
+            </Link>
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-green-300">
+            <CheckCircle2 className="h-4 w-4" />
+            You&apos;re caught up on the books you own
+          </span>
+        )}
+      </div>
+
+      {loadedVolumes === null ? (
+        <button
+          onClick={handleFindMissing}
+          disabled={isSearching}
+          className="flex items-center gap-2 px-3 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors text-xs font-medium disabled:opacity-50"
+        >
+          {isSearching ? <Loader2 className="h-3 w-3 animate-spin" /> : <Search className="h-3 w-3" />}
+          Find missing volumes
+        </button>
+      ) : missingVolumes.length === 0 ? (
+        <p className="text-xs text-white/60">No other volumes found for this series.</p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-white/60">
+            Not in your library: {missingVolumes.map(volume =>
+              volume.seriesNumber !== undefined ? `#${volume.seriesNumber} ${volume.title}` : volume.title
+            ).join(', ')}
+          </p>
+          <button
+            onClick={handleAddMissingToWishList}
+            disabled={isAdding}
+            className="flex items-center gap-2 px-3 py-2 bg-purple-600/30 text-purple-200 rounded-lg hover:bg-purple-600/40 transition-colors text-xs font-medium disabled:opacity-50"
+          >
+            {isAdding ? <Loader2 className="h-3 w-3 animate-spin" /> : <Star className="h-3 w-3" />}
+            Add {missingVolumes.length} missing to wish list
+          </button>
+        </div>
+      )}
+
+      {message && <p className="text-xs text-white/80">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Shelf, ShelfColor } from '@/types/book';
+import { X } from 'lucide-react';
+
+interface ShelfChipProps {
+  shelf: Shelf;
+  size?: 'sm' | 'md';
+  onRemove?: () => void;
+}
+
+export const shelfColorVariants: Record<ShelfColor, string> = {
+  blue: 'bg-blue-50 text-blue-700 border-blue-200',
+  green: 'bg-green-50 text-green-700 border-green-200',
+  purple: 'bg-purple-50 text-purple-700 border-purple-200',
+  pink: 'bg-pink-50 text-pink-700 border-pink-200',
+  orange: 'bg-orange-50 text-orange-700 border-orange-200',
+  gray: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+export default function ShelfChip({ shelf, size = 'sm', onRemove }: ShelfChipProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full border font-medium ${shelfColorVariants[shelf.color]} ${
+        size === 'sm' ? 'px-2 py-0.5 text-xs' : 'px-3 py-1 text-sm'
+      }`}
+    >
+      {shelf.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="hover:opacity-70 transition-opacity"
+          title={`Remove from ${shelf.name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Shelf, ShelfColor } from '@/types/book';
+import { Plus, Check } from 'lucide-react';
+import ShelfChip, { shelfColorVariants } from '@/components/ShelfChip';
+
+interface ShelfEditorProps {
+  shelves: Shelf[];
+  selectedIds: string[];
+  onAdd: (shelfId: string) => void;
+  onRemove: (shelfId: string) => void;
+  onCreate: (name: string, color: ShelfColor) => Promise<Shelf>;
+}
+
+export default function ShelfEditor({ shelves, selectedIds, onAdd, onRemove, onCreate }: ShelfEditorProps) {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<ShelfColor>('blue');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedShelves = shelves.filter(shelf => selectedIds.includes(shelf.id));
+  const availableShelves = shelves.filter(shelf => !selectedIds.includes(shelf.id));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    // Reuse an existing shelf rather than creating a duplicate name
+    const existing = shelves.find(shelf => shelf.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      if (!selectedIds.includes(existing.id)) onAdd(existing.id);
+      setNewName('');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const shelf = await onCreate(name, newColor);
+      onAdd(shelf.id);
+      setNewName('');
+    } catch (error) {
+      console.error('Error creating shelf:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 min-h-[1.75rem]">
+        {selectedShelves.length === 0 ? (
+          <span className="text-sm text-gray-500">Not on any shelves yet.</span>
+        ) : (
+          selectedShelves.map(shelf => (
+            <ShelfChip key={shelf.id} shelf={shelf} size="md" onRemove={() => onRemove(shelf.id)} />
+          ))
+        )}
+      </div>
+
+      {availableShelves.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {availableShelves.map(shelf => (
+            <button
+              key={shelf.id}
+              onClick={() => onAdd(shelf.id)}
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-full border border-dashed border-gray-300 text-sm text-gray-600 hover:border-gray-400 hover:text-gray-800 transition-colors"
+            >
+              <Plus className="h-3 w-3" />
+              {shelf.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-200 rounded-lg text-sm"
+          placeholder="New shelf or tag"
+          maxLength={40}
+        />
+        <div className="flex gap-1">
+          {(Object.keys(shelfColorVariants) as ShelfColor[]).map(color => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => setNewColor(color)}
+              className={`h-6 w-6 rounded-full border flex items-center justify-center ${shelfColorVariants[color]}`}
+              title={color}
+            >
+              {newColor === color && <Check className="h-3 w-3" />}
+            </button>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={!newName.trim() || isCreating}
+          className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import Image from 'next/image';
+import { format } from 'date-fns';
+import { OwnershipType, ReadingStatus, WishListBook, WishListPriority } from '@/types/book';
+import { MoveToLibraryOptions } from '@/types/repository';
+import { libraryRepository } from '@/utils/repository';
+import { STATUS_LABELS } from '@/utils/readingStatus';
+import { X, Star, BookOpen, AlertCircle, ArrowRight, Trash2 } from 'lucide-react';
+
+interface WishListBookModalProps {
+  book: WishListBook;
+  onClose: () => void;
+  onMoveToLibrary: (id: string, options: MoveToLibraryOptions) => void;
+  onDelete: (id: string) => void;
+}
+
+export const PRIORITY_LABELS: Record<WishListPriority, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export const PRIORITY_COLORS: Record<WishListPriority, string> = {
+  high: 'bg-red-100 text-red-700 border-red-200',
+  medium: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+  low: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+export default function WishListBookModal({ book, onClose, onMoveToLibrary, onDelete }: WishListBookModalProps) {
+  const [priority, setPriority] = useState<WishListPriority | ''>(book.priority ?? '');
+  const [recommendedBy, setRecommendedBy] = useState(book.recommendedBy ?? '');
+  const [targetPrice, setTargetPrice] = useState(book.targetPrice !== undefined ? String(book.targetPrice) : '');
+  const [notes, setNotes] = useState(book.notes ?? '');
+  const [moveStatus, setMoveStatus] = useState<ReadingStatus>('currently-reading');
+  const [moveOwnership, setMoveOwnership] = useState<OwnershipType>('physical');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const details = [
+    book.publisher,
+    book.publishedYear,
+    book.pages && `${book.pages} pages`,
+    book.genre,
+    book.isbn && `ISBN ${book.isbn}`,
+  ].filter(Boolean);
+
+  const handleSave = async () => {
+    const price = targetPrice.trim() === '' ? null : Number(targetPrice);
+    if (price !== null && (isNaN(price) || price < 0)) {
+      setError('Enter the target price as a number, e.g. 12.99');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await libraryRepository.updateWishListBook(book.id, {
+        priority: priority || null,
+        recommendedBy: recommendedBy.trim() || null,
+        targetPrice: price,
+        notes: notes.trim() || null,
+      });
+      if (!updated) throw new Error('Failed to update wish list book');
+      onClose();
+    } catch (error) {
+      console.error('Error updating wish list book:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update wish list book');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <Star className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Wish List</h2>
+              <p className="text-sm text-gray-500">Added {format(book.dateAdded, 'MMM d, yyyy')}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Book Details */}
+          <div className="flex gap-4">
+            {book.coverUrl ? (
+              <Image
+                src={book.coverUrl}
+                alt={`${book.title} cover`}
+                width={96}
+                height={144}
+                className="w-24 h-36 object-cover rounded-lg shadow flex-shrink-0"
+              />
+            ) : (
+              <div className="w-24 h-36 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                <BookOpen className="h-8 w-8 text-gray-400" />
+              </div>
+            )}
+            <div className="min-w-0 space-y-1">
+              <h3 className="text-lg font-semibold text-gray-900">{book.title}</h3>
+              <p className="text-gray-600">by {book.author}</p>
+              {details.length > 0 && <p className="text-sm text-gray-500">{details.join(' · ')}</p>}
+            </div>
+          </div>
+
+          {book.description && (
+            <p className="text-sm text-gray-600 leading-relaxed line-clamp-6">
+              {book.description.replace(/<[^>]*>/g, '')}
+            </p>
+          )}
+
+          {/* Priority */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Priority</label>
+            <div className="flex gap-2">
+              {(Object.keys(PRIORITY_LABELS) as WishListPriority[]).map(level => (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() => setPriority(priority === level ? '' : level)}
+                  className={`px-4 py-2 text-sm rounded-lg border transition-colors ${
+                    priority === level ? PRIORITY_COLORS[level] : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {PRIORITY_LABELS[level]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="recommendedBy" className="block text-sm font-medium text-gray-700 mb-2">
+                Recommended by
+              </label>
+              <input
+                id="recommendedBy"
+                type="text"
+                value={recommendedBy}
+                onChange={(e) => setRecommendedBy(e.target.value)}
+                placeholder="A friend, podcast, review..."
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="targetPrice" className="block text-sm font-medium text-gray-700 mb-2">
+                Target price
+              </label>
+              <input
+                id="targetPrice"
+                type="number"
+                min="0"
+                step="0.01"
+                value={targetPrice}
+                onChange={(e) => setTargetPrice(e.target.value)}
+                placeholder="Buy when it drops to..."
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="wishListNotes" className="block text-sm font-medium text-gray-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="wishListNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+              placeholder="Why you want to read it, which edition to look for..."
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* Add to Library */}
+          <div className="p-4 bg-gray-50 rounded-xl space-y-3">
+            <p className="text-sm font-medium text-gray-700">Got it? Add it to your library</p>
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={moveStatus}
+                onChange={(e) => setMoveStatus(e.target.value as ReadingStatus)}
+                className="px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(STATUS_LABELS) as ReadingStatus[]).map(status => (
+                  <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              <select
+                value={moveOwnership}
+                onChange={(e) => setMoveOwnership(e.target.value as OwnershipType)}
+                className="px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="physical">Physical Book</option>
+                <option value="digital">Digital Copy</option>
+              </select>
+              <button
+                onClick={() => onMoveToLibrary(book.id, { status: moveStatus, ownershipType: moveOwnership })}
+                disabled={isSaving}
+                className="flex items-center gap-1 px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                <ArrowRight className="h-4 w-4" />
+                Add to library
+              </button>
+            </div>
+            {(book.notes || book.recommendedBy) && (
+              <p className="text-xs text-gray-500">Your notes and who recommended it are kept as a note on the book.</p>
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 justify-between">
+            <button
+              onClick={() => onDelete(book.id)}
+              disabled={isSaving}
+              className="flex items-center gap-1 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              <Trash2 className="h-4 w-4" />
+              Remove
+            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
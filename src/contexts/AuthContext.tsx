@@ -2,6 +2,15 @@
 
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { authService, AuthUser } from '@/lib/auth';
+import { REQUIRES_ACCOUNT } from '@/utils/repository';
+
+// Stand-in user for libraries kept on this device, which don't need an account
+const LOCAL_USER: AuthUser = {
+  uid: 'local',
+  email: null,
+  displayName: 'My Library',
+  photoURL: null,
+};
 
 interface AuthContextType {
   user: AuthUser | null;
@@ -34,6 +43,12 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    if (!REQUIRES_ACCOUNT) {
+      setUser(LOCAL_USER);
+      setLoading(false);
+      return;
+    }
+
     try {
       const unsubscribe = authService.onAuthStateChanged((user) => {
         setUser(user);
@@ -95,6 +110,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   };
 
   const signOut = async (): Promise<void> => {
+    if (!REQUIRES_ACCOUNT) return;
+
     setLoading(true);
     setError(null);
     try {
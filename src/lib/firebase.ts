@@ -1,6 +1,12 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp, type FirebaseApp } from "firebase/app";
-import { getFirestore, type Firestore } from "firebase/firestore";
+import {
+  initializeFirestore,
+  memoryLocalCache,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  type Firestore
+} from "firebase/firestore";
 import { getAuth, type Auth } from "firebase/auth";
 
 // Your web app's Firebase configuration
@@ -20,7 +26,14 @@ let auth: Auth;
 
 try {
   app = initializeApp(firebaseConfig);
-  db = getFirestore(app);
+  // Keep a copy of the library in IndexedDB so it loads and accepts changes while offline.
+  // Writes made offline are queued by Firestore and sent once the connection returns.
+  db = initializeFirestore(app, {
+    localCache: typeof window !== 'undefined'
+      ? persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+      : memoryLocalCache(),
+    ignoreUndefinedProperties: true,
+  });
   auth = getAuth(app);
   
   console.log('Firebase initialized successfully');
@@ -1,7 +1,17 @@
-export type ReadingStatus = 'currently-reading' | 'read';
+export type ReadingStatus = 'want-to-read' | 'currently-reading' | 'paused' | 'read' | 'dnf';
 
 export type OwnershipType = 'physical' | 'digital';
 
+export type ReadingFormat = 'print' | 'ebook' | 'audiobook';
+
+// A completed earlier read-through of a book
+export interface Reading {
+  dateStarted?: Date;
+  dateFinished?: Date;
+  rating?: number; // 1-5 stars
+  format?: ReadingFormat;
+}
+
 export interface Book {
   id: string;
   title: string;
@@ -10,18 +20,74 @@ export interface Book {
   coverUrl?: string;
   pages?: number;
   genre?: string;
+  publisher?: string;
+  publishedYear?: string;
+  description?: string; // Publisher's blurb, may contain HTML from Google Books
   status: ReadingStatus;
   ownershipType: OwnershipType; // Physical book, digital copy, or just interested
   dateAdded: Date;
   dateStarted?: Date;
   dateFinished?: Date;
-  rating?: number; // 1-5 stars
+  rating?: number; // 1-5 stars, in quarter steps for ratings imported from StoryGraph
+  readingFormat?: ReadingFormat; // Format of the current read-through
+  readings?: Reading[]; // Earlier completed read-throughs, oldest first
   currentPage?: number;
+  shelfIds?: string[]; // User-defined shelves this book is on
+  dnfReason?: string; // Why the book was abandoned
+  stoppedAtPage?: number; // Last page read before abandoning, counted towards pages read
   userId?: string; // For Firebase user association
   series?: string; // Series name if part of a series
   seriesNumber?: number; // Position in series
+  pendingSync?: boolean; // Changed while offline and not yet saved to the server (never stored)
 }
 
+export interface ReadingSession {
+  id: string;
+  bookId: string;
+  startTime: Date;
+  endTime: Date;
+  startPage?: number;
+  endPage?: number;
+  startPercent?: number; // Used instead of pages for books without a page count
+  endPercent?: number;
+  note?: string;
+  userId?: string; // For Firebase user association
+}
+
+// Partial book update where null clears a field (undefined leaves it untouched)
+export type BookUpdate = {
+  [K in keyof Omit<Book, 'id'>]?: Book[K] | null;
+};
+
+export type BookNoteType = 'note' | 'quote' | 'highlight';
+
+export interface BookNote {
+  id: string;
+  bookId: string;
+  type: BookNoteType;
+  content: string; // Markdown for notes, verbatim text for quotes and highlights
+  page?: number;
+  dateAdded: Date;
+  dateUpdated?: Date;
+  userId?: string; // For Firebase user association
+}
+
+export type HighlightType = 'highlight' | 'note';
+
+// A passage highlighted on a Kindle, or a note typed there, imported from its My Clippings.txt
+export interface Highlight {
+  id: string;
+  bookId: string;
+  type: HighlightType;
+  content: string; // Verbatim text
+  page?: number;
+  location?: string; // Kindle location or range, e.g. "512-515"
+  dateAdded: Date; // When it was made on the Kindle, or imported if the device didn't say
+  userId?: string; // For Firebase user association
+}
+
+export type WishListPriority = 'high' | 'medium' | 'low';
+
 export interface WishListBook {
   id: string;
   title: string;
@@ -33,6 +99,25 @@ export interface WishListBook {
   publisher?: string;
   publishedYear?: string;
   description?: string;
+  priority?: WishListPriority; // Unset sorts with medium
+  notes?: string; // Free-text notes, e.g. why it's on the list
+  recommendedBy?: string; // Who suggested it: a friend, podcast, review...
+  targetPrice?: number; // Price the user would buy it at
+  dateAdded: Date;
+  userId?: string; // For Firebase user association
+}
+
+// Partial wish list update where null clears a field (undefined leaves it untouched)
+export type WishListBookUpdate = {
+  [K in keyof Omit<WishListBook, 'id' | 'dateAdded' | 'userId'>]?: WishListBook[K] | null;
+};
+
+export type ShelfColor = 'blue' | 'green' | 'purple' | 'pink' | 'orange' | 'gray';
+
+export interface Shelf {
+  id: string;
+  name: string;
+  color: ShelfColor;
   dateAdded: Date;
   userId?: string; // For Firebase user association
 }
@@ -41,11 +126,18 @@ export interface SeriesBook {
   id: string;
   title: string;
   author: string;
+  isbn?: string;
   coverUrl?: string;
+  pages?: number;
+  genre?: string;
+  publisher?: string;
   publishedYear?: string;
   description?: string;
   seriesNumber?: number;
   inLibrary?: boolean; // Whether user has this book in their library
+  inWishList?: boolean; // Whether the book is already on the user's wish list
+  libraryBookId?: string; // Matching library book, when inLibrary
+  libraryStatus?: ReadingStatus; // Reading status of the matching library book
 }
 
 export interface BookFilters {
@@ -0,0 +1,14 @@
+import { LibraryData } from '@/types/repository';
+
+// A row of an import file that could not be turned into a book
+export interface ImportSkippedRow {
+  row: number; // 1-based line in the file, counting the header
+  title?: string;
+  reason: string;
+}
+
+// Books read from an import file, ready for LibraryRepository.importLibrary
+export interface LibraryImport {
+  data: LibraryData;
+  skippedRows: ImportSkippedRow[];
+}
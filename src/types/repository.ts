@@ -0,0 +1,125 @@
+import { Book, BookNote, BookUpdate, Highlight, OwnershipType, ReadingSession, ReadingStatus, Shelf, ShelfColor, WishListBook, WishListBookUpdate } from '@/types/book';
+
+export type StorageBackend = 'firestore' | 'local' | 'memory';
+
+export interface ReadingStats {
+  total: number;
+  read: number;
+  currentlyReading: number;
+  wantToRead: number;
+  paused: number;
+  dnf: number;
+  wishList: number;
+}
+
+export type Unsubscribe = () => void;
+
+// The same work found already saved when adding a book
+export type AddConflict =
+  | { location: 'library'; book: Book }
+  | { location: 'wishlist'; book: WishListBook };
+
+export interface AddOptions {
+  allowDuplicate?: boolean; // Add even if the same work is already saved, e.g. for a second copy
+}
+
+export type AddResult<T> = { status: 'added'; book: T } | { status: 'conflict'; conflict: AddConflict };
+
+// How a wish list book is added to the library
+export interface MoveToLibraryOptions {
+  status?: ReadingStatus; // Defaults to currently reading
+  ownershipType?: OwnershipType; // Defaults to physical
+}
+
+// Everything the UI needs from a storage backend. Listeners call back immediately with the
+// current data and again after every change, and return a function that stops listening.
+export interface LibraryRepository {
+  // Books
+  getBooks: () => Promise<Book[]>;
+  getBook: (id: string) => Promise<Book | null>;
+  addBook: (book: Omit<Book, 'id' | 'dateAdded'>) => Promise<Book>;
+  updateBook: (id: string, updates: BookUpdate) => Promise<Book | null>;
+  deleteBook: (id: string) => Promise<boolean>;
+  // Apply the updates to one book, move the other's reading sessions, notes and highlights to it, then delete the other
+  mergeBooks: (keepId: string, mergeId: string, updates: BookUpdate) => Promise<boolean>;
+  getBooksByStatus: (status: ReadingStatus) => Promise<Book[]>;
+  getReadingStats: () => Promise<ReadingStats>;
+  checkBookExists: (isbn: string) => Promise<Book | null>;
+  onBooksChange: (callback: (books: Book[]) => void) => Unsubscribe;
+  // Listen to a single book; called with null once it no longer exists. A failed listener reports to
+  // onError instead, so a read error isn't mistaken for a deleted book.
+  onBookChange: (id: string, callback: (book: Book | null) => void, onError?: (error: Error) => void) => Unsubscribe;
+
+  // Adding from the UI. These look for the same work in the library and wish list (by ISBN in any
+  // form, or by title and author) and return it as a conflict instead of adding a second copy.
+  findSameWork: (book: Pick<Book, 'title' | 'author' | 'isbn'>) => Promise<AddConflict | null>;
+  addBookChecked: (book: Omit<Book, 'id' | 'dateAdded'>, options?: AddOptions) => Promise<AddResult<Book>>;
+  addWishListBookChecked: (book: Omit<WishListBook, 'id' | 'dateAdded'>, options?: AddOptions) => Promise<AddResult<WishListBook>>;
+
+  // Wish list
+  getWishListBooks: () => Promise<WishListBook[]>;
+  getWishListBook: (id: string) => Promise<WishListBook | null>;
+  addWishListBook: (book: Omit<WishListBook, 'id' | 'dateAdded'>) => Promise<WishListBook>;
+  updateWishListBook: (id: string, updates: WishListBookUpdate) => Promise<boolean>;
+  deleteWishListBook: (id: string) => Promise<boolean>;
+  checkWishListBookExists: (isbn: string) => Promise<WishListBook | null>;
+  // Add a wish list book to the library and take it off the wish list in one step, carrying its
+  // details across and its notes into a book note
+  moveWishListBookToCollection: (wishListBookId: string, options?: MoveToLibraryOptions) => Promise<Book | null>;
+  onWishListBooksChange: (callback: (books: WishListBook[]) => void) => Unsubscribe;
+
+  // Reading sessions
+  getReadingSessions: (bookId: string) => Promise<ReadingSession[]>;
+  addReadingSession: (session: Omit<ReadingSession, 'id'>) => Promise<ReadingSession>;
+  deleteReadingSession: (id: string) => Promise<boolean>;
+  onReadingSessionsChange: (bookId: string, callback: (sessions: ReadingSession[]) => void) => Unsubscribe;
+
+  // Notes, quotes and highlights
+  getBookNotes: (bookId: string) => Promise<BookNote[]>;
+  addBookNote: (note: Omit<BookNote, 'id' | 'dateAdded' | 'dateUpdated'>) => Promise<BookNote>;
+  updateBookNote: (id: string, updates: Partial<Pick<BookNote, 'type' | 'content' | 'page'>>) => Promise<boolean>;
+  deleteBookNote: (id: string) => Promise<boolean>;
+  onBookNotesChange: (bookId: string, callback: (notes: BookNote[]) => void) => Unsubscribe;
+
+  // Kindle highlights, oldest first. They're added through importLibrary and only ever deleted.
+  getHighlights: (bookId: string) => Promise<Highlight[]>;
+  deleteHighlight: (id: string) => Promise<boolean>;
+  onHighlightsChange: (bookId: string, callback: (highlights: Highlight[]) => void) => Unsubscribe;
+
+  // Shelves
+  getShelves: () => Promise<Shelf[]>;
+  addShelf: (name: string, color?: ShelfColor) => Promise<Shelf>;
+  updateShelf: (id: string, updates: Partial<Pick<Shelf, 'name' | 'color'>>) => Promise<boolean>;
+  deleteShelf: (id: string) => Promise<boolean>;
+  addBookToShelf: (bookId: string, shelfId: string) => Promise<boolean>;
+  removeBookFromShelf: (bookId: string, shelfId: string) => Promise<boolean>;
+  onShelvesChange: (callback: (shelves: Shelf[]) => void) => Unsubscribe;
+
+  // Whole library, for backups and imports. importLibrary adds the records with new ids, keeping
+  // their dates, and links sessions, notes, highlights and shelf memberships to the new ids.
+  // replaceLibrary imports the same way and only then deletes the records that were there before.
+  exportLibrary: () => Promise<LibraryData>;
+  importLibrary: (data: LibraryData) => Promise<void>;
+  replaceLibrary: (data: LibraryData) => Promise<void>;
+  clearLibrary: () => Promise<void>;
+}
+
+// The raw records a local backend keeps, one list per Firestore collection
+export interface LibraryData {
+  books: Book[];
+  wishlist: WishListBook[];
+  readingSessions: ReadingSession[];
+  notes: BookNote[];
+  highlights: Highlight[];
+  shelves: Shelf[];
+}
+
+export type LibraryTable = keyof LibraryData;
+
+// Somewhere a local backend can keep its data between page loads
+export interface LibraryStore {
+  load: <T extends LibraryTable>(table: T) => LibraryData[T];
+  save: <T extends LibraryTable>(table: T, items: LibraryData[T]) => void;
+  // Report changes made outside this page, such as in another browser tab
+  watch?: (callback: (table: LibraryTable) => void) => Unsubscribe;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { LibraryData } from '@/types/repository';
+import { backupUtils } from '@/utils/backup';
+import { makeBook, makeWishListBook } from '@/utils/testFixtures';
+
+const library = (data: Partial<LibraryData> = {}): LibraryData => ({
+  books: [],
+  wishlist: [],
+  readingSessions: [],
+  notes: [],
+  highlights: [],
+  shelves: [],
+  ...data,
+});
+
+describe('backupUtils.planRestore', () => {
+  it('imports everything when replacing', () => {
+    const backup = library({ books: [makeBook()] });
+    expect(backupUtils.planRestore(backup, backup, 'replace').data).toBe(backup);
+  });
+
+  it('skips books already in the library by ISBN in any form', () => {
+    const current = library({ books: [makeBook({ isbn: '9780441172719' })] });
+    const backup = library({ books: [makeBook({ id: 'book-2', title: 'Dune (Deluxe)', isbn: '0-441-17271-7' })] });
+    expect(backupUtils.planRestore(backup, current, 'merge').skipped.books).toBe(1);
+  });
+
+  it('skips books without an ISBN by title and author, so restoring twice adds nothing', () => {
+    const backup = library({
+      books: [makeBook(), makeBook({ id: 'book-2', title: 'The Hobbit', author: 'J.R.R. Tolkien' })],
+      wishlist: [makeWishListBook()],
+    });
+    const current = library({
+      books: [makeBook({ id: 'a' }), makeBook({ id: 'b', title: 'Hobbit', author: 'J. R. R. Tolkien' })],
+      wishlist: [makeWishListBook({ id: 'c' })],
+    });
+
+    const plan = backupUtils.planRestore(backup, current, 'merge');
+    expect(plan.data.books).toEqual([]);
+    expect(plan.data.wishlist).toEqual([]);
+    expect(plan.skipped).toMatchObject({ books: 2, wishlist: 1 });
+  });
+
+  it('keeps a book with the same title by a different author', () => {
+    const current = library({ books: [makeBook({ id: 'a', author: 'Someone Else' })] });
+    const plan = backupUtils.planRestore(library({ books: [makeBook()] }), current, 'merge');
+    expect(plan.data.books).toHaveLength(1);
+  });
+
+  it('keeps different editions that both have an ISBN', () => {
+    const current = library({ books: [makeBook({ id: 'a', isbn: '9780441172719' })] });
+    const backup = library({ books: [makeBook({ isbn: '9780593099322' })] });
+    expect(backupUtils.planRestore(backup, current, 'merge').data.books).toHaveLength(1);
+  });
+
+  it('drops the sessions and notes of skipped books', () => {
+    const backup = library({
+      books: [makeBook()],
+      notes: [{ id: 'note-1', bookId: 'book-1', type: 'note', content: 'Spice', dateAdded: new Date() }],
+    });
+    const plan = backupUtils.planRestore(backup, library({ books: [makeBook({ id: 'a' })] }), 'merge');
+    expect(plan.data.notes).toEqual([]);
+    expect(plan.skipped.notes).toBe(1);
+  });
+});
@@ -0,0 +1,392 @@
+import {
+  Book,
+  BookNote,
+  BookNoteType,
+  Highlight,
+  HighlightType,
+  OwnershipType,
+  Reading,
+  ReadingFormat,
+  ReadingSession,
+  ReadingStatus,
+  Shelf,
+  ShelfColor,
+  WishListBook,
+  WishListPriority,
+} from '@/types/book';
+import { LibraryData, LibraryTable } from '@/types/repository';
+import { STATUS_TRANSITIONS } from '@/utils/readingStatus';
+import { isbnUtils } from '@/utils/isbn';
+import { libraryMatching } from '@/utils/libraryMatching';
+
+export const BACKUP_FORMAT = 'novel-noted-backup';
+export const BACKUP_VERSION = 1;
+
+export const LIBRARY_TABLES: LibraryTable[] = ['books', 'wishlist', 'readingSessions', 'notes', 'highlights', 'shelves'];
+
+// A complete copy of one library. Records keep their ids so sessions, notes, highlights and
+// shelf memberships can be linked back up when the backup is restored.
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: Date;
+  data: LibraryData;
+}
+
+// merge adds the backup to the current library, replace clears the library first
+export type RestoreMode = 'merge' | 'replace';
+
+export type LibraryCounts = Record<LibraryTable, number>;
+
+export interface RestorePlan {
+  data: LibraryData; // Records to import
+  skipped: LibraryCounts; // Records left out because the library already has them
+}
+
+type RawRecord = Record<string, unknown>;
+
+const READING_STATUSES = Object.keys(STATUS_TRANSITIONS) as ReadingStatus[];
+const OWNERSHIP_TYPES: OwnershipType[] = ['physical', 'digital'];
+const READING_FORMATS: ReadingFormat[] = ['print', 'ebook', 'audiobook'];
+const NOTE_TYPES: BookNoteType[] = ['note', 'quote', 'highlight'];
+const HIGHLIGHT_TYPES: HighlightType[] = ['highlight', 'note'];
+const SHELF_COLORS: ShelfColor[] = ['blue', 'green', 'purple', 'pink', 'orange', 'gray'];
+const WISH_LIST_PRIORITIES: WishListPriority[] = ['high', 'medium', 'low'];
+
+const fail = (message: string): never => {
+  throw new Error(message);
+};
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Field readers; `where` names the record in error messages, e.g. 'Book 3'
+const readText = (record: RawRecord, field: string, where: string): string => {
+  const value = record[field];
+  return typeof value === 'string' && value.trim() ? value : fail(`${where} is missing its ${field}.`);
+};
+
+const readOptionalText = (record: RawRecord, field: string, where: string): string | undefined => {
+  const value = record[field];
+  if (value === undefined || value === null || value === '') return undefined;
+  return typeof value === 'string' ? value : fail(`${where} has an invalid ${field}.`);
+};
+
+const readOptionalNumber = (record: RawRecord, field: string, where: string): number | undefined => {
+  const value = record[field];
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'number' && Number.isFinite(value) ? value : fail(`${where} has an invalid ${field}.`);
+};
+
+const readOptionalDate = (record: RawRecord, field: string, where: string): Date | undefined => {
+  const value = record[field];
+  if (value === undefined || value === null) return undefined;
+  const date = typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : fail(`${where} has an invalid ${field}.`);
+};
+
+const readDate = (record: RawRecord, field: string, where: string): Date =>
+  readOptionalDate(record, field, where) ?? fail(`${where} is missing its ${field}.`);
+
+const readOneOf = <T extends string>(record: RawRecord, field: string, values: T[], where: string): T | undefined => {
+  const value = record[field];
+  if (value === undefined || value === null) return undefined;
+  return values.includes(value as T) ? (value as T) : fail(`${where} has an unknown ${field} "${String(value)}".`);
+};
+
+const readList = (value: unknown, name: string): RawRecord[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return fail(`The backup's ${name} list is not a list.`);
+  return value.map((item, index) => (isRecord(item) ? item : fail(`Entry ${index + 1} in ${name} is not a record.`)));
+};
+
+const parseReading = (raw: unknown, where: string): Reading => {
+  const record = isRecord(raw) ? raw : fail(`${where} has an invalid earlier reading.`);
+  return {
+    dateStarted: readOptionalDate(record, 'dateStarted', where),
+    dateFinished: readOptionalDate(record, 'dateFinished', where),
+    rating: readOptionalNumber(record, 'rating', where),
+    format: readOneOf(record, 'format', READING_FORMATS, where),
+  };
+};
+
+const parseBook = (record: RawRecord, index: number): Book => {
+  const where = `Book ${index + 1}`;
+  const shelfIds = record.shelfIds;
+  const readings = record.readings;
+
+  return {
+    id: readText(record, 'id', where),
+    title: readText(record, 'title', where),
+    author: readText(record, 'author', where),
+    isbn: readOptionalText(record, 'isbn', where),
+    coverUrl: readOptionalText(record, 'coverUrl', where),
+    pages: readOptionalNumber(record, 'pages', where),
+    genre: readOptionalText(record, 'genre', where),
+    publisher: readOptionalText(record, 'publisher', where),
+    publishedYear: readOptionalText(record, 'publishedYear', where),
+    description: readOptionalText(record, 'description', where),
+    status: readOneOf(record, 'status', READING_STATUSES, where) ?? fail(`${where} is missing its status.`),
+    ownershipType: readOneOf(record, 'ownershipType', OWNERSHIP_TYPES, where) ?? 'physical',
+    dateAdded: readDate(record, 'dateAdded', where),
+    dateStarted: readOptionalDate(record, 'dateStarted', where),
+    dateFinished: readOptionalDate(record, 'dateFinished', where),
+    rating: readOptionalNumber(record, 'rating', where),
+    readingFormat: readOneOf(record, 'readingFormat', READING_FORMATS, where),
+    readings: Array.isArray(readings) ? readings.map(reading => parseReading(reading, where)) : undefined,
+    currentPage: readOptionalNumber(record, 'currentPage', where),
+    shelfIds: Array.isArray(shelfIds) ? shelfIds.filter((id): id is string => typeof id === 'string') : undefined,
+    dnfReason: readOptionalText(record, 'dnfReason', where),
+    stoppedAtPage: readOptionalNumber(record, 'stoppedAtPage', where),
+    series: readOptionalText(record, 'series', where),
+    seriesNumber: readOptionalNumber(record, 'seriesNumber', where),
+  };
+};
+
+const parseWishListBook = (record: RawRecord, index: number): WishListBook => {
+  const where = `Wish list book ${index + 1}`;
+  return {
+    id: readText(record, 'id', where),
+    title: readText(record, 'title', where),
+    author: readText(record, 'author', where),
+    isbn: readOptionalText(record, 'isbn', where),
+    coverUrl: readOptionalText(record, 'coverUrl', where),
+    pages: readOptionalNumber(record, 'pages', where),
+    genre: readOptionalText(record, 'genre', where),
+    publisher: readOptionalText(record, 'publisher', where),
+    publishedYear: readOptionalText(record, 'publishedYear', where),
+    description: readOptionalText(record, 'description', where),
+    priority: readOneOf(record, 'priority', WISH_LIST_PRIORITIES, where),
+    notes: readOptionalText(record, 'notes', where),
+    recommendedBy: readOptionalText(record, 'recommendedBy', where),
+    targetPrice: readOptionalNumber(record, 'targetPrice', where),
+    dateAdded: readDate(record, 'dateAdded', where),
+  };
+};
+
+const parseReadingSession = (record: RawRecord, index: number): ReadingSession => {
+  const where = `Reading session ${index + 1}`;
+  return {
+    id: readText(record, 'id', where),
+    bookId: readText(record, 'bookId', where),
+    startTime: readDate(record, 'startTime', where),
+    endTime: readDate(record, 'endTime', where),
+    startPage: readOptionalNumber(record, 'startPage', where),
+    endPage: readOptionalNumber(record, 'endPage', where),
+    startPercent: readOptionalNumber(record, 'startPercent', where),
+    endPercent: readOptionalNumber(record, 'endPercent', where),
+    note: readOptionalText(record, 'note', where),
+  };
+};
+
+const parseNote = (record: RawRecord, index: number): BookNote => {
+  const where = `Note ${index + 1}`;
+  return {
+    id: readText(record, 'id', where),
+    bookId: readText(record, 'bookId', where),
+    type: readOneOf(record, 'type', NOTE_TYPES, where) ?? 'note',
+    content: readText(record, 'content', where),
+    page: readOptionalNumber(record, 'page', where),
+    dateAdded: readDate(record, 'dateAdded', where),
+    dateUpdated: readOptionalDate(record, 'dateUpdated', where),
+  };
+};
+
+const parseHighlight = (record: RawRecord, index: number): Highlight => {
+  const where = `Highlight ${index + 1}`;
+  return {
+    id: readText(record, 'id', where),
+    bookId: readText(record, 'bookId', where),
+    type: readOneOf(record, 'type', HIGHLIGHT_TYPES, where) ?? 'highlight',
+    content: readText(record, 'content', where),
+    page: readOptionalNumber(record, 'page', where),
+    location: readOptionalText(record, 'location', where),
+    dateAdded: readDate(record, 'dateAdded', where),
+  };
+};
+
+const parseShelf = (record: RawRecord, index: number): Shelf => {
+  const where = `Shelf ${index + 1}`;
+  return {
+    id: readText(record, 'id', where),
+    name: readText(record, 'name', where),
+    color: readOneOf(record, 'color', SHELF_COLORS, where) ?? 'blue',
+    dateAdded: readDate(record, 'dateAdded', where),
+  };
+};
+
+const isbnKey = (isbn?: string): string => (isbn ? isbnUtils.matchKey(isbn) : '');
+
+type WorkRecord = Pick<Book, 'title' | 'author' | 'isbn'>;
+
+// The books a restore has seen so far, for spotting ones it already has. Books match by ISBN, or
+// by title and author (as libraryMatching compares them) when either of the two has no ISBN.
+const createWorkIndex = (books: WorkRecord[]) => {
+  const isbns = new Set<string>();
+  const titles = new Map<string, WorkRecord[]>();
+
+  const add = (book: WorkRecord) => {
+    const isbn = isbnKey(book.isbn);
+    if (isbn) isbns.add(isbn);
+    const titleKey = libraryMatching.normalizeTitle(book.title);
+    if (titleKey) titles.set(titleKey, [...(titles.get(titleKey) || []), book]);
+  };
+
+  const has = (book: WorkRecord): boolean => {
+    const isbn = isbnKey(book.isbn);
+    if (isbn && isbns.has(isbn)) return true;
+    const candidates = titles.get(libraryMatching.normalizeTitle(book.title)) || [];
+    return candidates.some(other => (!isbn || !isbnKey(other.isbn)) && libraryMatching.isSameBook(book, other));
+  };
+
+  books.forEach(add);
+  return { add, has };
+};
+
+export const backupUtils = {
+  // Wrap a library in the current backup format
+  createBackup: (data: LibraryData, now: Date = new Date()): LibraryBackup => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now,
+    data: {
+      // Drop per-device and per-account fields that mean nothing in another library
+      books: data.books.map(book => ({ ...book, pendingSync: undefined, userId: undefined })),
+      wishlist: data.wishlist.map(book => ({ ...book, userId: undefined })),
+      readingSessions: data.readingSessions.map(session => ({ ...session, userId: undefined })),
+      notes: data.notes.map(note => ({ ...note, userId: undefined })),
+      highlights: data.highlights.map(highlight => ({ ...highlight, userId: undefined })),
+      shelves: data.shelves.map(shelf => ({ ...shelf, userId: undefined })),
+    },
+  }),
+
+  // File name for a backup download, e.g. novel-noted-backup-2025-01-31.json
+  getFileName: (backup: LibraryBackup): string =>
+    `${BACKUP_FORMAT}-${backup.exportedAt.toISOString().slice(0, 10)}.json`,
+
+  // Serialize a backup as pretty-printed JSON (dates become ISO strings)
+  toJSON: (backup: LibraryBackup): string => JSON.stringify(backup, null, 2),
+
+  // Read and validate a backup file, throwing an Error with a readable message if it isn't one
+  parse: (json: string): LibraryBackup => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      return fail('This file is not valid JSON.');
+    }
+
+    if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+      return fail('This file is not a Novel Noted backup.');
+    }
+    if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+      return fail('This backup was made by a newer version of Novel Noted. Please update the app and try again.');
+    }
+
+    const data = isRecord(raw.data) ? raw.data : fail('This backup has no library data.');
+    const exportedAt = readOptionalDate(raw, 'exportedAt', 'The backup') ?? new Date();
+
+    return {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      exportedAt,
+      data: {
+        books: readList(data.books, 'books').map(parseBook),
+        wishlist: readList(data.wishlist, 'wishlist').map(parseWishListBook),
+        readingSessions: readList(data.readingSessions, 'readingSessions').map(parseReadingSession),
+        notes: readList(data.notes, 'notes').map(parseNote),
+        highlights: readList(data.highlights, 'highlights').map(parseHighlight),
+        shelves: readList(data.shelves, 'shelves').map(parseShelf),
+      },
+    };
+  },
+
+  // Count the records in each table
+  countRecords: (data: LibraryData): LibraryCounts => ({
+    books: data.books.length,
+    wishlist: data.wishlist.length,
+    readingSessions: data.readingSessions.length,
+    notes: data.notes.length,
+    highlights: data.highlights.length,
+    shelves: data.shelves.length,
+  }),
+
+  // Work out what restoring a backup will add. Replacing imports everything. Merging skips
+  // books and wish list books the library already has, matched by ISBN or, for books without
+  // one, by title and author (along with the skipped books' sessions, notes and highlights),
+  // and reuses existing shelves with the same name.
+  planRestore: (backup: LibraryData, current: LibraryData, mode: RestoreMode): RestorePlan => {
+    const skipped: LibraryCounts = { books: 0, wishlist: 0, readingSessions: 0, notes: 0, highlights: 0, shelves: 0 };
+    if (mode === 'replace') {
+      return { data: backup, skipped };
+    }
+
+    const libraryWorks = createWorkIndex(current.books);
+    const wishListWorks = createWorkIndex(current.wishlist);
+
+    const existingShelves = new Map(current.shelves.map(shelf => [shelf.name.trim().toLowerCase(), shelf.id]));
+    const shelfIds = new Map<string, string>();
+    const shelves = backup.shelves.filter(shelf => {
+      const existingId = existingShelves.get(shelf.name.trim().toLowerCase());
+      if (existingId) shelfIds.set(shelf.id, existingId);
+      return !existingId;
+    });
+    skipped.shelves = backup.shelves.length - shelves.length;
+
+    const books = backup.books
+      .filter(book => {
+        if (libraryWorks.has(book)) return false;
+        libraryWorks.add(book); // Also drops duplicates within the backup itself
+        return true;
+      })
+      .map(book => ({ ...book, shelfIds: book.shelfIds?.map(id => shelfIds.get(id) ?? id) }));
+    skipped.books = backup.books.length - books.length;
+
+    const keptBookIds = new Set(books.map(book => book.id));
+    const readingSessions = backup.readingSessions.filter(session => keptBookIds.has(session.bookId));
+    const notes = backup.notes.filter(note => keptBookIds.has(note.bookId));
+    skipped.readingSessions = backup.readingSessions.length - readingSessions.length;
+    const highlights = backup.highlights.filter(highlight => keptBookIds.has(highlight.bookId));
+    skipped.notes = backup.notes.length - notes.length;
+    skipped.highlights = backup.highlights.length - highlights.length;
+
+    const wishlist = backup.wishlist.filter(book => {
+      if (libraryWorks.has(book) || wishListWorks.has(book)) return false;
+      wishListWorks.add(book);
+      return true;
+    });
+    skipped.wishlist = backup.wishlist.length - wishlist.length;
+
+    return { data: { books, wishlist, readingSessions, notes, highlights, shelves }, skipped };
+  },
+
+  // Give every record a new id from createId and update the references between them.
+  // References to ids that aren't in `data` (such as existing shelves) are left as they are.
+  assignNewIds: (data: LibraryData, createId: (table: LibraryTable) => string): LibraryData => {
+    const ids = new Map<string, string>();
+    const renumber = <T extends { id: string }>(table: LibraryTable, records: T[]): T[] =>
+      records.map(record => {
+        const id = createId(table);
+        ids.set(record.id, id);
+        return { ...record, id };
+      });
+    const remap = (id: string) => ids.get(id) ?? id;
+
+    const shelves = renumber('shelves', data.shelves);
+    const books = renumber('books', data.books).map(book =>
+      book.shelfIds ? { ...book, shelfIds: book.shelfIds.map(remap) } : book
+    );
+
+    return {
+      books,
+      shelves,
+      wishlist: renumber('wishlist', data.wishlist),
+      readingSessions: renumber('readingSessions', data.readingSessions).map(session => ({
+        ...session,
+        bookId: remap(session.bookId),
+      })),
+      notes: renumber('notes', data.notes).map(note => ({ ...note, bookId: remap(note.bookId) })),
+      highlights: renumber('highlights', data.highlights).map(highlight => ({ ...highlight, bookId: remap(highlight.bookId) })),
+    };
+  },
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { ReadingStatus } from '@/types/book';
+import { BookDetailsInput, bookValidation } from '@/utils/bookValidation';
+
+const details = (overrides: Partial<BookDetailsInput> = {}): BookDetailsInput => ({
+  title: 'Dune',
+  author: 'Frank Herbert',
+  isbn: '',
+  pages: '400',
+  genre: '',
+  coverUrl: '',
+  dateStarted: '',
+  dateFinished: '',
+  series: '',
+  seriesNumber: '',
+  ...overrides,
+});
+
+describe('bookValidation.validateDetails', () => {
+  it('accepts a finish date on or after the start date', () => {
+    expect(bookValidation.validateDetails(details({ dateStarted: '2024-05-01', dateFinished: '2024-05-01' }))).toEqual({});
+  });
+
+  it('rejects a book finished before it was started', () => {
+    expect(bookValidation.validateDetails(details({ dateStarted: '2024-05-20', dateFinished: '2024-05-01' }))).toEqual({
+      dateFinished: 'Finish date must be on or after the start date.',
+    });
+  });
+
+  describe('ISBN', () => {
+    it('accepts a valid ISBN-10 or ISBN-13 with hyphens', () => {
+      expect(bookValidation.validateDetails(details({ isbn: '0-441-17271-7' }))).toEqual({});
+      expect(bookValidation.validateDetails(details({ isbn: '978-0-441-17271-9' }))).toEqual({});
+    });
+
+    it('rejects an ISBN with a wrong check digit', () => {
+      expect(bookValidation.validateDetails(details({ isbn: '9780441172718' }))).toEqual({
+        isbn: 'This is not a valid ISBN-10 or ISBN-13.',
+      });
+    });
+
+    it('keeps identifiers that aren\'t ISBNs, such as ASINs', () => {
+      expect(bookValidation.validateDetails(details({ isbn: 'B00B7NPRY8' }))).toEqual({});
+    });
+  });
+
+  describe('dates for the reading status', () => {
+    it('accepts the dates each status should have', () => {
+      const valid: Record<ReadingStatus, Partial<BookDetailsInput>> = {
+        'want-to-read': {},
+        'currently-reading': { dateStarted: '2024-05-01' },
+        'paused': { dateStarted: '2024-05-01' },
+        'read': { dateStarted: '2024-05-01', dateFinished: '2024-05-20' },
+        'dnf': { dateStarted: '2024-05-01', dateFinished: '2024-05-20' },
+      };
+      (Object.keys(valid) as ReadingStatus[]).forEach(status => {
+        expect(bookValidation.validateDetails(details({ ...valid[status], status }))).toEqual({});
+      });
+    });
+
+    it('requires a finish date on a read book', () => {
+      expect(bookValidation.validateDetails(details({ status: 'read', dateStarted: '2024-05-01' }))).toEqual({
+        dateFinished: 'Enter the date you finished reading.',
+      });
+    });
+
+    it('requires the stopping date on an abandoned book', () => {
+      expect(bookValidation.validateDetails(details({ status: 'dnf', dateStarted: '2024-05-01' }))).toEqual({
+        dateFinished: 'Enter the date you stopped reading.',
+      });
+    });
+
+    it('requires a start date once reading has begun', () => {
+      expect(bookValidation.validateDetails(details({ status: 'paused' }))).toEqual({
+        dateStarted: 'Enter the date you started reading.',
+      });
+    });
+
+    it('rejects a finish date on a book still being read', () => {
+      expect(
+        bookValidation.validateDetails(details({ status: 'currently-reading', dateStarted: '2024-05-01', dateFinished: '2024-05-20' }))
+      ).toEqual({ dateFinished: 'Only finished or abandoned books have an end date.' });
+    });
+
+    it('accepts a read book saved without a start date when the dates are left alone', () => {
+      const dates = { dateStarted: '', dateFinished: '2024-05-20' };
+      expect(bookValidation.validateDetails(details({ ...dates, status: 'read', saved: dates, title: 'Dune Messiah' }))).toEqual({});
+    });
+
+    it('requires a date the user cleared', () => {
+      expect(
+        bookValidation.validateDetails(details({
+          status: 'read',
+          dateStarted: '2024-05-01',
+          saved: { dateStarted: '2024-05-01', dateFinished: '2024-05-20' },
+        }))
+      ).toEqual({ dateFinished: 'Enter the date you finished reading.' });
+    });
+
+    it('rejects dates on a book not yet started', () => {
+      expect(bookValidation.validateDetails(details({ status: 'want-to-read', dateStarted: '2024-05-01' }))).toEqual({
+        dateStarted: 'Books you haven\'t started can\'t have a start date.',
+      });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { ReadingStatus } from '@/types/book';
+import { isbnUtils } from '@/utils/isbn';
+import { STATUS_DATES } from '@/utils/readingStatus';
+
+export const MAX_PAGES = 20000;
+
+export interface BookDetailsInput {
+  title: string;
+  author: string;
+  isbn: string;
+  pages: string;
+  genre: string;
+  coverUrl: string;
+  dateStarted: string; // yyyy-MM-dd, empty when unset
+  dateFinished: string;
+  series: string;
+  seriesNumber: string;
+  currentPage?: number; // Existing progress, checked against the page count
+  status?: ReadingStatus; // Existing status, which decides the dates the book must and can't have
+  saved?: Pick<BookDetailsInput, 'dateStarted' | 'dateFinished'>; // Dates as stored before this edit
+}
+
+export type BookDetailsErrors = Partial<Record<keyof BookDetailsInput, string>>;
+
+// Parse a yyyy-MM-dd string from a date input as a local date
+const parseDateInput = (value: string): Date | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Parse a series position, allowing half-steps such as novellas numbered 2.5
+const parseSeriesNumber = (value: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+// Validate edited book details, returning an error message per invalid field
+const validateDetails = (input: BookDetailsInput): BookDetailsErrors => {
+  const errors: BookDetailsErrors = {};
+
+  if (!input.title.trim()) errors.title = 'Title is required.';
+  if (!input.author.trim()) errors.author = 'Author is required.';
+
+  // Identifiers that aren't ISBNs, such as ASINs, are kept as entered
+  if (input.isbn.trim() && isbnUtils.isIsbnShaped(input.isbn) && !isbnUtils.isValid(input.isbn)) {
+    errors.isbn = 'This is not a valid ISBN-10 or ISBN-13.';
+  }
+
+  if (input.pages.trim()) {
+    const pages = Number(input.pages);
+    if (!Number.isInteger(pages) || pages < 1 || pages > MAX_PAGES) {
+      errors.pages = `Pages must be a whole number between 1 and ${MAX_PAGES}.`;
+    } else if (input.currentPage !== undefined && input.currentPage > pages) {
+      errors.pages = `You're already on page ${input.currentPage}, so the book can't have fewer pages.`;
+    }
+  }
+
+  if (input.coverUrl.trim()) {
+    try {
+      const url = new URL(input.coverUrl.trim());
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        errors.coverUrl = 'Cover URL must start with http:// or https://.';
+      }
+    } catch {
+      errors.coverUrl = 'Cover URL is not a valid URL.';
+    }
+  }
+
+  if (input.seriesNumber.trim()) {
+    if (parseSeriesNumber(input.seriesNumber) === undefined) {
+      errors.seriesNumber = 'Series number must be a positive number.';
+    } else if (!input.series.trim()) {
+      errors.series = 'Enter the series this book belongs to.';
+    }
+  }
+
+  const today = new Date();
+  const dateStarted = parseDateInput(input.dateStarted);
+  const dateFinished = parseDateInput(input.dateFinished);
+
+  if (input.dateStarted && !dateStarted) errors.dateStarted = 'Invalid date.';
+  if (input.dateFinished && !dateFinished) errors.dateFinished = 'Invalid date.';
+  if (dateStarted && dateStarted > today) errors.dateStarted = 'Start date can\'t be in the future.';
+  if (dateFinished && dateFinished > today) errors.dateFinished = 'Finish date can\'t be in the future.';
+  if (dateStarted && dateFinished && dateFinished < dateStarted) {
+    errors.dateFinished = 'Finish date must be on or after the start date.';
+  }
+
+  if (input.status) {
+    // Only dates the user has changed are held to the status, so books saved before these rules
+    // (such as read books with no start date) can still be edited
+    const { started, finished } = STATUS_DATES[input.status];
+    const startChanged = !input.saved || input.dateStarted !== input.saved.dateStarted;
+    const finishChanged = !input.saved || input.dateFinished !== input.saved.dateFinished;
+
+    if (startChanged && started && !input.dateStarted) errors.dateStarted = 'Enter the date you started reading.';
+    if (startChanged && !started && input.dateStarted) errors.dateStarted = 'Books you haven\'t started can\'t have a start date.';
+    if (finishChanged && finished && !input.dateFinished) {
+      errors.dateFinished = input.status === 'dnf' ? 'Enter the date you stopped reading.' : 'Enter the date you finished reading.';
+    }
+    if (finishChanged && !finished && input.dateFinished) {
+      errors.dateFinished = 'Only finished or abandoned books have an end date.';
+    }
+  }
+
+  return errors;
+};
+
+export const bookValidation = {
+  parseDateInput,
+  parseSeriesNumber,
+  validateDetails,
+};
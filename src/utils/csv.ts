@@ -0,0 +1,74 @@
+export type CsvValue = string | number | undefined | null;
+
+// Quote a field when it contains a delimiter, quote or line break
+const formatField = (value: CsvValue): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvUtils = {
+  // Split CSV text into rows of fields. Quoted fields may contain commas, doubled quotes and line breaks.
+  parse: (text: string): string[][] => {
+    const input = text.replace(/^\uFEFF/, ''); // Excel adds a byte order mark
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+  },
+
+  // Parse CSV with a header row into one record per row, keyed by column name
+  parseRecords: (text: string): { headers: string[]; records: Record<string, string>[] } => {
+    const [headerRow = [], ...rows] = csvUtils.parse(text);
+    const headers = headerRow.map(header => header.trim());
+    const records = rows.map(cells =>
+      Object.fromEntries(headers.map((header, index) => [header, (cells[index] ?? '').trim()]))
+    );
+    return { headers, records };
+  },
+
+  // Read a date the way reading services write them in exports, e.g. 2023/05/14 or 2023-05-14
+  parseDate: (value: string): Date | undefined => {
+    const match = value.trim().match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+    return match ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)) : undefined;
+  },
+
+  // Build CSV text from a header row and data rows
+  stringify: (headers: string[], rows: CsvValue[][]): string =>
+    [headers, ...rows].map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n',
+};
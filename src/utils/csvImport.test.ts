@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { CsvImportDefaults, csvImport } from '@/utils/csvImport';
+import { makeBook } from '@/utils/testFixtures';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const DEFAULTS: CsvImportDefaults = { status: 'want-to-read', ownershipType: 'physical' };
+
+const MAPPING = {
+  title: 'Title',
+  author: 'Author',
+  isbn: 'ISBN',
+  status: 'Status',
+  dateStarted: 'Started',
+  dateFinished: 'Finished',
+};
+
+const record = (overrides: Record<string, string> = {}): Record<string, string> => ({
+  Title: 'Dune',
+  Author: 'Frank Herbert',
+  ISBN: '',
+  Status: '',
+  Started: '',
+  Finished: '',
+  ...overrides,
+});
+
+const buildOne = (overrides: Record<string, string> = {}) =>
+  csvImport.buildRows([record(overrides)], MAPPING, DEFAULTS, NOW)[0];
+
+describe('csvImport.guessMapping', () => {
+  it('maps headers to fields ignoring case and punctuation', () => {
+    expect(csvImport.guessMapping(['Book Title', 'Author(s)', 'ISBN-13', 'Date Read', 'Exclusive Shelf'])).toEqual({
+      title: 'Book Title',
+      author: 'Author(s)',
+      isbn: 'ISBN-13',
+      dateFinished: 'Date Read',
+      status: 'Exclusive Shelf',
+    });
+  });
+});
+
+describe('csvImport.parseStatus', () => {
+  it('reads the common ways of writing each status', () => {
+    expect(['To Read', 'Currently Reading', 'on-hold', 'Finished', 'DNF', 'shelved'].map(csvImport.parseStatus)).toEqual([
+      'want-to-read',
+      'currently-reading',
+      'paused',
+      'read',
+      'dnf',
+      undefined,
+    ]);
+  });
+});
+
+describe('csvImport.buildRows', () => {
+  it('builds a book from a valid row with its dates and canonical ISBN', () => {
+    expect(buildOne({ ISBN: '="0441172717"', Status: 'read', Started: '2024/05/01', Finished: '2024-05-20' }).book).toMatchObject({
+      id: 'csv-2',
+      isbn: '9780441172719',
+      status: 'read',
+      dateAdded: NOW,
+      dateStarted: new Date(2024, 4, 1),
+      dateFinished: new Date(2024, 4, 20),
+    });
+  });
+
+  describe('rows with a status but empty date cells', () => {
+    it('starts and finishes a read book today', () => {
+      expect(buildOne({ Status: 'read' }).book).toMatchObject({ dateStarted: NOW, dateFinished: NOW });
+    });
+
+    it('starts a book being read today', () => {
+      const { book } = buildOne({ Status: 'reading' });
+      expect(book).toMatchObject({ dateStarted: NOW });
+      expect(book?.dateFinished).toBeUndefined();
+    });
+
+    it('starts an abandoned book with only a finish date on that day', () => {
+      expect(buildOne({ Status: 'dnf', Finished: '2024/05/20' }).book).toMatchObject({
+        dateStarted: new Date(2024, 4, 20),
+        dateFinished: new Date(2024, 4, 20),
+      });
+    });
+
+    it('leaves a want-to-read book without dates', () => {
+      const { book } = buildOne({ Started: '2024/05/01' });
+      expect(book?.status).toBe('want-to-read');
+      expect(book?.dateStarted).toBeUndefined();
+    });
+  });
+
+  it('reports invalid cells instead of building a book', () => {
+    const row = buildOne({ Title: '', Status: 'shelved', ISBN: '9780441172718' });
+    expect(row.book).toBeUndefined();
+    expect(row.title).toBe('(no title)');
+    expect(row.errors).toEqual([
+      'Title: Title is required.',
+      'ISBN: This is not a valid ISBN-10 or ISBN-13.',
+      'Status: "shelved" is not a reading status.',
+    ]);
+  });
+});
+
+describe('csvImport.markDuplicates', () => {
+  it('flags rows already in the library or repeated earlier in the file', () => {
+    const rows = csvImport.buildRows(
+      [record({ ISBN: '9780441172719' }), record({ Title: 'Emma', ISBN: '9780141439587' }), record({ Title: 'Dune again', ISBN: '0441172717' })],
+      MAPPING,
+      DEFAULTS,
+      NOW
+    );
+    const existing = makeBook({ title: 'Emma (Penguin Classics)', author: 'Jane Austen', isbn: '0-14-143958-0' });
+    const marked = csvImport.markDuplicates(rows, [existing, makeBook({ id: 'book-2', isbn: undefined })]);
+    expect(marked.map(row => row.duplicateOf)).toEqual([undefined, 'Emma (Penguin Classics)', 'Dune']);
+  });
+});
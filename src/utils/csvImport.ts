@@ -0,0 +1,223 @@
+import { format } from 'date-fns';
+import { Book, OwnershipType, ReadingStatus } from '@/types/book';
+import { bookValidation, BookDetailsInput } from '@/utils/bookValidation';
+import { csvUtils } from '@/utils/csv';
+import { isbnUtils } from '@/utils/isbn';
+import { readingStatus } from '@/utils/readingStatus';
+
+export type CsvImportField =
+  | 'title'
+  | 'author'
+  | 'isbn'
+  | 'pages'
+  | 'genre'
+  | 'coverUrl'
+  | 'status'
+  | 'ownershipType'
+  | 'rating'
+  | 'currentPage'
+  | 'dateStarted'
+  | 'dateFinished'
+  | 'series'
+  | 'seriesNumber';
+
+// Book fields a column can be mapped to. Aliases are compared with headers ignoring case and punctuation.
+export const CSV_IMPORT_FIELDS: { field: CsvImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'title', label: 'Title', required: true, aliases: ['title', 'booktitle', 'name'] },
+  { field: 'author', label: 'Author', required: true, aliases: ['author', 'authors', 'writer', 'by'] },
+  { field: 'isbn', label: 'ISBN', aliases: ['isbn', 'isbn13', 'isbn10', 'isbnuid'] },
+  { field: 'pages', label: 'Pages', aliases: ['pages', 'numberofpages', 'pagecount', 'length'] },
+  { field: 'genre', label: 'Genre', aliases: ['genre', 'category', 'subject'] },
+  { field: 'coverUrl', label: 'Cover URL', aliases: ['cover', 'coverurl', 'image', 'imageurl'] },
+  { field: 'status', label: 'Status', aliases: ['status', 'readstatus', 'shelf', 'exclusiveshelf'] },
+  { field: 'ownershipType', label: 'Ownership', aliases: ['ownership', 'ownershiptype', 'format', 'binding'] },
+  { field: 'rating', label: 'Rating', aliases: ['rating', 'myrating', 'starrating', 'stars'] },
+  { field: 'currentPage', label: 'Current page', aliases: ['currentpage', 'page', 'progress'] },
+  { field: 'dateStarted', label: 'Date started', aliases: ['datestarted', 'started', 'startdate'] },
+  { field: 'dateFinished', label: 'Date finished', aliases: ['datefinished', 'finished', 'dateread', 'enddate'] },
+  { field: 'series', label: 'Series', aliases: ['series', 'seriesname'] },
+  { field: 'seriesNumber', label: 'Series number', aliases: ['seriesnumber', 'number', 'volume', 'seriesposition'] },
+];
+
+export type ColumnMapping = Partial<Record<CsvImportField, string>>; // Field -> column header
+
+export interface CsvImportDefaults {
+  status: ReadingStatus; // Used when there is no status column or the cell is empty
+  ownershipType: OwnershipType;
+}
+
+export interface CsvImportRow {
+  row: number; // 1-based line in the file, counting the header
+  title: string;
+  book?: Book; // Set when the row is valid
+  errors: string[];
+  duplicateOf?: string; // Title of the library book (or earlier row) with the same ISBN
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Common ways spreadsheets and other services write each status
+const STATUS_ALIASES: Record<string, ReadingStatus> = {
+  wanttoread: 'want-to-read',
+  toread: 'want-to-read',
+  tbr: 'want-to-read',
+  unread: 'want-to-read',
+  currentlyreading: 'currently-reading',
+  reading: 'currently-reading',
+  inprogress: 'currently-reading',
+  paused: 'paused',
+  onhold: 'paused',
+  read: 'read',
+  finished: 'read',
+  done: 'read',
+  dnf: 'dnf',
+  didnotfinish: 'dnf',
+  abandoned: 'dnf',
+};
+
+const OWNERSHIP_ALIASES: Record<string, OwnershipType> = {
+  physical: 'physical',
+  print: 'physical',
+  paperback: 'physical',
+  hardcover: 'physical',
+  hardback: 'physical',
+  digital: 'digital',
+  ebook: 'digital',
+  kindle: 'digital',
+  kindleedition: 'digital',
+  audiobook: 'digital',
+  audio: 'digital',
+};
+
+// Turn a date cell into the yyyy-MM-dd form the book validation expects, passing through
+// anything unreadable so validation reports it
+const toDateInput = (value: string): string => {
+  if (!value) return '';
+  const date = csvUtils.parseDate(value) ?? new Date(value);
+  return isNaN(date.getTime()) ? value : format(date, 'yyyy-MM-dd');
+};
+
+const parseNumber = (value: string): number | undefined => (value ? Number(value) : undefined);
+
+export const csvImport = {
+  // Map each field to the first column whose header matches one of its aliases
+  guessMapping: (headers: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    const used = new Set<string>();
+    CSV_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+      const header = headers.find(h => !used.has(h) && aliases.includes(normalizeHeader(h)));
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+      }
+    });
+    return mapping;
+  },
+
+  // Read a status cell such as "Currently Reading" or "to-read"
+  parseStatus: (value: string): ReadingStatus | undefined => STATUS_ALIASES[normalizeHeader(value)],
+
+  // Read an ownership or format cell such as "Kindle Edition" or "Paperback"
+  parseOwnership: (value: string): OwnershipType | undefined => OWNERSHIP_ALIASES[normalizeHeader(value)],
+
+  // Validate every record against the mapping and build a book from each valid one
+  buildRows: (
+    records: Record<string, string>[],
+    mapping: ColumnMapping,
+    defaults: CsvImportDefaults,
+    now: Date = new Date()
+  ): CsvImportRow[] => {
+    return records.map((record, index) => {
+      const cell = (field: CsvImportField) => {
+        const header = mapping[field];
+        return header ? (record[header] || '').trim() : '';
+      };
+
+      const input: BookDetailsInput = {
+        title: cell('title'),
+        author: cell('author'),
+        isbn: cell('isbn').replace(/^="(.*)"$/, '$1'), // Spreadsheet formula quoting, as in Goodreads exports
+        pages: cell('pages'),
+        genre: cell('genre'),
+        coverUrl: cell('coverUrl'),
+        dateStarted: toDateInput(cell('dateStarted')),
+        dateFinished: toDateInput(cell('dateFinished')),
+        series: cell('series'),
+        seriesNumber: cell('seriesNumber'),
+        currentPage: parseNumber(cell('currentPage')),
+      };
+
+      const labels = Object.fromEntries(CSV_IMPORT_FIELDS.map(({ field, label }) => [field, label]));
+      const errors = Object.entries(bookValidation.validateDetails(input)).map(
+        ([field, message]) => `${labels[field]}: ${message}`
+      );
+
+      const status = cell('status') ? csvImport.parseStatus(cell('status')) : defaults.status;
+      if (!status) errors.push(`Status: "${cell('status')}" is not a reading status.`);
+
+      const ownershipType = cell('ownershipType') ? csvImport.parseOwnership(cell('ownershipType')) : defaults.ownershipType;
+      if (!ownershipType) errors.push(`Ownership: "${cell('ownershipType')}" is not physical or digital.`);
+
+      const rating = parseNumber(cell('rating'));
+      if (rating !== undefined && !(rating >= 0 && rating <= 5)) {
+        errors.push('Rating: Rating must be between 0 and 5.');
+      }
+      if (input.currentPage !== undefined && !(Number.isInteger(input.currentPage) && input.currentPage >= 0)) {
+        errors.push('Current page: Current page must be a whole number.');
+      }
+
+      const row = { row: index + 2, title: input.title || '(no title)', errors };
+      if (errors.length > 0 || !status || !ownershipType) return row;
+
+      const pages = parseNumber(input.pages);
+      // Empty date cells default to today where the status needs a date
+      const { dateStarted, dateFinished } = readingStatus.getImportedDates(
+        status,
+        {
+          dateStarted: bookValidation.parseDateInput(input.dateStarted),
+          dateFinished: bookValidation.parseDateInput(input.dateFinished),
+        },
+        now
+      );
+      return {
+        ...row,
+        book: {
+          id: `csv-${index + 2}`,
+          title: input.title,
+          author: input.author,
+          isbn: input.isbn ? isbnUtils.toCanonical(input.isbn) : undefined,
+          pages,
+          genre: input.genre || undefined,
+          coverUrl: input.coverUrl || undefined,
+          status,
+          ownershipType,
+          dateAdded: now,
+          dateStarted,
+          dateFinished,
+          rating: status === 'read' && rating ? rating : undefined,
+          currentPage: status === 'read' ? pages : status === 'dnf' ? undefined : input.currentPage,
+          stoppedAtPage: status === 'dnf' ? input.currentPage : undefined,
+          series: input.series || undefined,
+          seriesNumber: bookValidation.parseSeriesNumber(input.seriesNumber),
+        },
+      };
+    });
+  },
+
+  // Mark valid rows whose ISBN, in any form, is already in the library or appears on an earlier row
+  markDuplicates: (rows: CsvImportRow[], libraryBooks: Book[]): CsvImportRow[] => {
+    const seen = new Map<string, string>();
+    libraryBooks.forEach(book => {
+      if (book.isbn) seen.set(isbnUtils.matchKey(book.isbn), book.title);
+    });
+
+    return rows.map(row => {
+      if (!row.book?.isbn) return row;
+
+      const key = isbnUtils.matchKey(row.book.isbn);
+      const duplicateOf = seen.get(key);
+      if (!duplicateOf) seen.set(key, row.title);
+      return duplicateOf ? { ...row, duplicateOf } : row;
+    });
+  },
+};
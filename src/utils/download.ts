@@ -0,0 +1,16 @@
+export const downloadUtils = {
+  // Save text as a file through the browser's download prompt
+  saveFile: (contents: string, fileName: string, type: string): void => {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  },
+
+  // Read a file the user picked as text
+  readFile: (file: File): Promise<string> => file.text(),
+};
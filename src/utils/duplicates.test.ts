@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { duplicateUtils, MergeChoices } from '@/utils/duplicates';
+import { makeBook } from '@/utils/testFixtures';
+
+const STARTED = new Date('2024-05-01T12:00:00Z');
+const FINISHED = new Date('2024-05-20T12:00:00Z');
+
+const KEEP_ALL: MergeChoices = {
+  title: 'keep',
+  author: 'keep',
+  isbn: 'keep',
+  coverUrl: 'keep',
+  pages: 'keep',
+  genre: 'keep',
+  series: 'keep',
+  ownershipType: 'keep',
+  reading: 'keep',
+};
+
+describe('duplicateUtils.findDuplicates', () => {
+  it('pairs books with the same ISBN in any form, oldest first', () => {
+    const older = makeBook({ id: 'a', isbn: '9780441172719' });
+    const newer = makeBook({ id: 'b', title: 'Dune (40th Anniversary)', isbn: '0-441-17271-7', dateAdded: new Date('2024-03-01') });
+    expect(duplicateUtils.findDuplicates([newer, older])).toEqual([{ books: [older, newer], reason: 'isbn', similarity: 1 }]);
+  });
+
+  it('pairs near-identical titles by the same author', () => {
+    const [pair] = duplicateUtils.findDuplicates([
+      makeBook({ id: 'a', title: 'The Lord of the Rings', author: 'J.R.R. Tolkien' }),
+      makeBook({ id: 'b', title: 'Lord of the Rngs', author: 'J. R. R. Tolkien', dateAdded: new Date('2024-03-01') }),
+    ]);
+    expect(pair.reason).toBe('title');
+    expect(pair.books.map(book => book.id)).toEqual(['a', 'b']);
+    expect(pair.similarity).toBeGreaterThan(0.85);
+  });
+
+  it('doesn\'t pair similar titles by different authors or different titles by the same author', () => {
+    expect(duplicateUtils.findDuplicates([
+      makeBook({ id: 'a' }),
+      makeBook({ id: 'b', author: 'Someone Else' }),
+      makeBook({ id: 'c', title: 'Dune Messiah' }),
+    ])).toEqual([]);
+  });
+
+  it('lists a pair matching by ISBN and title once, ISBN matches first', () => {
+    const pairs = duplicateUtils.findDuplicates([
+      makeBook({ id: 'a', isbn: '9780441172719' }),
+      makeBook({ id: 'b', isbn: '9780441172719' }),
+      makeBook({ id: 'c', title: 'Emma', author: 'Jane Austen' }),
+      makeBook({ id: 'd', title: 'Emma.', author: 'Jane Austen' }),
+    ]);
+    expect(pairs.map(pair => [pair.books[0].id, pair.books[1].id, pair.reason])).toEqual([
+      ['a', 'b', 'isbn'],
+      ['c', 'd', 'title'],
+    ]);
+  });
+});
+
+describe('duplicateUtils.defaultChoices', () => {
+  it('keeps the kept book\'s values but fills in what it\'s missing', () => {
+    const keep = makeBook({ pages: 400 });
+    const merge = makeBook({ id: 'b', pages: 600, coverUrl: 'https://example.com/dune.jpg', series: 'Dune', seriesNumber: 1 });
+    expect(duplicateUtils.defaultChoices(keep, merge)).toEqual({ ...KEEP_ALL, coverUrl: 'merge', series: 'merge' });
+  });
+
+  it('takes the current read from the book further along', () => {
+    const keep = makeBook({ status: 'currently-reading', dateStarted: STARTED });
+    const merge = makeBook({ id: 'b', status: 'read', dateStarted: STARTED, dateFinished: FINISHED });
+    expect(duplicateUtils.defaultChoices(keep, merge).reading).toBe('merge');
+    expect(duplicateUtils.defaultChoices(merge, keep).reading).toBe('keep');
+  });
+});
+
+describe('duplicateUtils.buildMerge', () => {
+  it('takes each field from the chosen book and clears ones it doesn\'t have', () => {
+    const keep = makeBook({ pages: 400, genre: 'Sci-fi' });
+    const merge = makeBook({ id: 'b', title: 'Dune (Deluxe)', pages: 600 });
+    expect(duplicateUtils.buildMerge(keep, merge, { ...KEEP_ALL, title: 'merge', genre: 'merge' })).toMatchObject({
+      title: 'Dune (Deluxe)',
+      pages: 400,
+      genre: null,
+    });
+  });
+
+  it('moves the whole current read together', () => {
+    const keep = makeBook({ status: 'currently-reading', dateStarted: STARTED, currentPage: 50 });
+    const merge = makeBook({ id: 'b', status: 'dnf', dateStarted: STARTED, dateFinished: FINISHED, stoppedAtPage: 120, dnfReason: 'Slow' });
+    expect(duplicateUtils.buildMerge(keep, merge, { ...KEEP_ALL, reading: 'merge' })).toMatchObject({
+      status: 'dnf',
+      dateStarted: STARTED,
+      dateFinished: FINISHED,
+      currentPage: null,
+      stoppedAtPage: 120,
+      dnfReason: 'Slow',
+    });
+  });
+
+  it('keeps a finished read that isn\'t chosen as an earlier reading', () => {
+    const earlier = { dateStarted: new Date('2020-01-01'), dateFinished: new Date('2020-02-01'), format: 'print' as const };
+    const keep = makeBook({ status: 'currently-reading', dateStarted: new Date('2024-06-01'), readings: [earlier] });
+    const merge = makeBook({ id: 'b', status: 'read', dateStarted: STARTED, dateFinished: FINISHED, rating: 4 });
+    expect(duplicateUtils.buildMerge(keep, merge, KEEP_ALL).readings).toEqual([
+      earlier,
+      { dateStarted: STARTED, dateFinished: FINISHED, rating: 4, format: 'print' },
+    ]);
+  });
+
+  it('doesn\'t record the same dated read twice', () => {
+    const read = { status: 'read' as const, dateStarted: STARTED, dateFinished: FINISHED };
+    const reading = { dateStarted: new Date('2020-01-01'), dateFinished: new Date('2020-02-01') };
+    const merged = duplicateUtils.buildMerge(
+      makeBook({ ...read, readings: [reading] }),
+      makeBook({ id: 'b', ...read, readings: [reading] }),
+      KEEP_ALL
+    );
+    expect(merged.readings).toEqual([reading]);
+  });
+
+  it('combines shelves and keeps the earlier date added', () => {
+    const keep = makeBook({ shelfIds: ['a', 'b'], dateAdded: new Date('2024-03-01') });
+    const merge = makeBook({ id: 'b', shelfIds: ['b', 'c'] });
+    expect(duplicateUtils.buildMerge(keep, merge, KEEP_ALL)).toMatchObject({
+      readings: null,
+      shelfIds: ['a', 'b', 'c'],
+      dateAdded: merge.dateAdded,
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { Book, BookUpdate, Reading } from '@/types/book';
+import { isbnUtils } from '@/utils/isbn';
+import { libraryMatching } from '@/utils/libraryMatching';
+import { readingStatus } from '@/utils/readingStatus';
+
+export interface DuplicatePair {
+  books: [Book, Book]; // Oldest first, so the copy added first is kept by default
+  reason: 'isbn' | 'title'; // Same ISBN in any form, or similar titles by the same author
+  similarity: number; // Title similarity from 0 to 1; 1 for ISBN matches
+}
+
+// Fields the merge screen offers a choice for. 'reading' is the current read-through as a whole
+// (status, dates, progress and rating) so the merged book never mixes two reads.
+export type MergeField = 'title' | 'author' | 'isbn' | 'coverUrl' | 'pages' | 'genre' | 'series' | 'ownershipType' | 'reading';
+
+// Book fields a merge can take from either copy
+type MergeKey = keyof BookUpdate;
+
+export const MERGE_FIELDS: { field: MergeField; label: string; keys: MergeKey[] }[] = [
+  { field: 'title', label: 'Title', keys: ['title'] },
+  { field: 'author', label: 'Author', keys: ['author'] },
+  { field: 'isbn', label: 'ISBN', keys: ['isbn'] },
+  { field: 'coverUrl', label: 'Cover', keys: ['coverUrl'] },
+  { field: 'pages', label: 'Pages', keys: ['pages'] },
+  { field: 'genre', label: 'Genre', keys: ['genre'] },
+  { field: 'series', label: 'Series', keys: ['series', 'seriesNumber'] },
+  { field: 'ownershipType', label: 'Ownership', keys: ['ownershipType'] },
+  {
+    field: 'reading',
+    label: 'Current read',
+    keys: ['status', 'dateStarted', 'dateFinished', 'rating', 'readingFormat', 'currentPage', 'stoppedAtPage', 'dnfReason'],
+  },
+];
+
+// Which of the two books each merged field comes from
+export type MergeChoices = Record<MergeField, 'keep' | 'merge'>;
+
+// Titles by the same author at least this similar are flagged as possible duplicates
+export const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+const byDateAddedAsc = (a: Book, b: Book) => a.dateAdded.getTime() - b.dateAdded.getTime();
+
+// Letter pairs of a normalized title, ignoring spaces
+const toBigrams = (title: string): string[] => {
+  const text = title.replace(/\s/g, '');
+  return Array.from({ length: Math.max(text.length - 1, 0) }, (_, index) => text.slice(index, index + 2));
+};
+
+// Share of letter pairs two titles have in common (Dice coefficient), so typos, missing
+// punctuation and small wording differences still score high
+const similarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const remaining = [...b];
+  const shared = a.filter(bigram => {
+    const index = remaining.indexOf(bigram);
+    if (index === -1) return false;
+    remaining.splice(index, 1);
+    return true;
+  }).length;
+  return (2 * shared) / (a.length + b.length);
+};
+
+// Copy one field into a merge update, clearing it when the source book doesn't have it
+const copyField = <K extends MergeKey>(updates: BookUpdate, source: Book, key: K) => {
+  updates[key] = source[key] ?? null;
+};
+
+const readingTime = (reading: Reading) => (reading.dateFinished ?? reading.dateStarted)?.getTime() ?? 0;
+const readingKey = (reading: Reading) => `${reading.dateStarted?.getTime() ?? ''}|${reading.dateFinished?.getTime() ?? ''}`;
+
+export const duplicateUtils = {
+  // Find pairs of books that look like the same work: equivalent ISBNs, or near-identical titles by
+  // the same author. Only books sharing an author surname are compared, which keeps large libraries quick.
+  findDuplicates: (books: Book[]): DuplicatePair[] => {
+    const sorted = [...books].sort(byDateAddedAsc);
+    const bigrams = sorted.map(book => toBigrams(libraryMatching.normalizeTitle(book.title)));
+    const pairs: DuplicatePair[] = [];
+    const seen = new Set<string>();
+
+    const addPair = (i: number, j: number, reason: DuplicatePair['reason'], score: number) => {
+      const key = `${i}|${j}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      pairs.push({ books: [sorted[i], sorted[j]], reason, similarity: score });
+    };
+
+    const byIsbn = new Map<string, number[]>();
+    const bySurname = new Map<string, number[]>();
+    sorted.forEach((book, index) => {
+      if (book.isbn) {
+        const key = isbnUtils.matchKey(book.isbn);
+        if (key) byIsbn.set(key, [...(byIsbn.get(key) || []), index]);
+      }
+      new Set(libraryMatching.authorSurnames(book.author)).forEach(surname => {
+        bySurname.set(surname, [...(bySurname.get(surname) || []), index]);
+      });
+    });
+
+    byIsbn.forEach(indexes => {
+      indexes.forEach((i, position) => indexes.slice(position + 1).forEach(j => addPair(i, j, 'isbn', 1)));
+    });
+
+    bySurname.forEach(indexes => {
+      indexes.forEach((i, position) => indexes.slice(position + 1).forEach(j => {
+        const score = similarity(bigrams[i], bigrams[j]);
+        if (score >= TITLE_SIMILARITY_THRESHOLD) addPair(i, j, 'title', score);
+      }));
+    });
+
+    return pairs.sort((a, b) => b.similarity - a.similarity);
+  },
+
+  // Default choices: the kept book's value unless it's missing and the other book has one. The
+  // current read comes from whichever book is further along.
+  defaultChoices: (keep: Book, merge: Book): MergeChoices => {
+    const progress = (book: Book) => ['want-to-read', 'paused', 'currently-reading', 'dnf', 'read'].indexOf(book.status);
+    const choices: MergeChoices = {
+      title: 'keep',
+      author: 'keep',
+      isbn: 'keep',
+      coverUrl: 'keep',
+      pages: 'keep',
+      genre: 'keep',
+      series: 'keep',
+      ownershipType: 'keep',
+      reading: progress(merge) > progress(keep) ? 'merge' : 'keep',
+    };
+    MERGE_FIELDS.forEach(({ field, keys }) => {
+      if (field === 'reading') return;
+      const isMissing = (book: Book) => keys.every(key => book[key] === undefined || book[key] === '');
+      if (isMissing(keep) && !isMissing(merge)) choices[field] = 'merge';
+    });
+    return choices;
+  },
+
+  // Build the update that turns the kept book into the merged one. Earlier readings from both books
+  // are combined, and a finished current read that isn't chosen is kept as an earlier reading, so
+  // no read-through is lost. Shelves are combined and the earlier date added is kept.
+  buildMerge: (keep: Book, merge: Book, choices: MergeChoices): BookUpdate => {
+    const updates: BookUpdate = {};
+    MERGE_FIELDS.forEach(({ field, keys }) => {
+      const source = choices[field] === 'merge' ? merge : keep;
+      keys.forEach(key => copyField(updates, source, key));
+    });
+
+    const current = choices.reading === 'merge' ? merge : keep;
+    const other = current === keep ? merge : keep;
+    const readings = [...(keep.readings || []), ...(merge.readings || [])];
+    if (other.status === 'read') {
+      const otherReading = readingStatus.toCompletedReading(other);
+      const isSameRead = current.status === 'read' && readingKey(otherReading) === readingKey(readingStatus.toCompletedReading(current));
+      if (!isSameRead) readings.push(otherReading);
+    }
+
+    // Both copies may record the same dated read; undated reads can't be told apart, so all are kept
+    const uniqueReadings = readings.filter((reading, index) =>
+      readingKey(reading) === '|' || readings.findIndex(r => readingKey(r) === readingKey(reading)) === index
+    );
+    const shelfIds = [...new Set([...(keep.shelfIds || []), ...(merge.shelfIds || [])])];
+
+    updates.readings = uniqueReadings.length > 0 ? uniqueReadings.sort((a, b) => readingTime(a) - readingTime(b)) : null;
+    updates.shelfIds = shelfIds.length > 0 ? shelfIds : null;
+    updates.dateAdded = merge.dateAdded < keep.dateAdded ? merge.dateAdded : keep.dateAdded;
+    return updates;
+  },
+};
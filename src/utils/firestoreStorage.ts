@@ -1,8 +1,10 @@
 import { 
   collection, 
   doc, 
+  getDoc, 
+  getDocFromCache, 
   getDocs, 
-  addDoc, 
+  setDoc, 
   updateDoc, 
   deleteDoc, 
   query, 
@@ -11,15 +13,47 @@ import {
   onSnapshot,
   Timestamp,
   writeBatch,
+  deleteField,
+  arrayUnion,
+  arrayRemove,
   DocumentData,
+  DocumentReference,
   QueryDocumentSnapshot,
-  UpdateData
+  QueryConstraint,
+  UpdateData,
+  WriteBatch
 } from 'firebase/firestore';
 import { db, auth } from '@/lib/firebase';
-import { Book, ReadingStatus, WishListBook } from '@/types/book';
+import { Book, BookNote, BookUpdate, Highlight, Reading, ReadingSession, ReadingStatus, Shelf, ShelfColor, WishListBook, WishListBookUpdate } from '@/types/book';
+import { AddConflict, AddOptions, AddResult, LibraryData, LibraryRepository, LibraryTable, MoveToLibraryOptions, ReadingStats } from '@/types/repository';
+import { backupUtils, LIBRARY_TABLES } from '@/utils/backup';
+import { syncStatus } from '@/utils/syncStatus';
+import { LEGACY_BOOKS_KEY } from '@/utils/storage';
+import { isbnUtils } from '@/utils/isbn';
+import { libraryMatching } from '@/utils/libraryMatching';
+import { wishListUtils } from '@/utils/wishList';
 
 const COLLECTION_NAME = 'books';
 const WISHLIST_COLLECTION_NAME = 'wishlist';
+const READING_SESSIONS_COLLECTION_NAME = 'readingSessions';
+const NOTES_COLLECTION_NAME = 'notes';
+const HIGHLIGHTS_COLLECTION_NAME = 'highlights';
+const SHELVES_COLLECTION_NAME = 'shelves';
+
+const TABLE_COLLECTION_NAMES: Record<LibraryTable, string> = {
+  books: COLLECTION_NAME,
+  wishlist: WISHLIST_COLLECTION_NAME,
+  readingSessions: READING_SESSIONS_COLLECTION_NAME,
+  notes: NOTES_COLLECTION_NAME,
+  highlights: HIGHLIGHTS_COLLECTION_NAME,
+  shelves: SHELVES_COLLECTION_NAME,
+};
+
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 500;
+
+// How many times mergeBooks re-checks for sessions, notes and highlights added to a duplicate while moving them
+const MAX_MERGE_PASSES = 3;
 
 // Get current user ID or throw error if not authenticated
 const getCurrentUserId = (): string => {
@@ -29,6 +63,27 @@ const getCurrentUserId = (): string => {
   return auth.currentUser.uid;
 };
 
+// Convert stored reading history entries to Reading objects
+const convertFirestoreReadings = (readings: DocumentData[] | undefined): Reading[] | undefined => {
+  if (!Array.isArray(readings) || readings.length === 0) return undefined;
+  return readings.map(reading => ({
+    dateStarted: reading.dateStarted?.toDate(),
+    dateFinished: reading.dateFinished?.toDate(),
+    rating: reading.rating ?? undefined,
+    format: reading.format ?? undefined,
+  }));
+};
+
+// Convert Reading objects to Firestore-safe maps
+const convertReadingsToFirestore = (readings: Reading[]) => {
+  return readings.map(reading => ({
+    dateStarted: reading.dateStarted ? Timestamp.fromDate(reading.dateStarted) : null,
+    dateFinished: reading.dateFinished ? Timestamp.fromDate(reading.dateFinished) : null,
+    rating: reading.rating ?? null,
+    format: reading.format ?? null,
+  }));
+};
+
 // Convert Firestore document to Book object
 const convertFirestoreDoc = (doc: QueryDocumentSnapshot<DocumentData>): Book => {
   const data = doc.data();
@@ -40,13 +95,24 @@ const convertFirestoreDoc = (doc: QueryDocumentSnapshot<DocumentData>): Book =>
     coverUrl: data.coverUrl,
     pages: data.pages,
     genre: data.genre,
+    publisher: data.publisher,
+    publishedYear: data.publishedYear,
+    description: data.description,
     status: data.status,
     ownershipType: data.ownershipType || 'physical', // Default to physical for existing books
     dateAdded: data.dateAdded?.toDate() || new Date(),
     dateStarted: data.dateStarted?.toDate(),
     dateFinished: data.dateFinished?.toDate(),
     rating: data.rating,
+    readingFormat: data.readingFormat || undefined,
+    readings: convertFirestoreReadings(data.readings),
     currentPage: data.currentPage,
+    shelfIds: data.shelfIds || [],
+    dnfReason: data.dnfReason || undefined,
+    stoppedAtPage: data.stoppedAtPage ?? undefined,
+    series: data.series || undefined,
+    seriesNumber: data.seriesNumber ?? undefined,
+    pendingSync: doc.metadata.hasPendingWrites || undefined,
     userId: data.userId,
   };
 };
@@ -65,6 +131,69 @@ const convertWishListFirestoreDoc = (doc: QueryDocumentSnapshot<DocumentData>):
     publisher: data.publisher,
     publishedYear: data.publishedYear,
     description: data.description,
+    priority: data.priority,
+    notes: data.notes,
+    recommendedBy: data.recommendedBy,
+    targetPrice: data.targetPrice,
+    dateAdded: data.dateAdded?.toDate() || new Date(),
+    userId: data.userId,
+  };
+};
+
+// Convert Firestore document to ReadingSession object
+const convertReadingSessionFirestoreDoc = (doc: QueryDocumentSnapshot<DocumentData>): ReadingSession => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    bookId: data.bookId,
+    startTime: data.startTime?.toDate() || new Date(),
+    endTime: data.endTime?.toDate() || new Date(),
+    startPage: data.startPage ?? undefined,
+    endPage: data.endPage ?? undefined,
+    startPercent: data.startPercent ?? undefined,
+    endPercent: data.endPercent ?? undefined,
+    note: data.note || undefined,
+    userId: data.userId,
+  };
+};
+
+// Convert Firestore document to BookNote object
+const convertNoteFirestoreDoc = (doc: QueryDocumentSnapshot<DocumentData>): BookNote => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    bookId: data.bookId,
+    type: data.type || 'note',
+    content: data.content || '',
+    page: data.page ?? undefined,
+    dateAdded: data.dateAdded?.toDate() || new Date(),
+    dateUpdated: data.dateUpdated?.toDate(),
+    userId: data.userId,
+  };
+};
+
+// Convert Firestore document to Highlight object
+const convertHighlightFirestoreDoc = (doc: QueryDocumentSnapshot<DocumentData>): Highlight => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    bookId: data.bookId,
+    type: data.type || 'highlight',
+    content: data.content || '',
+    page: data.page ?? undefined,
+    location: data.location || undefined,
+    dateAdded: data.dateAdded?.toDate() || new Date(),
+    userId: data.userId,
+  };
+};
+
+// Convert Firestore document to Shelf object
+const convertShelfFirestoreDoc = (doc: QueryDocumentSnapshot<DocumentData>): Shelf => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    name: data.name,
+    color: data.color || 'blue',
     dateAdded: data.dateAdded?.toDate() || new Date(),
     userId: data.userId,
   };
@@ -73,10 +202,13 @@ const convertWishListFirestoreDoc = (doc: QueryDocumentSnapshot<DocumentData>):
 // Convert Book object to Firestore document
 const convertToFirestoreDoc = (book: Omit<Book, 'id'>, userId: string) => {
   return {
-    ...book,
+    ...isbnUtils.withCanonicalIsbn(book),
+    titleKey: libraryMatching.normalizeTitle(book.title), // For finding the same work without reading the whole library
+    pendingSync: undefined, // Local sync state only, dropped by ignoreUndefinedProperties
     dateAdded: book.dateAdded ? Timestamp.fromDate(book.dateAdded) : Timestamp.now(),
     dateStarted: book.dateStarted ? Timestamp.fromDate(book.dateStarted) : null,
     dateFinished: book.dateFinished ? Timestamp.fromDate(book.dateFinished) : null,
+    readings: book.readings ? convertReadingsToFirestore(book.readings) : [],
     userId: userId,
   };
 };
@@ -84,13 +216,161 @@ const convertToFirestoreDoc = (book: Omit<Book, 'id'>, userId: string) => {
 // Convert WishListBook object to Firestore document
 const convertWishListToFirestoreDoc = (book: Omit<WishListBook, 'id'>, userId: string) => {
   return {
-    ...book,
+    ...isbnUtils.withCanonicalIsbn(book),
+    titleKey: libraryMatching.normalizeTitle(book.title),
     dateAdded: book.dateAdded ? Timestamp.fromDate(book.dateAdded) : Timestamp.now(),
     userId: userId,
   };
 };
 
-export const firestoreStorage = {
+// Convert ReadingSession object to Firestore document
+const convertReadingSessionToFirestoreDoc = (session: Omit<ReadingSession, 'id'>, userId: string) => {
+  return {
+    bookId: session.bookId,
+    startTime: Timestamp.fromDate(session.startTime),
+    endTime: Timestamp.fromDate(session.endTime),
+    startPage: session.startPage ?? null,
+    endPage: session.endPage ?? null,
+    startPercent: session.startPercent ?? null,
+    endPercent: session.endPercent ?? null,
+    note: session.note || null,
+    userId: userId,
+  };
+};
+
+// Convert BookNote object to Firestore document
+const convertNoteToFirestoreDoc = (note: Omit<BookNote, 'id'>, userId: string) => {
+  return {
+    bookId: note.bookId,
+    type: note.type,
+    content: note.content,
+    page: note.page ?? null,
+    dateAdded: Timestamp.fromDate(note.dateAdded),
+    ...(note.dateUpdated && { dateUpdated: Timestamp.fromDate(note.dateUpdated) }),
+    userId: userId,
+  };
+};
+
+// Convert Highlight object to Firestore document
+const convertHighlightToFirestoreDoc = (highlight: Omit<Highlight, 'id'>, userId: string) => {
+  return {
+    bookId: highlight.bookId,
+    type: highlight.type,
+    content: highlight.content,
+    page: highlight.page ?? null,
+    location: highlight.location ?? null,
+    dateAdded: Timestamp.fromDate(highlight.dateAdded),
+    userId: userId,
+  };
+};
+
+// Convert Shelf object to Firestore document
+const convertShelfToFirestoreDoc = (shelf: Omit<Shelf, 'id'>, userId: string) => {
+  return {
+    name: shelf.name,
+    color: shelf.color,
+    dateAdded: Timestamp.fromDate(shelf.dateAdded),
+    userId: userId,
+  };
+};
+
+// Convert a book update for Firestore: undefined values are skipped, null removes the field and
+// dates become Timestamps
+const convertBookUpdateToFirestore = (updates: BookUpdate): UpdateData<DocumentData> => {
+  const firestoreUpdates = {} as UpdateData<DocumentData>;
+  
+  Object.entries(isbnUtils.withCanonicalIsbn(updates)).forEach(([key, value]) => {
+    if (key === 'pendingSync') return;
+    if (value === null) {
+      firestoreUpdates[key] = deleteField();
+    } else if (value !== undefined) {
+      if (key === 'dateStarted' && value instanceof Date) {
+        firestoreUpdates.dateStarted = Timestamp.fromDate(value);
+      } else if (key === 'dateFinished' && value instanceof Date) {
+        firestoreUpdates.dateFinished = Timestamp.fromDate(value);
+      } else if (key === 'dateAdded' && value instanceof Date) {
+        firestoreUpdates.dateAdded = Timestamp.fromDate(value);
+      } else if (key === 'readings' && Array.isArray(value)) {
+        firestoreUpdates.readings = convertReadingsToFirestore(value as Reading[]);
+      } else if (key === 'title' && typeof value === 'string') {
+        firestoreUpdates.title = value;
+        firestoreUpdates.titleKey = libraryMatching.normalizeTitle(value);
+      } else {
+        firestoreUpdates[key] = value;
+      }
+    }
+  });
+  
+  return firestoreUpdates;
+};
+
+// Run writes in as many batches as needed to stay under Firestore's batch limit
+const commitInBatches = async (writes: ((batch: WriteBatch) => void)[], description: string): Promise<void> => {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await syncStatus.queueWrite(batch.commit(), description);
+  }
+};
+
+// Writes that add a set of records for a user with new ids, linking sessions, notes, highlights and
+// shelf memberships to the new ids
+const buildImportWrites = (data: LibraryData, userId: string): ((batch: WriteBatch) => void)[] => {
+  const imported = backupUtils.assignNewIds(data, table => doc(collection(db, TABLE_COLLECTION_NAMES[table])).id);
+  const ref = (table: LibraryTable, id: string) => doc(db, TABLE_COLLECTION_NAMES[table], id);
+
+  return [
+    ...imported.shelves.map(({ id, ...shelf }) => (batch: WriteBatch) => {
+      batch.set(ref('shelves', id), convertShelfToFirestoreDoc(shelf, userId));
+    }),
+    ...imported.books.map(({ id, ...book }) => (batch: WriteBatch) => {
+      batch.set(ref('books', id), convertToFirestoreDoc(book, userId));
+    }),
+    ...imported.wishlist.map(({ id, ...book }) => (batch: WriteBatch) => {
+      batch.set(ref('wishlist', id), convertWishListToFirestoreDoc(book, userId));
+    }),
+    ...imported.readingSessions.map(({ id, ...session }) => (batch: WriteBatch) => {
+      batch.set(ref('readingSessions', id), convertReadingSessionToFirestoreDoc(session, userId));
+    }),
+    ...imported.notes.map(({ id, ...note }) => (batch: WriteBatch) => {
+      batch.set(ref('notes', id), convertNoteToFirestoreDoc(note, userId));
+    }),
+    ...imported.highlights.map(({ id, ...highlight }) => (batch: WriteBatch) => {
+      batch.set(ref('highlights', id), convertHighlightToFirestoreDoc(highlight, userId));
+    }),
+  ];
+};
+
+// Every document in a user's library, across all tables
+const getLibraryDocRefs = async (userId: string): Promise<DocumentReference[]> => {
+  const snapshots = await Promise.all(LIBRARY_TABLES.map(table =>
+    getDocs(query(collection(db, TABLE_COLLECTION_NAMES[table]), where('userId', '==', userId)))
+  ));
+  return snapshots.flatMap(snapshot => snapshot.docs.map(document => document.ref));
+};
+
+// Documents in a collection that could be the same work as a book: the same ISBN in any form, the
+// same normalized title, or the same title as typed (for records saved before titleKey was stored).
+// The author is checked afterwards by libraryMatching.
+const findSameWorkCandidates = async (
+  collectionName: string,
+  book: Pick<Book, 'title' | 'author' | 'isbn'>
+): Promise<QueryDocumentSnapshot<DocumentData>[]> => {
+  const userId = getCurrentUserId();
+  const lookup = (...constraints: QueryConstraint[]) =>
+    getDocs(query(collection(db, collectionName), where('userId', '==', userId), ...constraints));
+
+  const titleKey = libraryMatching.normalizeTitle(book.title);
+  const lookups = [lookup(where('title', '==', book.title.trim()))];
+  if (titleKey) lookups.push(lookup(where('titleKey', '==', titleKey)));
+  if (book.isbn) lookups.push(lookup(where('isbn', 'in', isbnUtils.variants(book.isbn))));
+
+  const snapshots = await Promise.all(lookups);
+  const docs = new Map(snapshots.flatMap(snapshot => snapshot.docs).map(doc => [doc.id, doc]));
+  return [...docs.values()];
+};
+
+export const firestoreStorage: LibraryRepository & { migrateFromLocalStorage: () => Promise<void> } = {
   // Get all books from Firestore for current user
   getBooks: async (): Promise<Book[]> => {
     try {
@@ -109,16 +389,29 @@ export const firestoreStorage = {
     }
   },
 
+  // Get one of the current user's books by id, reading just that document
+  getBook: async (id: string): Promise<Book | null> => {
+    try {
+      const userId = getCurrentUserId();
+      const snapshot = await getDoc(doc(db, COLLECTION_NAME, id));
+      return snapshot.exists() && snapshot.data().userId === userId ? convertFirestoreDoc(snapshot) : null;
+    } catch (error) {
+      console.error('Error loading book from Firestore:', error);
+      return null;
+    }
+  },
+
   // Add a new book to Firestore for current user
   addBook: async (book: Omit<Book, 'id' | 'dateAdded'>): Promise<Book> => {
     try {
       const userId = getCurrentUserId();
       const newBook = {
-        ...book,
+        ...isbnUtils.withCanonicalIsbn(book),
         dateAdded: new Date(),
       };
       
-      const docRef = await addDoc(collection(db, COLLECTION_NAME), convertToFirestoreDoc(newBook, userId));
+      const docRef = doc(collection(db, COLLECTION_NAME));
+      await syncStatus.queueWrite(setDoc(docRef, convertToFirestoreDoc(newBook, userId)), `Add "${book.title}"`);
       
       return {
         id: docRef.id,
@@ -132,37 +425,17 @@ export const firestoreStorage = {
   },
 
   // Update an existing book in Firestore for current user
-  updateBook: async (id: string, updates: Partial<Book>): Promise<Book | null> => {
+  // Fields set to null in the updates are removed from the document
+  updateBook: async (id: string, updates: BookUpdate): Promise<Book | null> => {
     try {
-      const userId = getCurrentUserId();
       const docRef = doc(db, COLLECTION_NAME, id);
       
-      // Filter out undefined values and convert date objects to Timestamps for Firestore
-      const firestoreUpdates = {} as UpdateData<DocumentData>;
+      await syncStatus.queueWrite(updateDoc(docRef, convertBookUpdateToFirestore(updates)), 'Update book');
       
-      Object.entries(updates).forEach(([key, value]) => {
-        if (value !== undefined) {
-          if (key === 'dateStarted' && value instanceof Date) {
-            firestoreUpdates.dateStarted = Timestamp.fromDate(value);
-          } else if (key === 'dateFinished' && value instanceof Date) {
-            firestoreUpdates.dateFinished = Timestamp.fromDate(value);
-          } else if (key === 'dateAdded' && value instanceof Date) {
-            firestoreUpdates.dateAdded = Timestamp.fromDate(value);
-          } else {
-            firestoreUpdates[key] = value;
-          }
-        }
-      });
-      
-      await updateDoc(docRef, firestoreUpdates);
-      
-      // Return the updated book (we'll need to fetch it)
-      const booksCollection = collection(db, COLLECTION_NAME);
-      const q = query(booksCollection, where('userId', '==', userId));
-      const querySnapshot = await getDocs(q);
-      const updatedDoc = querySnapshot.docs.find(doc => doc.id === id);
-      
-      return updatedDoc ? convertFirestoreDoc(updatedDoc) : null;
+      // Firestore applies the update to its local cache straight away, so the merged book is read
+      // from there; the server is only asked when the book isn't cached
+      const snapshot = await getDocFromCache(docRef).catch(() => getDoc(docRef));
+      return snapshot.exists() ? convertFirestoreDoc(snapshot) : null;
     } catch (error) {
       console.error('Error updating book in Firestore:', error);
       return null;
@@ -173,7 +446,18 @@ export const firestoreStorage = {
   deleteBook: async (id: string): Promise<boolean> => {
     try {
       const docRef = doc(db, COLLECTION_NAME, id);
-      await deleteDoc(docRef);
+      await syncStatus.queueWrite(deleteDoc(docRef), 'Delete book');
+
+      // Remove the book's reading sessions, notes and highlights so they don't linger without a book
+      const sessions = await firestoreStorage.getReadingSessions(id);
+      const notes = await firestoreStorage.getBookNotes(id);
+      const highlights = await firestoreStorage.getHighlights(id);
+      const writes = [
+        ...sessions.map(session => doc(db, READING_SESSIONS_COLLECTION_NAME, session.id)),
+        ...notes.map(note => doc(db, NOTES_COLLECTION_NAME, note.id)),
+        ...highlights.map(highlight => doc(db, HIGHLIGHTS_COLLECTION_NAME, highlight.id)),
+      ].map(attachedRef => (batch: WriteBatch) => batch.delete(attachedRef));
+      await commitInBatches(writes, 'Delete reading sessions, notes and highlights');
       return true;
     } catch (error) {
       console.error('Error deleting book from Firestore:', error);
@@ -181,6 +465,80 @@ export const firestoreStorage = {
     }
   },
 
+  // Merge a duplicate into another book for current user. Reading sessions, notes and highlights are moved
+  // first, in as many batches as they need; the kept book's update and the duplicate's delete are
+  // only committed once nothing is left pointing at the duplicate. If a move fails, both books
+  // are still there and the merge can simply be run again.
+  mergeBooks: async (keepId: string, mergeId: string, updates: BookUpdate): Promise<boolean> => {
+    try {
+      const userId = getCurrentUserId();
+      // Unlike getReadingSessions and getBookNotes these throw on failure, so a failed read can't
+      // look like there's nothing left to move
+      const findAttached = (collectionName: string) =>
+        getDocs(query(collection(db, collectionName), where('userId', '==', userId), where('bookId', '==', mergeId)));
+
+      // Sessions, notes or highlights added to the duplicate while moving are picked up by the next pass
+      for (let pass = 0; ; pass++) {
+        const [sessions, notes, highlights] = await Promise.all([
+          findAttached(READING_SESSIONS_COLLECTION_NAME),
+          findAttached(NOTES_COLLECTION_NAME),
+          findAttached(HIGHLIGHTS_COLLECTION_NAME),
+        ]);
+        const attached = [...sessions.docs, ...notes.docs, ...highlights.docs];
+        if (attached.length === 0) break;
+        if (pass === MAX_MERGE_PASSES) throw new Error('Reading sessions, notes or highlights are still being added to the duplicate');
+
+        await commitInBatches(
+          attached.map(attachedDoc => (batch: WriteBatch) => batch.update(attachedDoc.ref, { bookId: keepId })),
+          'Merge books'
+        );
+      }
+
+      const batch = writeBatch(db);
+      batch.update(doc(db, COLLECTION_NAME, keepId), convertBookUpdateToFirestore(updates));
+      batch.delete(doc(db, COLLECTION_NAME, mergeId));
+      await syncStatus.queueWrite(batch.commit(), 'Merge books');
+      return true;
+    } catch (error) {
+      console.error('Error merging books in Firestore:', error);
+      return false;
+    }
+  },
+
+  // Look for the same work in the library, then the wish list, for current user. Only the
+  // candidates from findSameWorkCandidates are read, never the whole library.
+  findSameWork: async (book: Pick<Book, 'title' | 'author' | 'isbn'>): Promise<AddConflict | null> => {
+    try {
+      const [bookDocs, wishListDocs] = await Promise.all([
+        findSameWorkCandidates(COLLECTION_NAME, book),
+        findSameWorkCandidates(WISHLIST_COLLECTION_NAME, book),
+      ]);
+      return libraryMatching.findSameWork(
+        book,
+        bookDocs.map(convertFirestoreDoc),
+        wishListDocs.map(convertWishListFirestoreDoc)
+      );
+    } catch (error) {
+      // As with checkBookExists, a failed check doesn't block the add
+      console.error('Error checking for the same work in Firestore:', error);
+      return null;
+    }
+  },
+
+  // Add a book to Firestore unless the same work is already saved
+  addBookChecked: async (book: Omit<Book, 'id' | 'dateAdded'>, options: AddOptions = {}): Promise<AddResult<Book>> => {
+    const conflict = options.allowDuplicate ? null : await firestoreStorage.findSameWork(book);
+    if (conflict) return { status: 'conflict', conflict };
+    return { status: 'added', book: await firestoreStorage.addBook(book) };
+  },
+
+  // Add a book to the wish list unless the same work is already saved
+  addWishListBookChecked: async (book: Omit<WishListBook, 'id' | 'dateAdded'>, options: AddOptions = {}): Promise<AddResult<WishListBook>> => {
+    const conflict = options.allowDuplicate ? null : await firestoreStorage.findSameWork(book);
+    if (conflict) return { status: 'conflict', conflict };
+    return { status: 'added', book: await firestoreStorage.addWishListBook(book) };
+  },
+
   // Get books by status from Firestore for current user
   getBooksByStatus: async (status: ReadingStatus): Promise<Book[]> => {
     try {
@@ -201,7 +559,7 @@ export const firestoreStorage = {
   },
 
   // Get reading statistics for current user
-  getReadingStats: async () => {
+  getReadingStats: async (): Promise<ReadingStats> => {
     try {
       const books = await firestoreStorage.getBooks();
       const wishListBooks = await firestoreStorage.getWishListBooks();
@@ -209,6 +567,9 @@ export const firestoreStorage = {
         total: books.length,
         read: books.filter(book => book.status === 'read').length,
         currentlyReading: books.filter(book => book.status === 'currently-reading').length,
+        wantToRead: books.filter(book => book.status === 'want-to-read').length,
+        paused: books.filter(book => book.status === 'paused').length,
+        dnf: books.filter(book => book.status === 'dnf').length,
         wishList: wishListBooks.length,
       };
     } catch (error) {
@@ -218,6 +579,8 @@ export const firestoreStorage = {
         read: 0,
         currentlyReading: 0,
         wantToRead: 0,
+        paused: 0,
+        dnf: 0,
         wishList: 0,
       };
     }
@@ -232,7 +595,7 @@ export const firestoreStorage = {
       const q = query(
         collection(db, COLLECTION_NAME),
         where('userId', '==', userId),
-        where('isbn', '==', isbn)
+        where('isbn', 'in', isbnUtils.variants(isbn))
       );
       
       const querySnapshot = await getDocs(q);
@@ -258,7 +621,8 @@ export const firestoreStorage = {
       orderBy('dateAdded', 'desc')
     );
 
-    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+    // Include metadata changes so books are updated once their pending writes reach the server
+    const unsubscribe = onSnapshot(q, { includeMetadataChanges: true }, (querySnapshot) => {
       const books = querySnapshot.docs.map(convertFirestoreDoc);
       callback(books);
     }, (error) => {
@@ -269,13 +633,29 @@ export const firestoreStorage = {
     return unsubscribe;
   },
 
-  // Migrate data from localStorage to Firestore for current user (one-time operation)
+  // Set up real-time listener for a single book
+  onBookChange: (id: string, callback: (book: Book | null) => void, onError?: (error: Error) => void): (() => void) => {
+    const userId = getCurrentUserId();
+
+    // Include metadata changes so the book is updated once its pending writes reach the server
+    const unsubscribe = onSnapshot(doc(db, COLLECTION_NAME, id), { includeMetadataChanges: true }, (snapshot) => {
+      callback(snapshot.exists() && snapshot.data().userId === userId ? convertFirestoreDoc(snapshot) : null);
+    }, (error) => {
+      console.error('Error in book listener:', error);
+      onError?.(error);
+    });
+
+    return unsubscribe;
+  },
+
+  // Migrate books saved by the old localStorage storage to Firestore for current user (one-time operation).
+  // Only the legacy key is read and cleared; the local backend keeps its own copy under a different key.
   migrateFromLocalStorage: async (): Promise<void> => {
     try {
       const userId = getCurrentUserId();
       
       // Check if we have localStorage data
-      const localData = localStorage.getItem('novel-noted-books');
+      const localData = localStorage.getItem(LEGACY_BOOKS_KEY);
       if (!localData) return;
 
       const localBooks = JSON.parse(localData);
@@ -299,10 +679,10 @@ export const firestoreStorage = {
         batch.set(docRef, bookData);
       }
 
-      await batch.commit();
+      await syncStatus.queueWrite(batch.commit(), 'Move books from this device to your account');
       
       // Clear localStorage after successful migration
-      localStorage.removeItem('novel-noted-books');
+      localStorage.removeItem(LEGACY_BOOKS_KEY);
       console.log('Migration completed successfully!');
     } catch (error) {
       console.error('Error migrating data from localStorage:', error);
@@ -329,44 +709,67 @@ export const firestoreStorage = {
     }
   },
 
+  // Get one of the current user's wish list books by id, reading just that document
+  getWishListBook: async (id: string): Promise<WishListBook | null> => {
+    try {
+      const userId = getCurrentUserId();
+      const snapshot = await getDoc(doc(db, WISHLIST_COLLECTION_NAME, id));
+      return snapshot.exists() && snapshot.data().userId === userId ? convertWishListFirestoreDoc(snapshot) : null;
+    } catch (error) {
+      console.error('Error loading wish list book from Firestore:', error);
+      return null;
+    }
+  },
+
   // Add a new book to wish list for current user
   addWishListBook: async (book: Omit<WishListBook, 'id' | 'dateAdded'>): Promise<WishListBook> => {
     try {
       const userId = getCurrentUserId();
-      console.log('🔍 Firebase: Adding wish list book for user:', userId);
-      console.log('🔍 Firebase: Book data:', book);
-      
       const newBook = {
-        ...book,
+        ...isbnUtils.withCanonicalIsbn(book),
         dateAdded: new Date(),
       };
       
-      const firestoreData = convertWishListToFirestoreDoc(newBook, userId);
-      console.log('🔍 Firebase: Converted Firestore data:', firestoreData);
-      
-      console.log('🔍 Firebase: Adding to collection:', WISHLIST_COLLECTION_NAME);
-      const docRef = await addDoc(collection(db, WISHLIST_COLLECTION_NAME), firestoreData);
-      console.log('✅ Firebase: Document added with ID:', docRef.id);
+      const docRef = doc(collection(db, WISHLIST_COLLECTION_NAME));
+      await syncStatus.queueWrite(setDoc(docRef, convertWishListToFirestoreDoc(newBook, userId)), `Add "${book.title}" to wish list`);
       
-      const result = {
+      return {
         id: docRef.id,
         ...newBook,
         userId,
       };
-      
-      console.log('✅ Firebase: Returning result:', result);
-      return result;
     } catch (error) {
-      console.error('❌ Firebase: Error adding book to wish list:', error);
+      console.error('Error adding book to wish list in Firestore:', error);
       throw error;
     }
   },
 
+  // Update a book on the wish list; null removes a field
+  updateWishListBook: async (id: string, updates: WishListBookUpdate): Promise<boolean> => {
+    try {
+      const firestoreUpdates = {} as UpdateData<DocumentData>;
+      Object.entries(isbnUtils.withCanonicalIsbn(updates)).forEach(([key, value]) => {
+        if (value === null) {
+          firestoreUpdates[key] = deleteField();
+        } else if (value !== undefined) {
+          firestoreUpdates[key] = value;
+        }
+      });
+      if (updates.title) firestoreUpdates.titleKey = libraryMatching.normalizeTitle(updates.title);
+
+      await syncStatus.queueWrite(updateDoc(doc(db, WISHLIST_COLLECTION_NAME, id), firestoreUpdates), 'Update wish list book');
+      return true;
+    } catch (error) {
+      console.error('Error updating wish list book in Firestore:', error);
+      return false;
+    }
+  },
+
   // Delete a book from wish list for current user
   deleteWishListBook: async (id: string): Promise<boolean> => {
     try {
       const docRef = doc(db, WISHLIST_COLLECTION_NAME, id);
-      await deleteDoc(docRef);
+      await syncStatus.queueWrite(deleteDoc(docRef), 'Remove book from wish list');
       return true;
     } catch (error) {
       console.error('Error deleting book from wish list:', error);
@@ -383,7 +786,7 @@ export const firestoreStorage = {
       const q = query(
         collection(db, WISHLIST_COLLECTION_NAME),
         where('userId', '==', userId),
-        where('isbn', '==', isbn)
+        where('isbn', 'in', isbnUtils.variants(isbn))
       );
       
       const querySnapshot = await getDocs(q);
@@ -401,37 +804,45 @@ export const firestoreStorage = {
   },
 
   // Move a book from wish list to main collection
-  moveWishListBookToCollection: async (wishListBookId: string, status: ReadingStatus = 'currently-reading'): Promise<Book | null> => {
+  // The new book, its note and the wish list removal are written in one batch, so the book is never
+  // left in both places or neither
+  moveWishListBookToCollection: async (
+    wishListBookId: string,
+    { status = 'currently-reading', ownershipType = 'physical' }: MoveToLibraryOptions = {}
+  ): Promise<Book | null> => {
     try {
-      // Get the wish list book
-      const wishListBooks = await firestoreStorage.getWishListBooks();
-      const wishListBook = wishListBooks.find(book => book.id === wishListBookId);
+      const userId = getCurrentUserId();
+      const wishListRef = doc(db, WISHLIST_COLLECTION_NAME, wishListBookId);
+      const snapshot = await getDoc(wishListRef);
       
-      if (!wishListBook) {
+      if (!snapshot.exists()) {
         throw new Error('Wish list book not found');
       }
 
-      // Create a new book object from wish list book
-      const newBook: Omit<Book, 'id' | 'dateAdded'> = {
-        title: wishListBook.title,
-        author: wishListBook.author,
-        isbn: wishListBook.isbn,
-        coverUrl: wishListBook.coverUrl,
-        pages: wishListBook.pages,
-        genre: wishListBook.genre,
-        status: status,
-        ownershipType: 'physical', // Default to physical when moving from wish list
-        dateStarted: status === 'currently-reading' ? new Date() : undefined,
-        dateFinished: status === 'read' ? new Date() : undefined,
+      const wishListBook = convertWishListFirestoreDoc(snapshot);
+      const newBook = {
+        ...wishListUtils.toLibraryBook(wishListBook, status, ownershipType),
+        dateAdded: new Date(),
       };
-
-      // Add to main collection
-      const addedBook = await firestoreStorage.addBook(newBook);
+      const noteContent = wishListUtils.toNoteContent(wishListBook);
       
-      // Remove from wish list
-      await firestoreStorage.deleteWishListBook(wishListBookId);
+      const bookRef = doc(collection(db, COLLECTION_NAME));
+      const batch = writeBatch(db);
+      batch.set(bookRef, convertToFirestoreDoc(newBook, userId));
+      if (noteContent) {
+        batch.set(
+          doc(collection(db, NOTES_COLLECTION_NAME)),
+          convertNoteToFirestoreDoc({ bookId: bookRef.id, type: 'note', content: noteContent, dateAdded: newBook.dateAdded }, userId)
+        );
+      }
+      batch.delete(wishListRef);
+      await syncStatus.queueWrite(batch.commit(), `Move "${wishListBook.title}" to library`);
       
-      return addedBook;
+      return {
+        id: bookRef.id,
+        ...newBook,
+        userId,
+      };
     } catch (error) {
       console.error('Error moving book from wish list to collection:', error);
       return null;
@@ -441,7 +852,6 @@ export const firestoreStorage = {
   // Set up real-time listener for wish list books for current user
   onWishListBooksChange: (callback: (books: WishListBook[]) => void): (() => void) => {
     const userId = getCurrentUserId();
-    console.log('🔍 Firebase: Setting up wish list listener for user:', userId);
     
     const q = query(
       collection(db, WISHLIST_COLLECTION_NAME),
@@ -450,10 +860,7 @@ export const firestoreStorage = {
     );
 
     const unsubscribe = onSnapshot(q, (querySnapshot) => {
-      console.log('🔍 Firebase: Wish list snapshot received, docs count:', querySnapshot.docs.length);
-      const books = querySnapshot.docs.map(convertWishListFirestoreDoc);
-      console.log('🔍 Firebase: Converted wish list books:', books);
-      callback(books);
+      callback(querySnapshot.docs.map(convertWishListFirestoreDoc));
     }, (error) => {
       console.error('❌ Firebase: Error in wish list books listener:', error);
       callback([]);
@@ -461,4 +868,405 @@ export const firestoreStorage = {
 
     return unsubscribe;
   },
+
+  // READING SESSION METHODS
+
+  // Get all reading sessions for a book, oldest first
+  getReadingSessions: async (bookId: string): Promise<ReadingSession[]> => {
+    try {
+      const userId = getCurrentUserId();
+      const q = query(
+        collection(db, READING_SESSIONS_COLLECTION_NAME),
+        where('userId', '==', userId),
+        where('bookId', '==', bookId),
+        orderBy('startTime', 'asc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(convertReadingSessionFirestoreDoc);
+    } catch (error) {
+      console.error('Error loading reading sessions from Firestore:', error);
+      return [];
+    }
+  },
+
+  // Log a reading session for a book and move the book's current page to where the session ended
+  addReadingSession: async (session: Omit<ReadingSession, 'id'>): Promise<ReadingSession> => {
+    try {
+      const userId = getCurrentUserId();
+      const docRef = doc(collection(db, READING_SESSIONS_COLLECTION_NAME));
+      await syncStatus.queueWrite(
+        setDoc(docRef, convertReadingSessionToFirestoreDoc(session, userId)),
+        'Log reading session'
+      );
+
+      if (session.endPage !== undefined) {
+        await syncStatus.queueWrite(
+          updateDoc(doc(db, COLLECTION_NAME, session.bookId), { currentPage: session.endPage }),
+          'Update current page'
+        );
+      }
+
+      return {
+        id: docRef.id,
+        ...session,
+        userId,
+      };
+    } catch (error) {
+      console.error('Error adding reading session to Firestore:', error);
+      throw error;
+    }
+  },
+
+  // Delete a reading session
+  deleteReadingSession: async (id: string): Promise<boolean> => {
+    try {
+      await syncStatus.queueWrite(deleteDoc(doc(db, READING_SESSIONS_COLLECTION_NAME, id)), 'Delete reading session');
+      return true;
+    } catch (error) {
+      console.error('Error deleting reading session from Firestore:', error);
+      return false;
+    }
+  },
+
+  // Set up real-time listener for the reading sessions of a book
+  onReadingSessionsChange: (bookId: string, callback: (sessions: ReadingSession[]) => void): (() => void) => {
+    const userId = getCurrentUserId();
+    const q = query(
+      collection(db, READING_SESSIONS_COLLECTION_NAME),
+      where('userId', '==', userId),
+      where('bookId', '==', bookId),
+      orderBy('startTime', 'asc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+      callback(querySnapshot.docs.map(convertReadingSessionFirestoreDoc));
+    }, (error) => {
+      console.error('Error in reading sessions listener:', error);
+      callback([]);
+    });
+
+    return unsubscribe;
+  },
+
+  // NOTE METHODS
+
+  // Get all notes, quotes and highlights for a book, newest first
+  getBookNotes: async (bookId: string): Promise<BookNote[]> => {
+    try {
+      const userId = getCurrentUserId();
+      const q = query(
+        collection(db, NOTES_COLLECTION_NAME),
+        where('userId', '==', userId),
+        where('bookId', '==', bookId),
+        orderBy('dateAdded', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(convertNoteFirestoreDoc);
+    } catch (error) {
+      console.error('Error loading notes from Firestore:', error);
+      return [];
+    }
+  },
+
+  // Add a note, quote or highlight to a book
+  addBookNote: async (note: Omit<BookNote, 'id' | 'dateAdded' | 'dateUpdated'>): Promise<BookNote> => {
+    try {
+      const userId = getCurrentUserId();
+      const newNote = {
+        ...note,
+        dateAdded: new Date(),
+      };
+
+      const docRef = doc(collection(db, NOTES_COLLECTION_NAME));
+      await syncStatus.queueWrite(setDoc(docRef, convertNoteToFirestoreDoc(newNote, userId)), `Add ${newNote.type}`);
+
+      return {
+        id: docRef.id,
+        ...newNote,
+        userId,
+      };
+    } catch (error) {
+      console.error('Error adding note to Firestore:', error);
+      throw error;
+    }
+  },
+
+  // Update the content, type or page of a note
+  updateBookNote: async (id: string, updates: Partial<Pick<BookNote, 'type' | 'content' | 'page'>>): Promise<boolean> => {
+    try {
+      const firestoreUpdates = {} as UpdateData<DocumentData>;
+
+      Object.entries(updates).forEach(([key, value]) => {
+        firestoreUpdates[key] = value === undefined ? null : value;
+      });
+      firestoreUpdates.dateUpdated = Timestamp.now();
+
+      await syncStatus.queueWrite(updateDoc(doc(db, NOTES_COLLECTION_NAME, id), firestoreUpdates), 'Update note');
+      return true;
+    } catch (error) {
+      console.error('Error updating note in Firestore:', error);
+      return false;
+    }
+  },
+
+  // Delete a note
+  deleteBookNote: async (id: string): Promise<boolean> => {
+    try {
+      await syncStatus.queueWrite(deleteDoc(doc(db, NOTES_COLLECTION_NAME, id)), 'Delete note');
+      return true;
+    } catch (error) {
+      console.error('Error deleting note from Firestore:', error);
+      return false;
+    }
+  },
+
+  // Set up real-time listener for the notes of a book
+  onBookNotesChange: (bookId: string, callback: (notes: BookNote[]) => void): (() => void) => {
+    const userId = getCurrentUserId();
+    const q = query(
+      collection(db, NOTES_COLLECTION_NAME),
+      where('userId', '==', userId),
+      where('bookId', '==', bookId),
+      orderBy('dateAdded', 'desc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+      callback(querySnapshot.docs.map(convertNoteFirestoreDoc));
+    }, (error) => {
+      console.error('Error in notes listener:', error);
+      callback([]);
+    });
+
+    return unsubscribe;
+  },
+
+  // HIGHLIGHT METHODS
+
+  // Get the Kindle highlights of a book, oldest first
+  getHighlights: async (bookId: string): Promise<Highlight[]> => {
+    try {
+      const userId = getCurrentUserId();
+      const q = query(
+        collection(db, HIGHLIGHTS_COLLECTION_NAME),
+        where('userId', '==', userId),
+        where('bookId', '==', bookId),
+        orderBy('dateAdded', 'asc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(convertHighlightFirestoreDoc);
+    } catch (error) {
+      console.error('Error loading highlights from Firestore:', error);
+      return [];
+    }
+  },
+
+  // Delete a highlight
+  deleteHighlight: async (id: string): Promise<boolean> => {
+    try {
+      await syncStatus.queueWrite(deleteDoc(doc(db, HIGHLIGHTS_COLLECTION_NAME, id)), 'Delete highlight');
+      return true;
+    } catch (error) {
+      console.error('Error deleting highlight from Firestore:', error);
+      return false;
+    }
+  },
+
+  // Set up real-time listener for the highlights of a book
+  onHighlightsChange: (bookId: string, callback: (highlights: Highlight[]) => void): (() => void) => {
+    const userId = getCurrentUserId();
+    const q = query(
+      collection(db, HIGHLIGHTS_COLLECTION_NAME),
+      where('userId', '==', userId),
+      where('bookId', '==', bookId),
+      orderBy('dateAdded', 'asc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+      callback(querySnapshot.docs.map(convertHighlightFirestoreDoc));
+    }, (error) => {
+      console.error('Error in highlights listener:', error);
+      callback([]);
+    });
+
+    return unsubscribe;
+  },
+
+  // SHELF METHODS
+
+  // Get all shelves for current user, alphabetically
+  getShelves: async (): Promise<Shelf[]> => {
+    try {
+      const userId = getCurrentUserId();
+      const q = query(
+        collection(db, SHELVES_COLLECTION_NAME),
+        where('userId', '==', userId),
+        orderBy('name', 'asc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(convertShelfFirestoreDoc);
+    } catch (error) {
+      console.error('Error loading shelves from Firestore:', error);
+      return [];
+    }
+  },
+
+  // Create a new shelf for current user
+  addShelf: async (name: string, color: ShelfColor = 'blue'): Promise<Shelf> => {
+    try {
+      const userId = getCurrentUserId();
+      const newShelf = {
+        name: name.trim(),
+        color,
+        dateAdded: new Date(),
+      };
+
+      const docRef = doc(collection(db, SHELVES_COLLECTION_NAME));
+      await syncStatus.queueWrite(
+        setDoc(docRef, convertShelfToFirestoreDoc(newShelf, userId)),
+        `Create shelf "${newShelf.name}"`
+      );
+
+      return {
+        id: docRef.id,
+        ...newShelf,
+        userId,
+      };
+    } catch (error) {
+      console.error('Error adding shelf to Firestore:', error);
+      throw error;
+    }
+  },
+
+  // Rename or recolour a shelf
+  updateShelf: async (id: string, updates: Partial<Pick<Shelf, 'name' | 'color'>>): Promise<boolean> => {
+    try {
+      await syncStatus.queueWrite(updateDoc(doc(db, SHELVES_COLLECTION_NAME, id), updates), 'Update shelf');
+      return true;
+    } catch (error) {
+      console.error('Error updating shelf in Firestore:', error);
+      return false;
+    }
+  },
+
+  // Delete a shelf and take every book off it
+  deleteShelf: async (id: string): Promise<boolean> => {
+    try {
+      const userId = getCurrentUserId();
+      const q = query(
+        collection(db, COLLECTION_NAME),
+        where('userId', '==', userId),
+        where('shelfIds', 'array-contains', id)
+      );
+      const querySnapshot = await getDocs(q);
+
+      // The shelf goes in the last batch, so it's only deleted once every book is off it
+      const writes = querySnapshot.docs.map(bookDoc => (batch: WriteBatch) => {
+        batch.update(bookDoc.ref, { shelfIds: arrayRemove(id) });
+      });
+      writes.push(batch => {
+        batch.delete(doc(db, SHELVES_COLLECTION_NAME, id));
+      });
+      await commitInBatches(writes, 'Delete shelf');
+      return true;
+    } catch (error) {
+      console.error('Error deleting shelf from Firestore:', error);
+      return false;
+    }
+  },
+
+  // Put a book on a shelf
+  addBookToShelf: async (bookId: string, shelfId: string): Promise<boolean> => {
+    try {
+      await syncStatus.queueWrite(
+        updateDoc(doc(db, COLLECTION_NAME, bookId), { shelfIds: arrayUnion(shelfId) }),
+        'Add book to shelf'
+      );
+      return true;
+    } catch (error) {
+      console.error('Error adding book to shelf:', error);
+      return false;
+    }
+  },
+
+  // Take a book off a shelf
+  removeBookFromShelf: async (bookId: string, shelfId: string): Promise<boolean> => {
+    try {
+      await syncStatus.queueWrite(
+        updateDoc(doc(db, COLLECTION_NAME, bookId), { shelfIds: arrayRemove(shelfId) }),
+        'Remove book from shelf'
+      );
+      return true;
+    } catch (error) {
+      console.error('Error removing book from shelf:', error);
+      return false;
+    }
+  },
+
+  // Set up real-time listener for shelves for current user
+  onShelvesChange: (callback: (shelves: Shelf[]) => void): (() => void) => {
+    const userId = getCurrentUserId();
+    const q = query(
+      collection(db, SHELVES_COLLECTION_NAME),
+      where('userId', '==', userId),
+      orderBy('name', 'asc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+      callback(querySnapshot.docs.map(convertShelfFirestoreDoc));
+    }, (error) => {
+      console.error('Error in shelves listener:', error);
+      callback([]);
+    });
+
+    return unsubscribe;
+  },
+
+  // BACKUP METHODS
+
+  // Get every record in the library for current user
+  exportLibrary: async (): Promise<LibraryData> => {
+    const userId = getCurrentUserId();
+    const [books, wishlist, readingSessions, notes, highlights, shelves] = await Promise.all(LIBRARY_TABLES.map(table =>
+      getDocs(query(collection(db, TABLE_COLLECTION_NAMES[table]), where('userId', '==', userId)))
+    ));
+
+    return {
+      books: books.docs.map(convertFirestoreDoc),
+      wishlist: wishlist.docs.map(convertWishListFirestoreDoc),
+      readingSessions: readingSessions.docs.map(convertReadingSessionFirestoreDoc),
+      notes: notes.docs.map(convertNoteFirestoreDoc),
+      highlights: highlights.docs.map(convertHighlightFirestoreDoc),
+      shelves: shelves.docs.map(convertShelfFirestoreDoc),
+    };
+  },
+
+  // Add a set of records for current user with new ids, keeping their dates
+  importLibrary: async (data: LibraryData): Promise<void> => {
+    await commitInBatches(buildImportWrites(data, getCurrentUserId()), 'Import library');
+  },
+
+  // Replace the current user's library with a set of records. The new records are written before
+  // the old ones are deleted, so a failed write never leaves the library empty.
+  replaceLibrary: async (data: LibraryData): Promise<void> => {
+    const userId = getCurrentUserId();
+    const existing = await getLibraryDocRefs(userId);
+    await commitInBatches(buildImportWrites(data, userId), 'Restore library');
+
+    try {
+      await commitInBatches(existing.map(ref => (batch: WriteBatch) => batch.delete(ref)), 'Remove replaced library');
+    } catch (error) {
+      console.error('Error removing replaced library:', error);
+      throw new Error('The backup was restored, but some of your previous books could not be removed. Remove them by hand or try again.');
+    }
+  },
+
+  // Delete everything in the library for current user
+  clearLibrary: async (): Promise<void> => {
+    const existing = await getLibraryDocRefs(getCurrentUserId());
+    await commitInBatches(existing.map(ref => (batch: WriteBatch) => batch.delete(ref)), 'Clear library');
+  },
 }; 
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { goodreadsUtils } from '@/utils/goodreads';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const HEADER = 'Book Id,Title,Author,ISBN,ISBN13,My Rating,Number of Pages,Binding,Exclusive Shelf,Date Read,Date Added,Read Count';
+
+const parse = (...rows: string[]) => goodreadsUtils.parseLibraryExport([HEADER, ...rows].join('\n'), NOW);
+
+describe('goodreadsUtils.parseLibraryExport', () => {
+  it('rejects files that aren\'t Goodreads exports', () => {
+    expect(() => goodreadsUtils.parseLibraryExport('Name,Writer\nDune,Frank Herbert', NOW)).toThrow(
+      'This doesn\'t look like a Goodreads library export (missing Title, Author, Exclusive Shelf).'
+    );
+  });
+
+  it('reads a finished book with its date, rating and ISBN', () => {
+    const { data } = parse('1,Dune,Frank Herbert,="0441172717",="9780441172719",4,604,Paperback,read,2024/05/20,2024/01/02,1');
+    expect(data.books).toEqual([
+      expect.objectContaining({
+        id: 'goodreads-1',
+        title: 'Dune',
+        isbn: '9780441172719',
+        pages: 604,
+        status: 'read',
+        ownershipType: 'physical',
+        dateAdded: new Date(2024, 0, 2),
+        dateStarted: new Date(2024, 4, 20),
+        dateFinished: new Date(2024, 4, 20),
+        rating: 4,
+        currentPage: 604,
+      }),
+    ]);
+  });
+
+  it('gives read books with no date read today as their start and finish', () => {
+    const { data } = parse('1,Dune,Frank Herbert,,,0,,,read,,,1');
+    expect(data.books[0]).toMatchObject({ dateStarted: NOW, dateFinished: NOW, dateAdded: NOW });
+    expect(data.books[0].rating).toBeUndefined();
+  });
+
+  it('starts books being read today and leaves them unfinished', () => {
+    const { data } = parse('1,Dune,Frank Herbert,,,0,,,currently-reading,2024/05/20,,1');
+    expect(data.books[0]).toMatchObject({ status: 'currently-reading', dateStarted: NOW });
+    expect(data.books[0].dateFinished).toBeUndefined();
+  });
+
+  it('maps custom shelves to paused and did-not-finish', () => {
+    const { data } = parse('1,Dune,Frank Herbert,,,,,,on-hold,,,', '2,Emma,Jane Austen,,,,,,abandoned,,,');
+    expect(data.books.map(book => book.status)).toEqual(['paused', 'dnf']);
+  });
+
+  it('puts to-read books on the wish list', () => {
+    const { data } = parse('1,Dune,Frank Herbert,,="9780441172719",0,604,,to-read,,2024/01/02,0');
+    expect(data.books).toEqual([]);
+    expect(data.wishlist).toEqual([
+      { id: 'goodreads-1', title: 'Dune', author: 'Frank Herbert', isbn: '9780441172719', pages: 604, dateAdded: new Date(2024, 0, 2) },
+    ]);
+  });
+
+  it('records earlier reads without dates', () => {
+    const { data } = parse('1,Dune,Frank Herbert,,,5,,,read,2024/05/20,,3');
+    expect(data.books[0].readings).toEqual([{}, {}]);
+  });
+
+  it('reads digital formats from the binding', () => {
+    const { data } = parse('1,Dune,Frank Herbert,,,,,Kindle Edition,read,,,', '2,Emma,Jane Austen,,,,,Audible Audio,read,,,');
+    expect(data.books.map(({ ownershipType, readingFormat }) => ({ ownershipType, readingFormat }))).toEqual([
+      { ownershipType: 'digital', readingFormat: 'ebook' },
+      { ownershipType: 'digital', readingFormat: 'audiobook' },
+    ]);
+  });
+
+  it('takes the series from the title', () => {
+    const { data } = parse('1,"Leviathan Wakes (The Expanse, #1)",James S.A. Corey,,,,,,read,,,');
+    expect(data.books[0]).toMatchObject({ series: 'The Expanse', seriesNumber: 1 });
+  });
+
+  it('skips rows without a title or author', () => {
+    const { data, skippedRows } = parse('1,Dune,,,,,,,read,,,');
+    expect(data.books).toEqual([]);
+    expect(skippedRows).toEqual([{ row: 2, title: 'Dune', reason: 'Missing title or author' }]);
+  });
+});
+
+describe('goodreadsUtils.toLibraryExport', () => {
+  it('writes both ISBN forms and the shelf for each status', () => {
+    const csv = goodreadsUtils.toLibraryExport(
+      [{
+        id: 'a',
+        title: 'Dune',
+        author: 'Frank Herbert',
+        isbn: '9780441172719',
+        pages: 604,
+        status: 'dnf',
+        ownershipType: 'physical',
+        dateAdded: new Date(2024, 0, 2),
+        rating: 3.75,
+      }],
+      []
+    );
+    expect(csv.split('\r\n')[1]).toBe('Dune,Frank Herbert,0441172717,9780441172719,4,did-not-finish,,2024/01/02,604');
+  });
+
+  it('round-trips through the importer', () => {
+    const { data } = parse('1,Dune,Frank Herbert,="0441172717",="9780441172719",4,604,,read,2024/05/20,2024/01/02,1');
+    const { data: reimported } = goodreadsUtils.parseLibraryExport(goodreadsUtils.toLibraryExport(data.books, []), NOW);
+    expect(reimported.books[0]).toMatchObject({
+      title: 'Dune',
+      isbn: '9780441172719',
+      status: 'read',
+      rating: 4,
+      dateFinished: new Date(2024, 4, 20),
+    });
+  });
+});
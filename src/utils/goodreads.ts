@@ -0,0 +1,188 @@
+import { format } from 'date-fns';
+import { Book, OwnershipType, Reading, ReadingFormat, ReadingStatus, WishListBook } from '@/types/book';
+import { ImportSkippedRow, LibraryImport } from '@/types/import';
+import { csvUtils, CsvValue } from '@/utils/csv';
+import { isbnUtils } from '@/utils/isbn';
+import { readingStatus } from '@/utils/readingStatus';
+import { googleBooksAPI } from '@/utils/googleBooks';
+
+const REQUIRED_COLUMNS = ['Title', 'Author', 'Exclusive Shelf'];
+
+// Goodreads' built-in exclusive shelves plus the custom ones people commonly make.
+// to-read is not listed because those books go to the wish list.
+const SHELF_STATUSES: Record<string, ReadingStatus> = {
+  'read': 'read',
+  'currently-reading': 'currently-reading',
+  'paused': 'paused',
+  'on-hold': 'paused',
+  'did-not-finish': 'dnf',
+  'dnf': 'dnf',
+  'abandoned': 'dnf',
+};
+
+const WISH_LIST_SHELF = 'to-read';
+
+// Goodreads has no paused or did-not-finish shelf, so those are exported as custom exclusive
+// shelves with the names our importer reads back. Want to Read shares to-read with the wish list.
+const STATUS_SHELVES: Record<ReadingStatus, string> = {
+  'want-to-read': WISH_LIST_SHELF,
+  'currently-reading': 'currently-reading',
+  'paused': 'paused',
+  'read': 'read',
+  'dnf': 'did-not-finish',
+};
+
+// Columns of the Goodreads import CSV layout
+const EXPORT_COLUMNS = [
+  'Title',
+  'Author',
+  'ISBN',
+  'ISBN13',
+  'My Rating',
+  'Exclusive Shelf',
+  'Date Read',
+  'Date Added',
+  'Number of Pages',
+];
+
+// Goodreads wraps ISBNs as ="0441172717" so spreadsheets keep the leading zeros
+const unwrapFormula = (value: string): string => value.replace(/^="(.*)"$/, '$1').trim();
+
+const parsePositiveInt = (value: string): number | undefined => {
+  const number = parseInt(value, 10);
+  return number > 0 ? number : undefined;
+};
+
+// Kindle and audiobook bindings tell us the format and that the copy is digital
+const parseBinding = (binding: string): { ownershipType: OwnershipType; readingFormat?: ReadingFormat } => {
+  if (/audible|audiobook|audio cd|mp3/i.test(binding)) {
+    return { ownershipType: /audio cd/i.test(binding) ? 'physical' : 'digital', readingFormat: 'audiobook' };
+  }
+  if (/kindle|ebook|nook|kobo/i.test(binding)) {
+    return { ownershipType: 'digital', readingFormat: 'ebook' };
+  }
+  return { ownershipType: 'physical' };
+};
+
+const formatDate = (date?: Date): string => (date ? format(date, 'yyyy/MM/dd') : '');
+
+// Fill the ISBN and ISBN13 columns from one ISBN, converting between the two forms where possible
+const isbnColumns = (isbn?: string): [string, string] => {
+  const isbn13 = isbn ? isbnUtils.toIsbn13(isbn) : null;
+  if (isbn13) return [isbnUtils.toIsbn10(isbn13) || '', isbn13];
+
+  const cleaned = isbn ? isbnUtils.clean(isbn) : '';
+  return cleaned.length === 13 ? ['', cleaned] : [cleaned, ''];
+};
+
+export const goodreadsUtils = {
+  // Turn a Goodreads library export (My Books > Import and export > Export library) into
+  // library and wish list books. Throws if the file isn't a Goodreads export.
+  parseLibraryExport: (csv: string, now: Date = new Date()): LibraryImport => {
+    const { headers, records } = csvUtils.parseRecords(csv);
+    const missing = REQUIRED_COLUMNS.filter(column => !headers.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`This doesn't look like a Goodreads library export (missing ${missing.join(', ')}).`);
+    }
+
+    const books: Book[] = [];
+    const wishlist: WishListBook[] = [];
+    const skippedRows: ImportSkippedRow[] = [];
+
+    records.forEach((record, index) => {
+      const row = index + 2;
+      const title = record['Title'];
+      const author = record['Author'];
+      if (!title || !author) {
+        skippedRows.push({ row, title: title || undefined, reason: 'Missing title or author' });
+        return;
+      }
+
+      const isbn13 = unwrapFormula(record['ISBN13'] || '');
+      const isbn10 = unwrapFormula(record['ISBN'] || '');
+      const isbn = isbnUtils.matchKey(isbn13 || isbn10) || undefined;
+      const pages = parsePositiveInt(record['Number of Pages'] || '');
+      const dateAdded = csvUtils.parseDate(record['Date Added'] || '') || now;
+      const id = `goodreads-${record['Book Id'] || row}`;
+      const shelf = (record['Exclusive Shelf'] || '').toLowerCase();
+
+      if (shelf === WISH_LIST_SHELF) {
+        wishlist.push({
+          id,
+          title,
+          author,
+          isbn,
+          pages,
+          publisher: record['Publisher'] || undefined,
+          publishedYear: record['Original Publication Year'] || record['Year Published'] || undefined,
+          dateAdded,
+        });
+        return;
+      }
+
+      const status = SHELF_STATUSES[shelf] || 'want-to-read';
+      const dateRead = csvUtils.parseDate(record['Date Read'] || '');
+      const rating = parsePositiveInt(record['My Rating'] || '');
+      const readCount = parsePositiveInt(record['Read Count'] || '') || 0;
+      const { ownershipType, readingFormat } = parseBinding(record['Binding'] || '');
+      const { series, seriesNumber } = googleBooksAPI.extractSeriesInfo(title);
+      // Goodreads has no start date and often no date read, so those default to today
+      const { dateStarted, dateFinished } = readingStatus.getImportedDates(status, { dateFinished: dateRead }, now);
+
+      books.push({
+        id,
+        title,
+        author,
+        isbn,
+        pages,
+        status,
+        ownershipType,
+        readingFormat,
+        dateAdded,
+        dateStarted,
+        dateFinished,
+        rating: status === 'read' ? rating : undefined,
+        currentPage: status === 'read' ? pages : undefined,
+        // Goodreads only keeps the latest date read, so earlier reads are recorded without dates
+        readings: status === 'read' && readCount > 1
+          ? Array.from({ length: readCount - 1 }, (): Reading => ({}))
+          : undefined,
+        series,
+        seriesNumber,
+      });
+    });
+
+    return {
+      data: { books, wishlist, readingSessions: [], notes: [], highlights: [], shelves: [] },
+      skippedRows,
+    };
+  },
+
+  // Write library and wish list books as a CSV that Goodreads (and most services that read
+  // Goodreads exports) can import
+  toLibraryExport: (books: Book[], wishlist: WishListBook[]): string => {
+    const rows: CsvValue[][] = [
+      ...books.map(book => [
+        book.title,
+        book.author,
+        ...isbnColumns(book.isbn),
+        book.rating ? Math.round(book.rating) : 0, // Goodreads only has whole stars; 0 means unrated
+        STATUS_SHELVES[book.status],
+        book.status === 'read' ? formatDate(book.dateFinished) : '',
+        formatDate(book.dateAdded),
+        book.pages,
+      ]),
+      ...wishlist.map(book => [
+        book.title,
+        book.author,
+        ...isbnColumns(book.isbn),
+        0,
+        WISH_LIST_SHELF,
+        '',
+        formatDate(book.dateAdded),
+        book.pages,
+      ]),
+    ];
+    return csvUtils.stringify(EXPORT_COLUMNS, rows);
+  },
+};
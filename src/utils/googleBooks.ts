@@ -1,3 +1,5 @@
+import { isbnUtils } from '@/utils/isbn';
+
 export interface GoogleBookItem {
   id: string;
   volumeInfo: {
@@ -42,63 +44,92 @@ export interface BookSearchResult {
   rating?: number;
 }
 
-export const googleBooksAPI = {
-  // Search for books by query
-  searchBooks: async (query: string, maxResults: number = 10): Promise<BookSearchResult[]> => {
-    if (!query.trim()) return [];
+// Thrown when Google Books is rate limiting us or having trouble, rather than not knowing the book
+export class GoogleBooksUnavailableError extends Error {
+  constructor(status: number) {
+    super(
+      status === 429
+        ? 'Google Books is getting too many requests right now. Please try again later.'
+        : 'Google Books isn\'t responding right now. Please try again later.'
+    );
+    this.name = 'GoogleBooksUnavailableError';
+  }
+}
 
-    try {
-      const encodedQuery = encodeURIComponent(query.trim());
-      const response = await fetch(
-        `https://www.googleapis.com/books/v1/volumes?q=${encodedQuery}&maxResults=${maxResults}&orderBy=relevance`
-      );
+// Run a volumes query and map the results. Throws if the request fails.
+const fetchVolumes = async (query: string, maxResults: number): Promise<BookSearchResult[]> => {
+  const response = await fetch(
+    `https://www.googleapis.com/books/v1/volumes?q=${encodeURIComponent(query)}&maxResults=${maxResults}&orderBy=relevance`
+  );
 
-      if (!response.ok) {
-        throw new Error(`Google Books API error: ${response.status}`);
-      }
+  if (response.status === 429 || response.status >= 500) {
+    throw new GoogleBooksUnavailableError(response.status);
+  }
+  if (!response.ok) {
+    throw new Error(`Google Books API error: ${response.status}`);
+  }
 
-      const data: GoogleBooksResponse = await response.json();
+  const data: GoogleBooksResponse = await response.json();
 
-      if (!data.items) return [];
+  if (!data.items) return [];
 
-      return data.items.map(item => {
-        const { volumeInfo } = item;
-        
-        // Extract ISBN
-        const isbn13 = volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_13')?.identifier;
-        const isbn10 = volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_10')?.identifier;
-        const isbn = isbn13 || isbn10;
+  return data.items.map(item => {
+    const { volumeInfo } = item;
+    
+    // Extract ISBN
+    const isbn13 = volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_13')?.identifier;
+    const isbn10 = volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_10')?.identifier;
+    const isbn = isbn13 || (isbn10 ? isbnUtils.toCanonical(isbn10) : undefined);
 
-        // Extract publication year
-        const publishedYear = volumeInfo.publishedDate ? 
-          new Date(volumeInfo.publishedDate).getFullYear().toString() : 
-          undefined;
+    // Extract publication year
+    const publishedYear = volumeInfo.publishedDate ? 
+      new Date(volumeInfo.publishedDate).getFullYear().toString() : 
+      undefined;
 
-        // Get the best available cover image
-        const coverUrl = volumeInfo.imageLinks?.thumbnail?.replace('http:', 'https:') || 
-                        volumeInfo.imageLinks?.smallThumbnail?.replace('http:', 'https:');
+    // Get the best available cover image
+    const coverUrl = volumeInfo.imageLinks?.thumbnail?.replace('http:', 'https:') || 
+                    volumeInfo.imageLinks?.smallThumbnail?.replace('http:', 'https:');
 
-        return {
-          id: item.id,
-          title: volumeInfo.title || 'Unknown Title',
-          author: volumeInfo.authors?.join(', ') || 'Unknown Author',
-          publishedYear,
-          description: volumeInfo.description,
-          isbn,
-          pages: volumeInfo.pageCount,
-          genre: volumeInfo.categories?.join(', '),
-          coverUrl,
-          thumbnail: volumeInfo.imageLinks?.smallThumbnail?.replace('http:', 'https:'),
-          publisher: volumeInfo.publisher,
-          rating: volumeInfo.averageRating,
-        };
-      });
+    return {
+      id: item.id,
+      title: volumeInfo.title || 'Unknown Title',
+      author: volumeInfo.authors?.join(', ') || 'Unknown Author',
+      publishedYear,
+      description: volumeInfo.description,
+      isbn,
+      pages: volumeInfo.pageCount,
+      genre: volumeInfo.categories?.join(', '),
+      coverUrl,
+      thumbnail: volumeInfo.imageLinks?.smallThumbnail?.replace('http:', 'https:'),
+      publisher: volumeInfo.publisher,
+      rating: volumeInfo.averageRating,
+    };
+  });
+};
+
+export const googleBooksAPI = {
+  // Search for books by query
+  searchBooks: async (query: string, maxResults: number = 10): Promise<BookSearchResult[]> => {
+    if (!query.trim()) return [];
+
+    try {
+      // A bare ISBN, with or without hyphens, is looked up as an ISBN in its ISBN-13 form
+      const isbnQuery = /^(isbn:)?[\d\s-]+X?$/i.test(query.trim()) && isbnUtils.toIsbn13(query);
+      return await fetchVolumes(isbnQuery ? `isbn:${isbnQuery}` : query.trim(), maxResults);
     } catch (error) {
       console.error('Error searching Google Books:', error);
       return [];
     }
   },
 
+  // Find the book with an ISBN, or null if Google Books doesn't know it. Unlike searchBooks this
+  // throws when the lookup fails (GoogleBooksUnavailableError for rate limits and server errors),
+  // so a failed lookup isn't mistaken for an unknown book.
+  lookupIsbn: async (isbn: string): Promise<BookSearchResult | null> => {
+    const [result] = await fetchVolumes(`isbn:${isbnUtils.toIsbn13(isbn) ?? isbnUtils.clean(isbn)}`, 1);
+    return result ?? null;
+  },
+
   // Get detailed book information by Google Books ID
   getBookDetails: async (googleBooksId: string): Promise<BookSearchResult | null> => {
     try {
@@ -116,7 +147,7 @@ export const googleBooksAPI = {
       // Extract ISBN
       const isbn13 = volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_13')?.identifier;
       const isbn10 = volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_10')?.identifier;
-      const isbn = isbn13 || isbn10;
+      const isbn = isbn13 || (isbn10 ? isbnUtils.toCanonical(isbn10) : undefined);
 
       // Extract publication year
       const publishedYear = volumeInfo.publishedDate ? 
@@ -183,10 +214,11 @@ export const googleBooksAPI = {
             seriesNumber: parseInt(match[2], 10),
           };
         } else {
-          // For patterns like "Title (Series Name #1)"
+          // For patterns like "Title (Series Name #1)". Goodreads-style "(The Expanse, #1)"
+          // leaves a trailing comma on the series name.
           return {
             cleanTitle: match[1].trim(),
-            series: match[2].trim(),
+            series: match[2].trim().replace(/,$/, ''),
             seriesNumber: parseInt(match[3], 10),
           };
         }
@@ -197,9 +229,10 @@ export const googleBooksAPI = {
   },
 
   // Search for books in the same series
-  searchSeriesBooks: async (author: string, title: string, maxResults: number = 20): Promise<import('@/types/book').SeriesBook[]> => {
+  searchSeriesBooks: async (author: string, title: string, maxResults: number = 20, knownSeries?: string): Promise<import('@/types/book').SeriesBook[]> => {
     try {
-      const { series } = googleBooksAPI.extractSeriesInfo(title);
+      // A series saved on the book beats guessing it from the title
+      const series = knownSeries || googleBooksAPI.extractSeriesInfo(title).series;
       
       // If we detected a series, search for it specifically
       if (series) {
@@ -212,7 +245,11 @@ export const googleBooksAPI = {
             id: book.id,
             title: book.title,
             author: book.author,
+            isbn: book.isbn,
             coverUrl: book.coverUrl,
+            pages: book.pages,
+            genre: book.genre,
+            publisher: book.publisher,
             publishedYear: book.publishedYear,
             description: book.description,
             seriesNumber: bookSeriesInfo.seriesNumber,
@@ -265,7 +302,11 @@ export const googleBooksAPI = {
           id: book.id,
           title: book.title,
           author: book.author,
+          isbn: book.isbn,
           coverUrl: book.coverUrl,
+          pages: book.pages,
+          genre: book.genre,
+          publisher: book.publisher,
           publishedYear: book.publishedYear,
           description: book.description,
           seriesNumber: bookSeriesInfo.seriesNumber,
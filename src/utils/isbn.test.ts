@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { isbnUtils } from '@/utils/isbn';
+
+describe('isbnUtils.isValid', () => {
+  it('accepts valid ISBN-10s, including a check character X', () => {
+    expect(isbnUtils.isValid('0441172717')).toBe(true);
+    expect(isbnUtils.isValid('0-8044-2957-X')).toBe(true);
+    expect(isbnUtils.isValid('080442957x')).toBe(true);
+  });
+
+  it('accepts valid ISBN-13s with hyphens or spaces', () => {
+    expect(isbnUtils.isValid('978-0-441-17271-9')).toBe(true);
+    expect(isbnUtils.isValid('979 10 90636 07 1')).toBe(true);
+  });
+
+  it('rejects wrong check digits', () => {
+    expect(isbnUtils.isValid('0441172718')).toBe(false);
+    expect(isbnUtils.isValid('9780441172718')).toBe(false);
+  });
+
+  it('rejects EAN-13s outside the Bookland ranges and other lengths', () => {
+    expect(isbnUtils.isValid('4006381333931')).toBe(false);
+    expect(isbnUtils.isValid('044117271')).toBe(false);
+    expect(isbnUtils.isValid('')).toBe(false);
+  });
+});
+
+describe('isbnUtils.isIsbnShaped', () => {
+  it('tells ISBN-like values from other identifiers', () => {
+    expect(isbnUtils.isIsbnShaped('978-0-441-17271-8')).toBe(true);
+    expect(isbnUtils.isIsbnShaped('0 8044 2957 x')).toBe(true);
+    expect(isbnUtils.isIsbnShaped('B00B7NPRY8')).toBe(false);
+    expect(isbnUtils.isIsbnShaped('12345')).toBe(false);
+  });
+});
+
+describe('isbnUtils.toIsbn13', () => {
+  it('converts an ISBN-10 to its ISBN-13', () => {
+    expect(isbnUtils.toIsbn13('0441172717')).toBe('9780441172719');
+    expect(isbnUtils.toIsbn13('0-8044-2957-X')).toBe('9780804429573');
+  });
+
+  it('cleans up an ISBN-13', () => {
+    expect(isbnUtils.toIsbn13('978-0-441-17271-9')).toBe('9780441172719');
+  });
+
+  it('returns null for invalid ISBNs', () => {
+    expect(isbnUtils.toIsbn13('0441172718')).toBeNull();
+    expect(isbnUtils.toIsbn13('B00B7NPRY8')).toBeNull();
+  });
+});
+
+describe('isbnUtils.toIsbn10', () => {
+  it('converts a 978 ISBN-13 to its ISBN-10', () => {
+    expect(isbnUtils.toIsbn10('9780441172719')).toBe('0441172717');
+    expect(isbnUtils.toIsbn10('9780804429573')).toBe('080442957X');
+  });
+
+  it('returns null for 979 ISBN-13s, which have no ISBN-10', () => {
+    expect(isbnUtils.toIsbn10('9791090636071')).toBeNull();
+  });
+
+  it('returns null for invalid ISBNs', () => {
+    expect(isbnUtils.toIsbn10('9780441172718')).toBeNull();
+  });
+
+  it('round-trips with toIsbn13', () => {
+    expect(isbnUtils.toIsbn10(isbnUtils.toIsbn13('0441172717') || '')).toBe('0441172717');
+  });
+});
+
+describe('isbnUtils.toCanonical', () => {
+  it('stores valid ISBNs as ISBN-13s', () => {
+    expect(isbnUtils.toCanonical('0-441-17271-7')).toBe('9780441172719');
+  });
+
+  it('keeps other identifiers as entered', () => {
+    expect(isbnUtils.toCanonical(' B00B7NPRY8 ')).toBe('B00B7NPRY8');
+  });
+});
+
+describe('isbnUtils.isSame', () => {
+  it('matches an ISBN-10 with its ISBN-13 and hyphenated copies', () => {
+    expect(isbnUtils.isSame('0441172717', '978-0-441-17271-9')).toBe(true);
+    expect(isbnUtils.isSame('9780441172719', '9780441172719')).toBe(true);
+  });
+
+  it('doesn\'t match different or missing ISBNs', () => {
+    expect(isbnUtils.isSame('0441172717', '9780593099322')).toBe(false);
+    expect(isbnUtils.isSame(undefined, '9780441172719')).toBe(false);
+    expect(isbnUtils.isSame('---', '---')).toBe(false);
+  });
+});
+
+describe('isbnUtils.variants', () => {
+  it('lists every form an ISBN may be stored in', () => {
+    expect(isbnUtils.variants('0-441-17271-7')).toEqual(['0-441-17271-7', '0441172717', '9780441172719']);
+  });
+
+  it('lists only the entered forms of invalid ISBNs', () => {
+    expect(isbnUtils.variants(' 0-441-17271-8 ')).toEqual(['0-441-17271-8', '0441172718']);
+  });
+});
+
+describe('isbnUtils.withCanonicalIsbn', () => {
+  it('converts a record\'s ISBN and leaves records without one alone', () => {
+    expect(isbnUtils.withCanonicalIsbn({ title: 'Dune', isbn: '0441172717' })).toEqual({ title: 'Dune', isbn: '9780441172719' });
+    const cleared = { title: 'Dune', isbn: null };
+    expect(isbnUtils.withCanonicalIsbn(cleared)).toBe(cleared);
+  });
+});
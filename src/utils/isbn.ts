@@ -0,0 +1,88 @@
+// Strip everything except digits and a trailing check character X
+const clean = (value: string): string => value.toUpperCase().replace(/[^0-9X]/g, '');
+
+// ISBN-13s are EAN-13 barcodes in the "Bookland" ranges
+const BOOKLAND_PREFIXES = ['978', '979'];
+
+const isbn10CheckDigit = (first9: string): string => {
+  const sum = first9.split('').reduce((total, char, index) => total + parseInt(char, 10) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+};
+
+const isbn13CheckDigit = (first12: string): string => {
+  const sum = first12.split('').reduce((total, char, index) => total + parseInt(char, 10) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+const isBookland = (value: string): boolean => {
+  const isbn = clean(value);
+  return isbn.length === 13 && BOOKLAND_PREFIXES.includes(isbn.slice(0, 3));
+};
+
+// Whether a value is written like an ISBN (ten or thirteen digits with an optional check character X,
+// ignoring hyphens and spaces) rather than another identifier such as an ASIN
+const isIsbnShaped = (value: string): boolean => /^(\d{9}[\dX]|\d{13})$/.test(value.toUpperCase().replace(/[\s-]/g, ''));
+
+// Validate an ISBN-10 or ISBN-13 checksum (hyphens and spaces are ignored). EAN-13 barcodes outside
+// the Bookland ranges aren't ISBNs even when their checksum is right.
+const isValid = (value: string): boolean => {
+  const isbn = clean(value);
+  if (/^\d{9}[\dX]$/.test(isbn)) return isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9];
+  if (/^\d{13}$/.test(isbn)) return isBookland(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+  return false;
+};
+
+// The ISBN-13 for any valid ISBN, or null for anything else
+const toIsbn13 = (value: string): string | null => {
+  if (!isValid(value)) return null;
+  const isbn = clean(value);
+  if (isbn.length === 13) return isbn;
+  const first12 = `978${isbn.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+};
+
+// The ISBN-10 for any valid ISBN, or null for anything else. 979 ISBN-13s have no ISBN-10.
+const toIsbn10 = (value: string): string | null => {
+  if (!isValid(value)) return null;
+  const isbn = clean(value);
+  if (isbn.length === 10) return isbn;
+  if (!isbn.startsWith('978')) return null;
+  const first9 = isbn.slice(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+};
+
+// The form two ISBNs are compared in: ISBN-13 when valid, otherwise just the digits
+const matchKey = (value: string): string => toIsbn13(value) ?? clean(value);
+
+// The form ISBNs are stored in: ISBN-13 for any valid ISBN, otherwise the value as entered, so
+// identifiers that aren't ISBNs (such as ASINs) survive untouched
+const toCanonical = (value: string): string => toIsbn13(value) ?? value.trim();
+
+export const isbnUtils = {
+  clean,
+  isValid,
+  isIsbnShaped,
+  isBookland,
+  toIsbn13,
+  toIsbn10,
+  matchKey,
+  toCanonical,
+
+  // Whether two ISBNs name the same edition, e.g. an ISBN-10 and its ISBN-13 or a hyphenated copy
+  isSame: (a?: string, b?: string): boolean => {
+    if (!a || !b) return false;
+    const key = matchKey(a);
+    return key !== '' && key === matchKey(b);
+  },
+
+  // Every form an ISBN may have been stored in, for exact-match lookups against older records
+  variants: (value: string): string[] => {
+    const forms = [value.trim(), clean(value), toIsbn13(value), toIsbn10(value)];
+    return [...new Set(forms.filter((form): form is string => !!form))];
+  },
+
+  // Store a record's ISBN in canonical form, leaving missing or cleared ISBNs alone
+  withCanonicalIsbn: <T extends { isbn?: string | null }>(record: T): T =>
+    record.isbn ? { ...record, isbn: toCanonical(record.isbn) } : record,
+};
@@ -0,0 +1,74 @@
+import { Book, WishListBook } from '@/types/book';
+import { BookSearchResult, googleBooksAPI } from '@/utils/googleBooks';
+import { isbnUtils } from '@/utils/isbn';
+
+export type IsbnListStatus =
+  | 'invalid' // Fails the ISBN checksum
+  | 'repeated' // Appears earlier in the same list
+  | 'pending' // Not looked up yet
+  | 'found'
+  | 'not-found'
+  | 'in-library'
+  | 'in-wishlist';
+
+export interface IsbnListEntry {
+  input: string; // As typed or pasted
+  isbn: string; // ISBN-13 for valid entries, digits (and X) only otherwise
+  status: IsbnListStatus;
+  result?: BookSearchResult;
+}
+
+// Google Books starts refusing anonymous requests when they come too quickly
+export const LOOKUP_DELAY_MS = 500;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const isbnList = {
+  // Split pasted text or a text file into ISBNs, one per line or separated by commas, semicolons or spaces.
+  // An ISBN-10 and its ISBN-13 count as the same book.
+  parse: (text: string): IsbnListEntry[] => {
+    const seen = new Set<string>();
+    return text
+      .split(/[\s,;]+/)
+      .filter(Boolean)
+      .map(input => {
+        const isbn = isbnUtils.toIsbn13(input);
+        if (!isbn) return { input, isbn: isbnUtils.clean(input), status: 'invalid' as const };
+        if (seen.has(isbn)) return { input, isbn, status: 'repeated' as const };
+        seen.add(isbn);
+        return { input, isbn, status: 'pending' as const };
+      });
+  },
+
+  // Look up pending entries one at a time, pausing between requests, and report each result as it
+  // arrives. Books already in the library or wish list (by the entered or the found ISBN) are marked as such.
+  // Throws if a lookup fails, leaving the remaining entries pending.
+  lookup: async (
+    entries: IsbnListEntry[],
+    existing: { books: Book[]; wishlist: WishListBook[] },
+    onResult: (index: number, entry: IsbnListEntry) => void,
+    shouldStop: () => boolean = () => false
+  ): Promise<void> => {
+    const libraryIsbns = new Set(existing.books.map(book => isbnUtils.matchKey(book.isbn || '')).filter(Boolean));
+    const wishListIsbns = new Set(existing.wishlist.map(book => isbnUtils.matchKey(book.isbn || '')).filter(Boolean));
+    let isFirstRequest = true;
+
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
+      if (entry.status !== 'pending') continue;
+      if (shouldStop()) return;
+
+      if (!isFirstRequest) await wait(LOOKUP_DELAY_MS);
+      isFirstRequest = false;
+
+      const result = (await googleBooksAPI.lookupIsbn(entry.isbn)) ?? undefined;
+      const isbns = [entry.isbn, isbnUtils.matchKey(result?.isbn || '')].filter(Boolean);
+
+      let status: IsbnListStatus = result ? 'found' : 'not-found';
+      if (isbns.some(isbn => libraryIsbns.has(isbn))) status = 'in-library';
+      else if (isbns.some(isbn => wishListIsbns.has(isbn))) status = 'in-wishlist';
+
+      onResult(index, { ...entry, status, result });
+    }
+  },
+};
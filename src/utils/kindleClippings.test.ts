@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Highlight } from '@/types/book';
+import { KindleClipping, kindleClippings } from '@/utils/kindleClippings';
+import { makeBook } from '@/utils/testFixtures';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const entry = (...lines: string[]) => `${lines.join('\r\n')}\r\n==========\r\n`;
+
+const clipping = (overrides: Partial<KindleClipping> = {}): KindleClipping => ({
+  title: 'The Hobbit',
+  author: 'J.R.R. Tolkien',
+  type: 'highlight',
+  content: 'In a hole in the ground there lived a hobbit.',
+  ...overrides,
+});
+
+describe('kindleClippings.parse', () => {
+  it('reads a highlight with a page and location', () => {
+    const text = entry(
+      '\uFEFFThe Hobbit (Tolkien, J.R.R.)',
+      '- Your Highlight on page 12 | Location 170-172 | Added on Saturday, March 4, 2023 10:14:22 PM',
+      '',
+      'In a hole in the ground there lived a hobbit.'
+    );
+    expect(kindleClippings.parse(text)).toEqual([{
+      title: 'The Hobbit',
+      author: 'J.R.R. Tolkien',
+      type: 'highlight',
+      content: 'In a hole in the ground there lived a hobbit.',
+      page: 12,
+      location: '170-172',
+      dateAdded: new Date(2023, 2, 4, 22, 14, 22),
+    }]);
+  });
+
+  it('reads a note with a location but no page', () => {
+    const [note] = kindleClippings.parse(entry(
+      'Dune (Frank Herbert)',
+      '- Your Note on Location 512 | Added on Monday, May 1, 2023 8:00:00 AM',
+      '',
+      'Compare with the litany against fear.'
+    ));
+    expect(note).toMatchObject({ title: 'Dune', author: 'Frank Herbert', type: 'note', location: '512' });
+    expect(note.page).toBeUndefined();
+  });
+
+  it('reads older devices\' layout with neither a page nor a full location label', () => {
+    const [highlight] = kindleClippings.parse(entry('Dune (Frank Herbert)', '- Highlight Loc. 170-72 | Added on Monday, May 1, 2023', '', 'Fear is the mind-killer.'));
+    expect(highlight).toMatchObject({ type: 'highlight', location: '170-72', content: 'Fear is the mind-killer.' });
+    expect(highlight.page).toBeUndefined();
+  });
+
+  it('reads a highlight with a page but no location', () => {
+    const [highlight] = kindleClippings.parse(entry('Dune (Frank Herbert)', '- Your Highlight on page 9 | Added on Monday, May 1, 2023', '', 'Fear is the mind-killer.'));
+    expect(highlight).toMatchObject({ page: 9 });
+    expect(highlight.location).toBeUndefined();
+  });
+
+  it('keeps brackets in titles and multi-author credits as written', () => {
+    const [highlight] = kindleClippings.parse(entry(
+      'Good Omens (Illustrated) (Pratchett, Terry; Gaiman, Neil)',
+      '- Your Highlight on Location 10 | Added on Monday, May 1, 2023',
+      '',
+      'Text'
+    ));
+    expect(highlight).toMatchObject({ title: 'Good Omens (Illustrated)', author: 'Pratchett, Terry; Gaiman, Neil' });
+  });
+
+  it('keeps bookmarks but skips empty highlights and unreadable entries', () => {
+    const text = [
+      entry('Dune (Frank Herbert)', '- Your Bookmark on Location 90 | Added on Monday, May 1, 2023', '', ''),
+      entry('Dune (Frank Herbert)', '- Your Highlight on Location 91 | Added on Monday, May 1, 2023', '', ''),
+      entry('Just a stray line'),
+      entry('Dune (Frank Herbert)', '- Something else', '', 'Text'),
+    ].join('');
+    expect(kindleClippings.parse(text).map(c => c.type)).toEqual(['bookmark']);
+  });
+});
+
+describe('kindleClippings.groupByBook', () => {
+  it('groups clippings by title and author and matches them to library books', () => {
+    const groups = kindleClippings.groupByBook(
+      [clipping(), clipping({ title: 'Dune', author: 'Frank Herbert' }), clipping({ title: 'Hobbit', content: 'Second' })],
+      [makeBook({ title: 'The Hobbit', author: 'J.R.R. Tolkien' })]
+    );
+    expect(groups.map(group => [group.title, group.clippings.length, group.matchedBookId])).toEqual([
+      ['The Hobbit', 2, 'book-1'],
+      ['Dune', 1, undefined],
+    ]);
+  });
+});
+
+describe('kindleClippings.toHighlights', () => {
+  it('turns clippings into highlights, leaving out bookmarks and ones already imported', () => {
+    const existing: Highlight = {
+      id: 'h-1',
+      bookId: 'book-1',
+      type: 'highlight',
+      content: 'In a hole in the ground there lived a hobbit.',
+      dateAdded: NOW,
+    };
+    const highlights = kindleClippings.toHighlights(
+      [
+        clipping(),
+        clipping({ type: 'bookmark', content: '' }),
+        clipping({ type: 'note', content: 'Lovely opening', location: '170' }),
+        clipping({ type: 'note', content: 'Lovely opening ' }),
+      ],
+      'book-1',
+      [existing],
+      NOW
+    );
+    expect(highlights).toEqual([
+      { id: 'kindle-book-1-2', bookId: 'book-1', type: 'note', content: 'Lovely opening', page: undefined, location: '170', dateAdded: NOW },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { Book, Highlight } from '@/types/book';
+import { libraryMatching } from '@/utils/libraryMatching';
+
+export type KindleClippingType = 'highlight' | 'note' | 'bookmark';
+
+export interface KindleClipping {
+  title: string;
+  author: string;
+  type: KindleClippingType;
+  content: string; // Empty for bookmarks
+  page?: number;
+  location?: string; // Single location or range, e.g. "512-515"
+  dateAdded?: Date;
+}
+
+// All clippings from one book, with the library book it matches if any
+export interface KindleClippingGroup {
+  title: string;
+  author: string;
+  clippings: KindleClipping[];
+  matchedBookId?: string;
+}
+
+// Every entry in the file ends with this line
+const ENTRY_SEPARATOR = /^==========\s*$/m;
+
+// Split "Title (Author)" on the last bracketed group, since titles can contain brackets of their own
+const parseTitleLine = (line: string): { title: string; author: string } => {
+  const match = line.match(/^(.*)\(([^()]*)\)\s*$/);
+  if (!match) return { title: line.trim(), author: '' };
+
+  // Kindle writes single authors surname first: "Tolkien, J.R.R."
+  const author = match[2].trim();
+  const parts = author.split(',').map(part => part.trim());
+  return {
+    title: match[1].trim(),
+    author: parts.length === 2 && !author.includes(';') ? `${parts[1]} ${parts[0]}` : author,
+  };
+};
+
+// Read the type from "- Your Highlight on page 12 | Location 170-172 | Added on Saturday, March 4, 2023 10:14:22 PM"
+// or older devices' "- Highlight Loc. 170-72 | Added on ..."
+const parseType = (line: string): KindleClippingType | null => {
+  if (/\bhighlight\b/i.test(line)) return 'highlight';
+  if (/\bnote\b/i.test(line)) return 'note';
+  if (/\bbookmark\b/i.test(line)) return 'bookmark';
+  return null;
+};
+
+const parseDate = (line: string): Date | undefined => {
+  const match = line.match(/Added on\s+(?:\w+,\s*)?(.+)$/i);
+  if (!match) return undefined;
+  const date = new Date(match[1].trim());
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const clippingKey = (type: string, content: string) => `${type}:${content.trim()}`;
+
+export const kindleClippings = {
+  // Read every highlight, note and bookmark from a My Clippings.txt file, skipping entries
+  // that aren't in the expected layout
+  parse: (text: string): KindleClipping[] => {
+    return text
+      .replace(/\uFEFF/g, '')
+      .split(ENTRY_SEPARATOR)
+      .flatMap(entry => {
+        const lines = entry.split(/\r?\n/).map(line => line.trim());
+        while (lines.length > 0 && !lines[0]) lines.shift();
+        if (lines.length < 2) return [];
+
+        const [titleLine, metaLine, ...contentLines] = lines;
+        const type = parseType(metaLine);
+        if (!type) return [];
+
+        const page = metaLine.match(/\bpage\s+(\d+)/i);
+        const location = metaLine.match(/\bLoc(?:ation|\.)?\s+([\d-]+)/i);
+        const clipping: KindleClipping = {
+          ...parseTitleLine(titleLine),
+          type,
+          content: contentLines.join('\n').trim(),
+          page: page ? Number(page[1]) : undefined,
+          location: location ? location[1] : undefined,
+          dateAdded: parseDate(metaLine),
+        };
+        return type !== 'bookmark' && !clipping.content ? [] : [clipping];
+      });
+  },
+
+  // Gather clippings by book, in the order books first appear, and match each to a library book by
+  // title and author
+  groupByBook: (clippings: KindleClipping[], books: Book[]): KindleClippingGroup[] => {
+    const groups = new Map<string, KindleClippingGroup>();
+    clippings.forEach(clipping => {
+      const key = `${libraryMatching.normalizeTitle(clipping.title)}|${libraryMatching.normalizeAuthor(clipping.author)}`;
+      const group = groups.get(key);
+      if (group) {
+        group.clippings.push(clipping);
+      } else {
+        groups.set(key, {
+          title: clipping.title,
+          author: clipping.author,
+          clippings: [clipping],
+          matchedBookId: books.find(book => libraryMatching.isSameBook(clipping, book))?.id,
+        });
+      }
+    });
+    return [...groups.values()];
+  },
+
+  // Turn a book's clippings into highlights, leaving out bookmarks and clippings the book already has
+  // (so importing the same file twice adds nothing)
+  toHighlights: (clippings: KindleClipping[], bookId: string, existingHighlights: Highlight[], now: Date = new Date()): Highlight[] => {
+    const seen = new Set(
+      existingHighlights
+        .filter(highlight => highlight.bookId === bookId)
+        .map(highlight => clippingKey(highlight.type, highlight.content))
+    );
+
+    return clippings.flatMap((clipping, index) => {
+      if (clipping.type === 'bookmark') return [];
+      const key = clippingKey(clipping.type, clipping.content);
+      if (seen.has(key)) return [];
+      seen.add(key);
+
+      return [{
+        id: `kindle-${bookId}-${index}`,
+        bookId,
+        type: clipping.type,
+        content: clipping.content,
+        page: clipping.page,
+        location: clipping.location,
+        dateAdded: clipping.dateAdded ?? now,
+      }];
+    });
+  },
+};
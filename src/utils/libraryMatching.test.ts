@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { SeriesBook } from '@/types/book';
+import { libraryMatching } from '@/utils/libraryMatching';
+import { makeBook, makeWishListBook } from '@/utils/testFixtures';
+
+describe('libraryMatching.normalizeTitle', () => {
+  it('drops series suffixes, punctuation, case and leading articles', () => {
+    expect(libraryMatching.normalizeTitle('The Way of Kings (The Stormlight Archive, #1)')).toBe('way of kings');
+    expect(libraryMatching.normalizeTitle('  Pride & Prejudice! ')).toBe('pride and prejudice');
+  });
+});
+
+describe('libraryMatching.isSameBook', () => {
+  it('matches equivalent ISBNs whatever the titles', () => {
+    expect(libraryMatching.isSameBook(
+      { title: 'Dune', author: 'Frank Herbert', isbn: '0441172717' },
+      { title: 'Dune: Deluxe Edition', author: 'Herbert', isbn: '978-0-441-17271-9' }
+    )).toBe(true);
+  });
+
+  it('matches the same title by the same author written differently', () => {
+    expect(libraryMatching.isSameBook(
+      { title: 'The Hobbit', author: 'J.R.R. Tolkien' },
+      { title: 'Hobbit', author: 'J. R. R. Tolkien' }
+    )).toBe(true);
+  });
+
+  it('matches multi-author credits on any shared surname', () => {
+    expect(libraryMatching.isSameBook(
+      { title: 'Good Omens', author: 'Terry Pratchett and Neil Gaiman' },
+      { title: 'Good Omens', author: 'Neil Gaiman' }
+    )).toBe(true);
+  });
+
+  it('doesn\'t match the same title by a different author', () => {
+    expect(libraryMatching.isSameBook({ title: 'Emma', author: 'Jane Austen' }, { title: 'Emma', author: 'Alexander McCall Smith' })).toBe(false);
+  });
+});
+
+describe('libraryMatching.findSameWork', () => {
+  it('prefers a library match over a wish list match', () => {
+    const libraryBook = makeBook();
+    const wishListBook = makeWishListBook({ title: 'Dune' });
+    expect(libraryMatching.findSameWork({ title: 'dune', author: 'Herbert' }, [libraryBook], [wishListBook])).toEqual({
+      location: 'library',
+      book: libraryBook,
+    });
+  });
+
+  it('finds wish list books and returns null when nothing matches', () => {
+    const wishListBook = makeWishListBook();
+    expect(libraryMatching.findSameWork({ title: 'Children of Dune', author: 'Frank Herbert' }, [], [wishListBook])).toEqual({
+      location: 'wishlist',
+      book: wishListBook,
+    });
+    expect(libraryMatching.findSameWork({ title: 'Emma', author: 'Jane Austen' }, [makeBook()], [wishListBook])).toBeNull();
+  });
+});
+
+describe('libraryMatching.annotateSeriesBooks', () => {
+  it('flags owned and wished-for series books', () => {
+    const seriesBooks: SeriesBook[] = [
+      { id: 'g1', title: 'Dune', author: 'Frank Herbert', isbn: '9780441172719' },
+      { id: 'g2', title: 'Dune Messiah', author: 'Frank Herbert' },
+      { id: 'g3', title: 'Children of Dune', author: 'Frank Herbert' },
+    ];
+    const annotated = libraryMatching.annotateSeriesBooks(
+      seriesBooks,
+      [makeBook({ isbn: '0441172717', title: 'Dune (Ace)', status: 'read' })],
+      [makeWishListBook()]
+    );
+    expect(annotated.map(({ inLibrary, inWishList, libraryBookId, libraryStatus }) => ({ inLibrary, inWishList, libraryBookId, libraryStatus }))).toEqual([
+      { inLibrary: true, inWishList: false, libraryBookId: 'book-1', libraryStatus: 'read' },
+      { inLibrary: false, inWishList: false, libraryBookId: undefined, libraryStatus: undefined },
+      { inLibrary: false, inWishList: true, libraryBookId: undefined, libraryStatus: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import { Book, SeriesBook, WishListBook } from '@/types/book';
+import { AddConflict } from '@/types/repository';
+import { googleBooksAPI } from '@/utils/googleBooks';
+import { isbnUtils } from '@/utils/isbn';
+
+interface MatchableBook {
+  title: string;
+  author: string;
+  isbn?: string;
+}
+
+const LEADING_ARTICLES = /^(the|a|an)\s+/;
+
+// Reduce a title to its core words: no series suffix, punctuation, case or leading article
+const normalizeTitle = (title: string): string => {
+  const { cleanTitle } = googleBooksAPI.extractSeriesInfo(title.trim());
+  return cleanTitle
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(LEADING_ARTICLES, '');
+};
+
+// Reduce an author to lowercase words so "J.R.R. Tolkien" and "J. R. R. Tolkien" compare equal
+const normalizeAuthor = (author: string): string =>
+  author
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Last word of each name in an author credit, splitting multi-author credits on commas and "and"
+const authorSurnames = (author: string): string[] =>
+  author.split(/,|\band\b/).map(name => normalizeAuthor(name).split(' ').pop() || '').filter(Boolean);
+
+// Authors match when their surnames agree; multi-author credits match on any shared surname
+const isSameAuthor = (a: string, b: string): boolean => {
+  const aSurnames = authorSurnames(a);
+  const bSurnames = authorSurnames(b);
+  if (aSurnames.length === 0 || bSurnames.length === 0) return true;
+  return aSurnames.some(surname => bSurnames.includes(surname));
+};
+
+const isSameBook = (a: MatchableBook, b: MatchableBook): boolean => {
+  if (isbnUtils.isSame(a.isbn, b.isbn)) return true;
+
+  const aTitle = normalizeTitle(a.title);
+  return aTitle !== '' && aTitle === normalizeTitle(b.title) && isSameAuthor(a.author, b.author);
+};
+
+export const libraryMatching = {
+  normalizeTitle,
+  normalizeAuthor,
+  authorSurnames,
+  isSameBook,
+
+  // The first library book, then wish list book, that is the same work
+  findSameWork: (book: MatchableBook, libraryBooks: Book[], wishListBooks: WishListBook[]): AddConflict | null => {
+    const libraryBook = libraryBooks.find(other => isSameBook(book, other));
+    if (libraryBook) return { location: 'library', book: libraryBook };
+    const wishListBook = wishListBooks.find(other => isSameBook(book, other));
+    return wishListBook ? { location: 'wishlist', book: wishListBook } : null;
+  },
+
+  // Flag each series result with whether it's owned, wished for, and how far the reader got
+  annotateSeriesBooks: (seriesBooks: SeriesBook[], libraryBooks: Book[], wishListBooks: WishListBook[]): SeriesBook[] =>
+    seriesBooks.map(seriesBook => {
+      const libraryBook = libraryBooks.find(book => isSameBook(seriesBook, book));
+      return {
+        ...seriesBook,
+        inLibrary: !!libraryBook,
+        inWishList: wishListBooks.some(book => isSameBook(seriesBook, book)),
+        libraryBookId: libraryBook?.id,
+        libraryStatus: libraryBook?.status,
+      };
+    }),
+};
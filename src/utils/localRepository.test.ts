@@ -0,0 +1,316 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Book } from '@/types/book';
+import { LibraryRepository } from '@/types/repository';
+import { createLocalRepository, createMemoryStore } from '@/utils/localRepository';
+
+type NewBook = Omit<Book, 'id' | 'dateAdded'>;
+
+const dune: NewBook = { title: 'Dune', author: 'Frank Herbert', isbn: '0-306-40615-2', pages: 400, status: 'want-to-read', ownershipType: 'physical' };
+const emma: NewBook = { title: 'Emma', author: 'Jane Austen', pages: 300, status: 'read', ownershipType: 'digital' };
+
+// Behaviour every LibraryRepository backend must share, so the UI can treat them alike
+const describeRepositoryContract = (name: string, createRepository: () => LibraryRepository) => {
+  describe(`${name} repository`, () => {
+    describe('books', () => {
+      it('adds a book with an id, date added and canonical ISBN', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook(dune);
+
+        expect(book.id).toEqual(expect.any(String));
+        expect(book.dateAdded).toBeInstanceOf(Date);
+        expect(book.isbn).toBe('9780306406157');
+        expect(await repository.getBook(book.id)).toEqual(book);
+        expect(await repository.getBooks()).toEqual([book]);
+      });
+
+      it('returns null for a book that does not exist', async () => {
+        const repository = createRepository();
+        expect(await repository.getBook('missing')).toBeNull();
+        expect(await repository.updateBook('missing', { title: 'Nope' })).toBeNull();
+        expect(await repository.deleteBook('missing')).toBe(false);
+      });
+
+      it('updates a book, clearing fields set to null and leaving undefined ones alone', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook({ ...dune, genre: 'Science Fiction' });
+
+        const updated = await repository.updateBook(book.id, { title: 'Dune Messiah', genre: null, pages: undefined });
+
+        expect(updated).toMatchObject({ id: book.id, title: 'Dune Messiah', pages: 400 });
+        expect(updated).not.toHaveProperty('genre');
+        expect(await repository.getBook(book.id)).toEqual(updated);
+      });
+
+      it('deletes a book with its reading sessions and notes', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook(dune);
+        await repository.addReadingSession({ bookId: book.id, startTime: new Date(), endTime: new Date() });
+        await repository.addBookNote({ bookId: book.id, type: 'note', content: 'Spice' });
+
+        expect(await repository.deleteBook(book.id)).toBe(true);
+        expect(await repository.getBooks()).toEqual([]);
+        expect(await repository.getReadingSessions(book.id)).toEqual([]);
+        expect(await repository.getBookNotes(book.id)).toEqual([]);
+      });
+
+      it('finds books by ISBN in any form and filters by status', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook(dune);
+        await repository.addBook(emma);
+
+        expect(await repository.checkBookExists('9780306406157')).toEqual(book);
+        expect(await repository.checkBookExists('0306406152')).toEqual(book);
+        expect((await repository.getBooksByStatus('read')).map(b => b.title)).toEqual(['Emma']);
+        expect(await repository.getReadingStats()).toMatchObject({ total: 2, read: 1, wantToRead: 1, wishList: 0 });
+      });
+
+      it('merges a duplicate into the kept book', async () => {
+        const repository = createRepository();
+        const keep = await repository.addBook(dune);
+        const merge = await repository.addBook({ ...dune, isbn: undefined });
+        await repository.addBookNote({ bookId: merge.id, type: 'quote', content: 'Fear is the mind-killer' });
+
+        expect(await repository.mergeBooks(keep.id, merge.id, { genre: 'Science Fiction' })).toBe(true);
+        expect(await repository.getBook(merge.id)).toBeNull();
+        expect(await repository.getBook(keep.id)).toMatchObject({ genre: 'Science Fiction' });
+        expect((await repository.getBookNotes(keep.id)).map(note => note.content)).toEqual(['Fear is the mind-killer']);
+      });
+    });
+
+    describe('adding without duplicates', () => {
+      it('reports the same work already in the library', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook(dune);
+
+        expect(await repository.addBookChecked({ ...dune, isbn: '9780306406157' })).toEqual({
+          status: 'conflict',
+          conflict: { location: 'library', book },
+        });
+        expect(await repository.addWishListBookChecked({ title: 'dune', author: 'Frank Herbert' })).toMatchObject({
+          status: 'conflict',
+          conflict: { location: 'library' },
+        });
+        expect(await repository.getBooks()).toHaveLength(1);
+      });
+
+      it('reports the same work already on the wish list', async () => {
+        const repository = createRepository();
+        const wished = await repository.addWishListBook({ title: 'Emma', author: 'Jane Austen' });
+
+        expect(await repository.findSameWork(emma)).toEqual({ location: 'wishlist', book: wished });
+      });
+
+      it('adds another copy when asked to', async () => {
+        const repository = createRepository();
+        await repository.addBook(dune);
+
+        expect(await repository.addBookChecked(dune, { allowDuplicate: true })).toMatchObject({ status: 'added' });
+        expect(await repository.getBooks()).toHaveLength(2);
+      });
+    });
+
+    describe('wish list', () => {
+      it('adds, updates and deletes wish list books', async () => {
+        const repository = createRepository();
+        const book = await repository.addWishListBook({ title: 'Emma', author: 'Jane Austen', notes: 'Book club' });
+
+        expect(await repository.getWishListBook(book.id)).toEqual(book);
+        expect(await repository.updateWishListBook(book.id, { priority: 'high', notes: null })).toBe(true);
+        const updated = await repository.getWishListBook(book.id);
+        expect(updated).toMatchObject({ priority: 'high' });
+        expect(updated).not.toHaveProperty('notes');
+
+        expect(await repository.deleteWishListBook(book.id)).toBe(true);
+        expect(await repository.getWishListBooks()).toEqual([]);
+        expect(await repository.updateWishListBook(book.id, { priority: 'low' })).toBe(false);
+      });
+
+      it('moves a book to the library with its details and notes', async () => {
+        const repository = createRepository();
+        const wished = await repository.addWishListBook({
+          title: 'Emma',
+          author: 'Jane Austen',
+          publisher: 'Penguin',
+          description: 'Handsome, clever, and rich',
+          recommendedBy: 'Sam',
+          notes: 'The annotated edition',
+        });
+
+        const moved = await repository.moveWishListBookToCollection(wished.id, { status: 'read', ownershipType: 'digital' });
+
+        expect(moved).toMatchObject({ title: 'Emma', publisher: 'Penguin', status: 'read', ownershipType: 'digital' });
+        expect(moved?.dateFinished).toBeInstanceOf(Date);
+        expect(await repository.getWishListBooks()).toEqual([]);
+        expect((await repository.getBookNotes(moved!.id)).map(note => note.content)).toEqual([
+          'Recommended by Sam\n\nThe annotated edition',
+        ]);
+      });
+
+      it('does nothing when moving a book that is not on the wish list', async () => {
+        const repository = createRepository();
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await repository.moveWishListBookToCollection('missing')).toBeNull();
+        expect(await repository.getBooks()).toEqual([]);
+        consoleError.mockRestore();
+      });
+    });
+
+    describe('reading sessions and notes', () => {
+      it('moves the current page to where a session ended', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook({ ...dune, status: 'currently-reading' });
+
+        await repository.addReadingSession({ bookId: book.id, startTime: new Date(), endTime: new Date(), startPage: 1, endPage: 42 });
+
+        expect(await repository.getBook(book.id)).toMatchObject({ currentPage: 42 });
+        expect(await repository.getReadingSessions(book.id)).toHaveLength(1);
+      });
+
+      it('edits and deletes notes', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook(dune);
+        const note = await repository.addBookNote({ bookId: book.id, type: 'note', content: 'First' });
+
+        expect(await repository.updateBookNote(note.id, { content: 'Second' })).toBe(true);
+        const [updated] = await repository.getBookNotes(book.id);
+        expect(updated).toMatchObject({ content: 'Second' });
+        expect(updated.dateUpdated).toBeInstanceOf(Date);
+
+        expect(await repository.deleteBookNote(note.id)).toBe(true);
+        expect(await repository.getBookNotes(book.id)).toEqual([]);
+      });
+    });
+
+    describe('highlights', () => {
+      it('imports highlights with their book and lists them oldest first', async () => {
+        const repository = createRepository();
+        await repository.importLibrary({
+          books: [{ ...dune, id: 'kindle-book', dateAdded: new Date('2024-01-01') }],
+          wishlist: [],
+          readingSessions: [],
+          notes: [],
+          highlights: [
+            { id: 'h2', bookId: 'kindle-book', type: 'note', content: 'Remember this', location: '900', dateAdded: new Date('2024-02-02') },
+            { id: 'h1', bookId: 'kindle-book', type: 'highlight', content: 'Fear is the mind-killer', location: '512-515', dateAdded: new Date('2024-02-01') },
+          ],
+          shelves: [],
+        });
+        const [book] = await repository.getBooks();
+        const onHighlights = vi.fn();
+        repository.onHighlightsChange(book.id, onHighlights);
+
+        const highlights = await repository.getHighlights(book.id);
+        expect(highlights.map(highlight => highlight.content)).toEqual(['Fear is the mind-killer', 'Remember this']);
+        expect(highlights[0]).toMatchObject({ bookId: book.id, type: 'highlight', location: '512-515' });
+        expect(onHighlights).toHaveBeenLastCalledWith(highlights);
+        expect(await repository.getBookNotes(book.id)).toEqual([]);
+
+        expect(await repository.deleteHighlight(highlights[0].id)).toBe(true);
+        expect(onHighlights).toHaveBeenLastCalledWith([highlights[1]]);
+        expect(await repository.deleteHighlight(highlights[0].id)).toBe(false);
+      });
+
+      it('moves highlights with a merged book and removes them with a deleted one', async () => {
+        const repository = createRepository();
+        const keep = await repository.addBook(dune);
+        await repository.importLibrary({
+          books: [{ ...dune, id: 'kindle-book', isbn: undefined, dateAdded: new Date('2024-01-01') }],
+          wishlist: [],
+          readingSessions: [],
+          notes: [],
+          highlights: [{ id: 'h1', bookId: 'kindle-book', type: 'highlight', content: 'Spice', dateAdded: new Date('2024-02-01') }],
+          shelves: [],
+        });
+        const merge = (await repository.getBooks()).find(book => book.id !== keep.id)!;
+
+        expect(await repository.mergeBooks(keep.id, merge.id, {})).toBe(true);
+        expect((await repository.getHighlights(keep.id)).map(highlight => highlight.content)).toEqual(['Spice']);
+
+        expect(await repository.deleteBook(keep.id)).toBe(true);
+        expect(await repository.getHighlights(keep.id)).toEqual([]);
+        expect((await repository.exportLibrary()).highlights).toEqual([]);
+      });
+    });
+
+    describe('shelves', () => {
+      it('puts books on shelves and takes them off when the shelf is deleted', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook(dune);
+        const shelf = await repository.addShelf('  Favourites  ', 'pink');
+
+        expect(shelf).toMatchObject({ name: 'Favourites', color: 'pink' });
+        expect(await repository.addBookToShelf(book.id, shelf.id)).toBe(true);
+        expect(await repository.getBook(book.id)).toMatchObject({ shelfIds: [shelf.id] });
+
+        expect(await repository.deleteShelf(shelf.id)).toBe(true);
+        expect(await repository.getShelves()).toEqual([]);
+        expect((await repository.getBook(book.id))?.shelfIds).toEqual([]);
+      });
+    });
+
+    describe('listeners', () => {
+      it('call back straight away and after every change until unsubscribed', async () => {
+        const repository = createRepository();
+        const onBooks = vi.fn();
+        const unsubscribe = repository.onBooksChange(onBooks);
+        expect(onBooks).toHaveBeenLastCalledWith([]);
+
+        const book = await repository.addBook(dune);
+        expect(onBooks).toHaveBeenLastCalledWith([book]);
+
+        unsubscribe();
+        await repository.addBook(emma);
+        expect(onBooks).toHaveBeenCalledTimes(2);
+      });
+
+      it('follow a single book until it is deleted', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook(dune);
+        const onBook = vi.fn();
+        repository.onBookChange(book.id, onBook);
+        expect(onBook).toHaveBeenLastCalledWith(book);
+
+        await repository.updateBook(book.id, { rating: 5 });
+        expect(onBook).toHaveBeenLastCalledWith(expect.objectContaining({ rating: 5 }));
+
+        await repository.deleteBook(book.id);
+        expect(onBook).toHaveBeenLastCalledWith(null);
+      });
+    });
+
+    describe('backups', () => {
+      it('exports, clears and imports the library with new ids', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook(dune);
+        await repository.addBookNote({ bookId: book.id, type: 'note', content: 'Spice' });
+        await repository.addWishListBook({ title: 'Emma', author: 'Jane Austen' });
+        const exported = await repository.exportLibrary();
+
+        await repository.clearLibrary();
+        expect(await repository.getBooks()).toEqual([]);
+
+        await repository.importLibrary(exported);
+        const [imported] = await repository.getBooks();
+        expect(imported).toMatchObject({ title: 'Dune', dateAdded: book.dateAdded });
+        expect(imported.id).not.toBe(book.id);
+        expect((await repository.getBookNotes(imported.id)).map(note => note.content)).toEqual(['Spice']);
+        expect(await repository.getWishListBooks()).toHaveLength(1);
+      });
+
+      it('replaces the library with a backup', async () => {
+        const repository = createRepository();
+        const book = await repository.addBook(dune);
+        const exported = await repository.exportLibrary();
+        await repository.addBook({ ...dune, title: 'Emma', author: 'Jane Austen', isbn: undefined });
+
+        await repository.replaceLibrary(exported);
+        const books = await repository.getBooks();
+        expect(books.map(({ title }) => title)).toEqual(['Dune']);
+        expect(books[0].id).not.toBe(book.id);
+      });
+    });
+  });
+};
+
+describeRepositoryContract('In-memory', () => createLocalRepository(createMemoryStore()));
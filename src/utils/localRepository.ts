@@ -0,0 +1,472 @@
+import { Book, BookNote, Highlight, ReadingSession, Shelf, WishListBook } from '@/types/book';
+import { AddResult, LibraryData, LibraryRepository, LibraryStore, LibraryTable, Unsubscribe } from '@/types/repository';
+import { applyUpdate } from '@/utils/storage';
+import { isbnUtils } from '@/utils/isbn';
+import { libraryMatching } from '@/utils/libraryMatching';
+import { backupUtils, LIBRARY_TABLES } from '@/utils/backup';
+import { wishListUtils } from '@/utils/wishList';
+
+const byDateAddedDesc = (a: { dateAdded: Date }, b: { dateAdded: Date }) =>
+  b.dateAdded.getTime() - a.dateAdded.getTime();
+
+const byDateAddedAsc = (a: Highlight, b: Highlight) =>
+  a.dateAdded.getTime() - b.dateAdded.getTime();
+
+const byStartTimeAsc = (a: ReadingSession, b: ReadingSession) =>
+  a.startTime.getTime() - b.startTime.getTime();
+
+const byNameAsc = (a: Shelf, b: Shelf) => a.name.localeCompare(b.name);
+
+// Build a repository that keeps everything in a LibraryStore on this device, without an account
+export const createLocalRepository = (store: LibraryStore): LibraryRepository => {
+  const listeners = new Map<LibraryTable, Set<() => void>>();
+
+  const notify = (table: LibraryTable) => {
+    listeners.get(table)?.forEach(listener => listener());
+  };
+
+  const write = <T extends LibraryTable>(table: T, items: LibraryData[T]) => {
+    store.save(table, items);
+    notify(table);
+  };
+
+  // Run the listener now and whenever the table changes
+  const subscribe = (table: LibraryTable, listener: () => void): Unsubscribe => {
+    if (!listeners.has(table)) listeners.set(table, new Set());
+    listeners.get(table)!.add(listener);
+    listener();
+    return () => {
+      listeners.get(table)?.delete(listener);
+    };
+  };
+
+  // Imported records get new ids, and their ISBNs are stored the usual way
+  const withNewIds = (data: LibraryData): LibraryData => {
+    const imported = backupUtils.assignNewIds(data, () => crypto.randomUUID());
+    imported.books = imported.books.map(isbnUtils.withCanonicalIsbn);
+    imported.wishlist = imported.wishlist.map(isbnUtils.withCanonicalIsbn);
+    return imported;
+  };
+
+  store.watch?.(notify);
+
+  const repository: LibraryRepository = {
+    // Get all books, newest first
+    getBooks: async (): Promise<Book[]> => {
+      return [...store.load('books')].sort(byDateAddedDesc);
+    },
+
+    // Get a book by id
+    getBook: async (id: string): Promise<Book | null> => {
+      return store.load('books').find(book => book.id === id) || null;
+    },
+
+    // Add a new book
+    addBook: async (book: Omit<Book, 'id' | 'dateAdded'>): Promise<Book> => {
+      const newBook: Book = {
+        ...isbnUtils.withCanonicalIsbn(book),
+        id: crypto.randomUUID(),
+        dateAdded: new Date(),
+      };
+      write('books', [...store.load('books'), newBook]);
+      return newBook;
+    },
+
+    // Update an existing book, removing fields set to null
+    updateBook: async (id, updates): Promise<Book | null> => {
+      const books = store.load('books');
+      const book = books.find(b => b.id === id);
+      if (!book) return null;
+
+      const updatedBook = applyUpdate(book, isbnUtils.withCanonicalIsbn(updates));
+      write('books', books.map(b => (b.id === id ? updatedBook : b)));
+      return updatedBook;
+    },
+
+    // Delete a book along with its reading sessions, notes and highlights
+    deleteBook: async (id: string): Promise<boolean> => {
+      const books = store.load('books');
+      if (!books.some(book => book.id === id)) return false;
+
+      write('books', books.filter(book => book.id !== id));
+      write('readingSessions', store.load('readingSessions').filter(session => session.bookId !== id));
+      write('notes', store.load('notes').filter(note => note.bookId !== id));
+      write('highlights', store.load('highlights').filter(highlight => highlight.bookId !== id));
+      return true;
+    },
+
+    // Merge a duplicate into another book, keeping its reading sessions, notes and highlights
+    mergeBooks: async (keepId, mergeId, updates): Promise<boolean> => {
+      const books = store.load('books');
+      if (!books.some(book => book.id === keepId) || !books.some(book => book.id === mergeId)) return false;
+
+      await repository.updateBook(keepId, updates);
+      write('readingSessions', store.load('readingSessions').map(session =>
+        session.bookId === mergeId ? { ...session, bookId: keepId } : session
+      ));
+      write('notes', store.load('notes').map(note => (note.bookId === mergeId ? { ...note, bookId: keepId } : note)));
+      write('highlights', store.load('highlights').map(highlight =>
+        highlight.bookId === mergeId ? { ...highlight, bookId: keepId } : highlight
+      ));
+      write('books', store.load('books').filter(book => book.id !== mergeId));
+      return true;
+    },
+
+    // Look for the same work in the library, then the wish list
+    findSameWork: async (book) => {
+      return libraryMatching.findSameWork(book, store.load('books'), store.load('wishlist'));
+    },
+
+    // Add a book unless the same work is already saved
+    addBookChecked: async (book, options = {}): Promise<AddResult<Book>> => {
+      const conflict = options.allowDuplicate ? null : await repository.findSameWork(book);
+      if (conflict) return { status: 'conflict', conflict };
+      return { status: 'added', book: await repository.addBook(book) };
+    },
+
+    // Add a book to the wish list unless the same work is already saved
+    addWishListBookChecked: async (book, options = {}): Promise<AddResult<WishListBook>> => {
+      const conflict = options.allowDuplicate ? null : await repository.findSameWork(book);
+      if (conflict) return { status: 'conflict', conflict };
+      return { status: 'added', book: await repository.addWishListBook(book) };
+    },
+
+    // Get books by status, newest first
+    getBooksByStatus: async (status) => {
+      return (await repository.getBooks()).filter(book => book.status === status);
+    },
+
+    // Get reading statistics
+    getReadingStats: async () => {
+      const books = store.load('books');
+      return {
+        total: books.length,
+        read: books.filter(book => book.status === 'read').length,
+        currentlyReading: books.filter(book => book.status === 'currently-reading').length,
+        wantToRead: books.filter(book => book.status === 'want-to-read').length,
+        paused: books.filter(book => book.status === 'paused').length,
+        dnf: books.filter(book => book.status === 'dnf').length,
+        wishList: store.load('wishlist').length,
+      };
+    },
+
+    // Check if a book with the given ISBN already exists
+    checkBookExists: async (isbn: string): Promise<Book | null> => {
+      if (!isbn) return null;
+      return store.load('books').find(book => isbnUtils.isSame(book.isbn, isbn)) || null;
+    },
+
+    // Listen for changes to the library
+    onBooksChange: (callback) => {
+      return subscribe('books', () => callback([...store.load('books')].sort(byDateAddedDesc)));
+    },
+
+    // Listen for changes to a single book
+    onBookChange: (id, callback) => {
+      return subscribe('books', () => callback(store.load('books').find(book => book.id === id) || null));
+    },
+
+    // WISH LIST METHODS
+
+    // Get all wish list books, newest first
+    getWishListBooks: async (): Promise<WishListBook[]> => {
+      return [...store.load('wishlist')].sort(byDateAddedDesc);
+    },
+
+    // Get a wish list book by id
+    getWishListBook: async (id: string): Promise<WishListBook | null> => {
+      return store.load('wishlist').find(book => book.id === id) || null;
+    },
+
+    // Add a new book to the wish list
+    addWishListBook: async (book: Omit<WishListBook, 'id' | 'dateAdded'>): Promise<WishListBook> => {
+      const newBook: WishListBook = {
+        ...isbnUtils.withCanonicalIsbn(book),
+        id: crypto.randomUUID(),
+        dateAdded: new Date(),
+      };
+      write('wishlist', [...store.load('wishlist'), newBook]);
+      return newBook;
+    },
+
+    // Update a book on the wish list; null removes a field
+    updateWishListBook: async (id, updates): Promise<boolean> => {
+      const wishList = store.load('wishlist');
+      if (!wishList.some(book => book.id === id)) return false;
+
+      const canonicalUpdates = isbnUtils.withCanonicalIsbn(updates);
+      write('wishlist', wishList.map(book => (book.id === id ? applyUpdate(book, canonicalUpdates) : book)));
+      return true;
+    },
+
+    // Delete a book from the wish list
+    deleteWishListBook: async (id: string): Promise<boolean> => {
+      const wishList = store.load('wishlist');
+      if (!wishList.some(book => book.id === id)) return false;
+
+      write('wishlist', wishList.filter(book => book.id !== id));
+      return true;
+    },
+
+    // Check if a book with the given ISBN is already on the wish list
+    checkWishListBookExists: async (isbn: string): Promise<WishListBook | null> => {
+      if (!isbn) return null;
+      return store.load('wishlist').find(book => isbnUtils.isSame(book.isbn, isbn)) || null;
+    },
+
+    // Move a book from the wish list to the main collection
+    moveWishListBookToCollection: async (
+      wishListBookId,
+      { status = 'currently-reading', ownershipType = 'physical' } = {}
+    ): Promise<Book | null> => {
+      const wishList = store.load('wishlist');
+      const wishListBook = wishList.find(book => book.id === wishListBookId);
+      if (!wishListBook) {
+        console.error('Error moving book from wish list to collection: Wish list book not found');
+        return null;
+      }
+
+      const addedBook: Book = {
+        ...wishListUtils.toLibraryBook(wishListBook, status, ownershipType),
+        id: crypto.randomUUID(),
+        dateAdded: new Date(),
+      };
+      const noteContent = wishListUtils.toNoteContent(wishListBook);
+
+      write('books', [...store.load('books'), addedBook]);
+      if (noteContent) {
+        const note: BookNote = { id: crypto.randomUUID(), bookId: addedBook.id, type: 'note', content: noteContent, dateAdded: addedBook.dateAdded };
+        write('notes', [...store.load('notes'), note]);
+      }
+      write('wishlist', wishList.filter(book => book.id !== wishListBookId));
+      return addedBook;
+    },
+
+    // Listen for changes to the wish list
+    onWishListBooksChange: (callback) => {
+      return subscribe('wishlist', () => callback([...store.load('wishlist')].sort(byDateAddedDesc)));
+    },
+
+    // READING SESSION METHODS
+
+    // Get all reading sessions for a book, oldest first
+    getReadingSessions: async (bookId: string): Promise<ReadingSession[]> => {
+      return store.load('readingSessions').filter(session => session.bookId === bookId).sort(byStartTimeAsc);
+    },
+
+    // Log a reading session and move the book's current page to where the session ended
+    addReadingSession: async (session: Omit<ReadingSession, 'id'>): Promise<ReadingSession> => {
+      const newSession: ReadingSession = {
+        ...session,
+        id: crypto.randomUUID(),
+      };
+      write('readingSessions', [...store.load('readingSessions'), newSession]);
+
+      if (session.endPage !== undefined) {
+        await repository.updateBook(session.bookId, { currentPage: session.endPage });
+      }
+      return newSession;
+    },
+
+    // Delete a reading session
+    deleteReadingSession: async (id: string): Promise<boolean> => {
+      const sessions = store.load('readingSessions');
+      if (!sessions.some(session => session.id === id)) return false;
+
+      write('readingSessions', sessions.filter(session => session.id !== id));
+      return true;
+    },
+
+    // Listen for changes to the reading sessions of a book
+    onReadingSessionsChange: (bookId, callback) => {
+      return subscribe('readingSessions', () =>
+        callback(store.load('readingSessions').filter(session => session.bookId === bookId).sort(byStartTimeAsc))
+      );
+    },
+
+    // NOTE METHODS
+
+    // Get all notes, quotes and highlights for a book, newest first
+    getBookNotes: async (bookId: string): Promise<BookNote[]> => {
+      return store.load('notes').filter(note => note.bookId === bookId).sort(byDateAddedDesc);
+    },
+
+    // Add a note, quote or highlight to a book
+    addBookNote: async (note: Omit<BookNote, 'id' | 'dateAdded' | 'dateUpdated'>): Promise<BookNote> => {
+      const newNote: BookNote = {
+        ...note,
+        id: crypto.randomUUID(),
+        dateAdded: new Date(),
+      };
+      write('notes', [...store.load('notes'), newNote]);
+      return newNote;
+    },
+
+    // Update the content, type or page of a note
+    updateBookNote: async (id, updates): Promise<boolean> => {
+      const notes = store.load('notes');
+      if (!notes.some(note => note.id === id)) return false;
+
+      write('notes', notes.map(note => (note.id === id ? { ...note, ...updates, dateUpdated: new Date() } : note)));
+      return true;
+    },
+
+    // Delete a note
+    deleteBookNote: async (id: string): Promise<boolean> => {
+      const notes = store.load('notes');
+      if (!notes.some(note => note.id === id)) return false;
+
+      write('notes', notes.filter(note => note.id !== id));
+      return true;
+    },
+
+    // Listen for changes to the notes of a book
+    onBookNotesChange: (bookId, callback) => {
+      return subscribe('notes', () =>
+        callback(store.load('notes').filter(note => note.bookId === bookId).sort(byDateAddedDesc))
+      );
+    },
+
+    // HIGHLIGHT METHODS
+
+    // Get the Kindle highlights of a book, oldest first
+    getHighlights: async (bookId: string): Promise<Highlight[]> => {
+      return store.load('highlights').filter(highlight => highlight.bookId === bookId).sort(byDateAddedAsc);
+    },
+
+    // Delete a highlight
+    deleteHighlight: async (id: string): Promise<boolean> => {
+      const highlights = store.load('highlights');
+      if (!highlights.some(highlight => highlight.id === id)) return false;
+
+      write('highlights', highlights.filter(highlight => highlight.id !== id));
+      return true;
+    },
+
+    // Listen for changes to the highlights of a book
+    onHighlightsChange: (bookId, callback) => {
+      return subscribe('highlights', () =>
+        callback(store.load('highlights').filter(highlight => highlight.bookId === bookId).sort(byDateAddedAsc))
+      );
+    },
+
+    // SHELF METHODS
+
+    // Get all shelves, alphabetically
+    getShelves: async (): Promise<Shelf[]> => {
+      return [...store.load('shelves')].sort(byNameAsc);
+    },
+
+    // Create a new shelf
+    addShelf: async (name, color = 'blue'): Promise<Shelf> => {
+      const newShelf: Shelf = {
+        id: crypto.randomUUID(),
+        name: name.trim(),
+        color,
+        dateAdded: new Date(),
+      };
+      write('shelves', [...store.load('shelves'), newShelf]);
+      return newShelf;
+    },
+
+    // Rename or recolour a shelf
+    updateShelf: async (id, updates): Promise<boolean> => {
+      const shelves = store.load('shelves');
+      if (!shelves.some(shelf => shelf.id === id)) return false;
+
+      write('shelves', shelves.map(shelf => (shelf.id === id ? { ...shelf, ...updates } : shelf)));
+      return true;
+    },
+
+    // Delete a shelf and take every book off it
+    deleteShelf: async (id: string): Promise<boolean> => {
+      const shelves = store.load('shelves');
+      if (!shelves.some(shelf => shelf.id === id)) return false;
+
+      write('books', store.load('books').map(book =>
+        book.shelfIds?.includes(id) ? { ...book, shelfIds: book.shelfIds.filter(shelfId => shelfId !== id) } : book
+      ));
+      write('shelves', shelves.filter(shelf => shelf.id !== id));
+      return true;
+    },
+
+    // Put a book on a shelf
+    addBookToShelf: async (bookId: string, shelfId: string): Promise<boolean> => {
+      const book = store.load('books').find(b => b.id === bookId);
+      if (!book) return false;
+      if (book.shelfIds?.includes(shelfId)) return true;
+
+      return !!(await repository.updateBook(bookId, { shelfIds: [...(book.shelfIds || []), shelfId] }));
+    },
+
+    // Take a book off a shelf
+    removeBookFromShelf: async (bookId: string, shelfId: string): Promise<boolean> => {
+      const book = store.load('books').find(b => b.id === bookId);
+      if (!book) return false;
+
+      return !!(await repository.updateBook(bookId, { shelfIds: (book.shelfIds || []).filter(id => id !== shelfId) }));
+    },
+
+    // Listen for changes to the shelves
+    onShelvesChange: (callback) => {
+      return subscribe('shelves', () => callback([...store.load('shelves')].sort(byNameAsc)));
+    },
+
+    // BACKUP METHODS
+
+    // Get every record in the library
+    exportLibrary: async (): Promise<LibraryData> => {
+      return {
+        books: store.load('books'),
+        wishlist: store.load('wishlist'),
+        readingSessions: store.load('readingSessions'),
+        notes: store.load('notes'),
+        highlights: store.load('highlights'),
+        shelves: store.load('shelves'),
+      };
+    },
+
+    // Add a set of records with new ids, keeping their dates
+    importLibrary: async (data: LibraryData): Promise<void> => {
+      const imported = withNewIds(data);
+      LIBRARY_TABLES.forEach(table => {
+        if (imported[table].length > 0) {
+          write(table, [...store.load(table), ...imported[table]] as LibraryData[typeof table]);
+        }
+      });
+    },
+
+    // Swap the whole library for a set of records, with new ids
+    replaceLibrary: async (data: LibraryData): Promise<void> => {
+      const imported = withNewIds(data);
+      LIBRARY_TABLES.forEach(table => write(table, imported[table]));
+    },
+
+    // Delete everything in the library
+    clearLibrary: async (): Promise<void> => {
+      LIBRARY_TABLES.forEach(table => write(table, []));
+    },
+  };
+
+  return repository;
+};
+
+// Keep data in memory only, optionally starting from a fixed library (useful for tests and demos)
+export const createMemoryStore = (seed: Partial<LibraryData> = {}): LibraryStore => {
+  const data: LibraryData = {
+    books: [],
+    wishlist: [],
+    readingSessions: [],
+    notes: [],
+    highlights: [],
+    shelves: [],
+    ...seed,
+  };
+
+  return {
+    load: (table) => data[table],
+    save: (table, items) => {
+      data[table] = items;
+    },
+  };
+};
@@ -0,0 +1,301 @@
+import { describe, expect, it } from 'vitest';
+import { Book, ReadingStatus } from '@/types/book';
+import { readingStatus } from '@/utils/readingStatus';
+import { makeBook as makeTestBook } from '@/utils/testFixtures';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+const STARTED = new Date('2024-05-01T12:00:00Z');
+const FINISHED = new Date('2024-05-20T12:00:00Z');
+
+const STATUSES: ReadingStatus[] = ['want-to-read', 'currently-reading', 'paused', 'read', 'dnf'];
+
+// Every move the status picker allows; anything else must be rejected
+const ALLOWED: Record<ReadingStatus, ReadingStatus[]> = {
+  'want-to-read': ['currently-reading', 'read', 'dnf'],
+  'currently-reading': ['want-to-read', 'paused', 'read', 'dnf'],
+  'paused': ['want-to-read', 'currently-reading', 'read', 'dnf'],
+  'read': ['currently-reading', 'paused', 'dnf'],
+  'dnf': ['want-to-read', 'currently-reading'],
+};
+
+// Every book in these specs has a page count, so finishing it can mark every page read
+const makeBook = (overrides: Partial<Book> = {}): Book => makeTestBook({ pages: 400, ...overrides });
+
+// A book in the given status with the fields that status normally has
+const bookIn = (status: ReadingStatus): Book => {
+  switch (status) {
+    case 'want-to-read':
+      return makeBook({ status });
+    case 'currently-reading':
+    case 'paused':
+      return makeBook({ status, dateStarted: STARTED, currentPage: 120 });
+    case 'read':
+      return makeBook({ status, dateStarted: STARTED, dateFinished: FINISHED, currentPage: 400, rating: 4 });
+    case 'dnf':
+      return makeBook({ status, dateStarted: STARTED, dateFinished: FINISHED, stoppedAtPage: 150, dnfReason: 'Too slow' });
+  }
+};
+
+describe('readingStatus.canTransition', () => {
+  STATUSES.forEach(from => {
+    STATUSES.forEach(to => {
+      const expected = from === to || ALLOWED[from].includes(to);
+      it(`${expected ? 'allows' : 'rejects'} ${from} → ${to}`, () => {
+        expect(readingStatus.canTransition(from, to)).toBe(expected);
+      });
+    });
+  });
+});
+
+describe('readingStatus.getTransitionUpdates', () => {
+  STATUSES.forEach(from => {
+    STATUSES.filter(to => to !== from && !ALLOWED[from].includes(to)).forEach(to => {
+      it(`throws for ${from} → ${to}`, () => {
+        expect(() => readingStatus.getTransitionUpdates(bookIn(from), to, NOW)).toThrow(
+          `Cannot change reading status from "${from}" to "${to}"`
+        );
+      });
+    });
+  });
+
+  it('returns no updates when the status does not change', () => {
+    STATUSES.forEach(status => {
+      expect(readingStatus.getTransitionUpdates(bookIn(status), status, NOW)).toEqual({});
+    });
+  });
+
+  describe('to want-to-read', () => {
+    (['currently-reading', 'paused', 'dnf'] as ReadingStatus[]).forEach(from => {
+      it(`clears dates and progress from ${from}`, () => {
+        expect(readingStatus.getTransitionUpdates(bookIn(from), 'want-to-read', NOW)).toEqual({
+          status: 'want-to-read',
+          dateStarted: null,
+          dateFinished: null,
+          currentPage: null,
+          stoppedAtPage: null,
+          dnfReason: null,
+        });
+      });
+    });
+  });
+
+  describe('to currently-reading', () => {
+    it('starts a want-to-read book today', () => {
+      expect(readingStatus.getTransitionUpdates(bookIn('want-to-read'), 'currently-reading', NOW)).toEqual({
+        status: 'currently-reading',
+        dateStarted: NOW,
+      });
+    });
+
+    it('resumes a paused book keeping its start date and page', () => {
+      expect(readingStatus.getTransitionUpdates(bookIn('paused'), 'currently-reading', NOW)).toEqual({
+        status: 'currently-reading',
+        dateStarted: STARTED,
+      });
+    });
+
+    it('reopens a book marked read by mistake keeping its start date', () => {
+      expect(readingStatus.getTransitionUpdates(bookIn('read'), 'currently-reading', NOW)).toEqual({
+        status: 'currently-reading',
+        dateStarted: STARTED,
+        dateFinished: null,
+      });
+    });
+
+    it('resumes an abandoned book from the page it was dropped at', () => {
+      expect(readingStatus.getTransitionUpdates(bookIn('dnf'), 'currently-reading', NOW)).toEqual({
+        status: 'currently-reading',
+        dateStarted: STARTED,
+        dateFinished: null,
+        currentPage: 150,
+        stoppedAtPage: null,
+        dnfReason: null,
+      });
+    });
+
+    it('resumes an abandoned book with no stopping page from the start', () => {
+      const book = makeBook({ status: 'dnf', dateStarted: STARTED, dateFinished: FINISHED });
+      expect(readingStatus.getTransitionUpdates(book, 'currently-reading', NOW)).toMatchObject({
+        currentPage: null,
+        stoppedAtPage: null,
+      });
+    });
+  });
+
+  describe('to paused', () => {
+    it('keeps the start date of a book being read', () => {
+      expect(readingStatus.getTransitionUpdates(bookIn('currently-reading'), 'paused', NOW)).toEqual({
+        status: 'paused',
+        dateStarted: STARTED,
+      });
+    });
+
+    it('clears the finish date of a book marked read by mistake', () => {
+      expect(readingStatus.getTransitionUpdates(bookIn('read'), 'paused', NOW)).toEqual({
+        status: 'paused',
+        dateStarted: STARTED,
+        dateFinished: null,
+      });
+    });
+  });
+
+  describe('to read', () => {
+    it('starts and finishes a want-to-read book today and marks every page read', () => {
+      expect(readingStatus.getTransitionUpdates(bookIn('want-to-read'), 'read', NOW)).toEqual({
+        status: 'read',
+        dateStarted: NOW,
+        dateFinished: NOW,
+        currentPage: 400,
+      });
+    });
+
+    (['currently-reading', 'paused'] as ReadingStatus[]).forEach(from => {
+      it(`finishes a ${from} book today keeping its start date`, () => {
+        expect(readingStatus.getTransitionUpdates(bookIn(from), 'read', NOW)).toEqual({
+          status: 'read',
+          dateStarted: STARTED,
+          dateFinished: NOW,
+          currentPage: 400,
+        });
+      });
+    });
+
+    it('leaves the current page alone for books without a page count', () => {
+      const book = makeBook({ status: 'currently-reading', pages: undefined, dateStarted: STARTED, currentPage: 12 });
+      expect(readingStatus.getTransitionUpdates(book, 'read', NOW)).not.toHaveProperty('currentPage');
+    });
+  });
+
+  describe('to dnf', () => {
+    it('abandons a want-to-read book today', () => {
+      expect(readingStatus.getTransitionUpdates(bookIn('want-to-read'), 'dnf', NOW)).toEqual({
+        status: 'dnf',
+        dateStarted: NOW,
+        dateFinished: NOW,
+        stoppedAtPage: null,
+      });
+    });
+
+    (['currently-reading', 'paused'] as ReadingStatus[]).forEach(from => {
+      it(`records where a ${from} book was stopped`, () => {
+        expect(readingStatus.getTransitionUpdates(bookIn(from), 'dnf', NOW)).toEqual({
+          status: 'dnf',
+          dateStarted: STARTED,
+          dateFinished: NOW,
+          stoppedAtPage: 120,
+        });
+      });
+    });
+
+    it('abandons a book marked read by mistake today', () => {
+      expect(readingStatus.getTransitionUpdates(bookIn('read'), 'dnf', NOW)).toEqual({
+        status: 'dnf',
+        dateStarted: STARTED,
+        dateFinished: NOW,
+        stoppedAtPage: 400,
+      });
+    });
+  });
+});
+
+describe('readingStatus.getInitialFields', () => {
+  it('leaves a want-to-read book unstarted', () => {
+    expect(readingStatus.getInitialFields('want-to-read', { currentPage: 10 }, NOW)).toEqual({
+      status: 'want-to-read',
+      dateStarted: undefined,
+      dateFinished: undefined,
+      currentPage: undefined,
+      stoppedAtPage: undefined,
+    });
+  });
+
+  (['currently-reading', 'paused'] as ReadingStatus[]).forEach(status => {
+    it(`starts a ${status} book today at the given page`, () => {
+      expect(readingStatus.getInitialFields(status, { currentPage: 10 }, NOW)).toEqual({
+        status,
+        dateStarted: NOW,
+        dateFinished: undefined,
+        currentPage: 10,
+        stoppedAtPage: undefined,
+      });
+    });
+  });
+
+  it('starts and finishes a read book today', () => {
+    expect(readingStatus.getInitialFields('read', { pages: 300 }, NOW)).toEqual({
+      status: 'read',
+      dateStarted: NOW,
+      dateFinished: NOW,
+      currentPage: 300,
+      stoppedAtPage: undefined,
+    });
+  });
+
+  it('records the stopping page of a dnf book', () => {
+    expect(readingStatus.getInitialFields('dnf', { currentPage: 80 }, NOW)).toEqual({
+      status: 'dnf',
+      dateStarted: NOW,
+      dateFinished: NOW,
+      currentPage: undefined,
+      stoppedAtPage: 80,
+    });
+  });
+});
+
+describe('readingStatus.getImportedDates', () => {
+  it('keeps the dates from the file', () => {
+    expect(readingStatus.getImportedDates('read', { dateStarted: STARTED, dateFinished: FINISHED }, NOW)).toEqual({
+      dateStarted: STARTED,
+      dateFinished: FINISHED,
+    });
+  });
+
+  it('fills in today for the dates the status needs', () => {
+    expect(readingStatus.getImportedDates('read', {}, NOW)).toEqual({ dateStarted: NOW, dateFinished: NOW });
+    expect(readingStatus.getImportedDates('paused', {}, NOW)).toEqual({ dateStarted: NOW, dateFinished: undefined });
+  });
+
+  it('starts a book with only a finish date on the day it was finished', () => {
+    expect(readingStatus.getImportedDates('dnf', { dateFinished: FINISHED }, NOW)).toEqual({
+      dateStarted: FINISHED,
+      dateFinished: FINISHED,
+    });
+  });
+
+  it('drops dates the status can\'t have', () => {
+    expect(readingStatus.getImportedDates('want-to-read', { dateStarted: STARTED }, NOW)).toEqual({
+      dateStarted: undefined,
+      dateFinished: undefined,
+    });
+    expect(readingStatus.getImportedDates('currently-reading', { dateFinished: FINISHED }, NOW)).toEqual({
+      dateStarted: NOW,
+      dateFinished: undefined,
+    });
+  });
+});
+
+describe('readingStatus.startReread', () => {
+  it('archives the finished read and starts a new one', () => {
+    const book = makeBook({ ...bookIn('read'), readingFormat: 'ebook' });
+    expect(readingStatus.startReread(book, 'audiobook', NOW)).toEqual({
+      status: 'currently-reading',
+      readings: [{ dateStarted: STARTED, dateFinished: FINISHED, rating: 4, format: 'ebook' }],
+      readingFormat: 'audiobook',
+      dateStarted: NOW,
+      dateFinished: null,
+      rating: null,
+      currentPage: null,
+    });
+  });
+
+  it('adds to earlier readings', () => {
+    const earlier = { dateStarted: new Date('2020-01-01'), dateFinished: new Date('2020-02-01'), format: 'print' as const };
+    const updates = readingStatus.startReread(makeBook({ ...bookIn('read'), readings: [earlier] }), undefined, NOW);
+    expect(updates.readings).toHaveLength(2);
+    expect(updates.readings?.[0]).toBe(earlier);
+  });
+
+  it('only re-reads finished books', () => {
+    expect(() => readingStatus.startReread(bookIn('currently-reading'), undefined, NOW)).toThrow();
+  });
+});
@@ -0,0 +1,161 @@
+import { Book, BookUpdate, Reading, ReadingFormat, ReadingStatus } from '@/types/book';
+
+// Which statuses a book may move to from each status. Moving a finished book on undoes the finish,
+// e.g. when it was marked read by mistake; reading it again goes through startReread instead, which
+// keeps the finished read in its history.
+export const STATUS_TRANSITIONS: Record<ReadingStatus, ReadingStatus[]> = {
+  'want-to-read': ['currently-reading', 'read', 'dnf'],
+  'currently-reading': ['want-to-read', 'paused', 'read', 'dnf'],
+  'paused': ['want-to-read', 'currently-reading', 'read', 'dnf'],
+  'read': ['currently-reading', 'paused', 'dnf'],
+  'dnf': ['want-to-read', 'currently-reading'],
+};
+
+// How each status reads in the interface
+export const STATUS_LABELS: Record<ReadingStatus, string> = {
+  'want-to-read': 'Want to Read',
+  'currently-reading': 'Currently Reading',
+  'paused': 'Paused',
+  'read': 'Read',
+  'dnf': 'Did Not Finish',
+};
+
+// Which dates a book has in each status: a start date once it's been picked up, and a finish date
+// once it's been read or abandoned
+export const STATUS_DATES: Record<ReadingStatus, { started: boolean; finished: boolean }> = {
+  'want-to-read': { started: false, finished: false },
+  'currently-reading': { started: true, finished: false },
+  'paused': { started: true, finished: false },
+  'read': { started: true, finished: true },
+  'dnf': { started: true, finished: true },
+};
+
+type ProgressFields = Pick<Book, 'pages' | 'currentPage' | 'stoppedAtPage'>;
+
+export const readingStatus = {
+  // Check whether a book can move from one status to another
+  canTransition: (from: ReadingStatus, to: ReadingStatus): boolean => {
+    return from === to || STATUS_TRANSITIONS[from].includes(to);
+  },
+
+  // Dates and progress for a book that is being added with the given status
+  getInitialFields: (
+    status: ReadingStatus,
+    progress: ProgressFields = {},
+    now: Date = new Date()
+  ): Pick<Book, 'status' | 'dateStarted' | 'dateFinished' | 'currentPage' | 'stoppedAtPage'> => {
+    switch (status) {
+      case 'want-to-read':
+        return { status, dateStarted: undefined, dateFinished: undefined, currentPage: undefined, stoppedAtPage: undefined };
+      case 'currently-reading':
+      case 'paused':
+        return { status, dateStarted: now, dateFinished: undefined, currentPage: progress.currentPage, stoppedAtPage: undefined };
+      case 'read':
+        return { status, dateStarted: now, dateFinished: now, currentPage: progress.pages, stoppedAtPage: undefined };
+      case 'dnf':
+        return {
+          status,
+          dateStarted: now,
+          dateFinished: now,
+          currentPage: undefined,
+          stoppedAtPage: progress.stoppedAtPage ?? progress.currentPage,
+        };
+    }
+  },
+
+  // Start and finish dates for a book imported with the given status: the file's dates where it
+  // has them, and today for any the status needs but the file left out. A start date filled in
+  // this way is never after the finish date.
+  getImportedDates: (
+    status: ReadingStatus,
+    dates: Pick<Book, 'dateStarted' | 'dateFinished'>,
+    now: Date = new Date()
+  ): Pick<Book, 'dateStarted' | 'dateFinished'> => {
+    const initial = readingStatus.getInitialFields(status, {}, now);
+    const dateFinished = initial.dateFinished && (dates.dateFinished ?? initial.dateFinished);
+    const defaultStart = dateFinished && initial.dateStarted && dateFinished < initial.dateStarted
+      ? dateFinished
+      : initial.dateStarted;
+    return { dateStarted: initial.dateStarted && (dates.dateStarted ?? defaultStart), dateFinished };
+  },
+
+  // Updates needed to move an existing book to a new status. Throws if the move is not allowed.
+  getTransitionUpdates: (book: Book, to: ReadingStatus, now: Date = new Date()): BookUpdate => {
+    const from = book.status;
+    if (from === to) return {};
+
+    if (!readingStatus.canTransition(from, to)) {
+      throw new Error(`Cannot change reading status from "${from}" to "${to}"`);
+    }
+
+    const updates: BookUpdate = { status: to };
+    const dateStarted = book.dateStarted ?? now;
+
+    switch (to) {
+      case 'want-to-read':
+        // Back on the shelf: the book hasn't been started
+        updates.dateStarted = null;
+        updates.dateFinished = null;
+        updates.currentPage = null;
+        updates.stoppedAtPage = null;
+        updates.dnfReason = null;
+        break;
+      case 'currently-reading':
+        updates.dateStarted = dateStarted;
+        if (book.dateFinished) updates.dateFinished = null;
+        if (from === 'dnf') {
+          // Picking an abandoned book back up resumes from where it was dropped
+          updates.currentPage = book.stoppedAtPage ?? null;
+          updates.stoppedAtPage = null;
+          updates.dnfReason = null;
+        }
+        break;
+      case 'paused':
+        updates.dateStarted = dateStarted;
+        if (book.dateFinished) updates.dateFinished = null;
+        break;
+      case 'read':
+        updates.dateStarted = dateStarted;
+        updates.dateFinished = now;
+        if (book.pages) updates.currentPage = book.pages;
+        break;
+      case 'dnf':
+        updates.dateStarted = dateStarted;
+        updates.dateFinished = now;
+        updates.stoppedAtPage = book.stoppedAtPage ?? book.currentPage ?? null;
+        break;
+    }
+
+    return updates;
+  },
+
+  // Archive the finished read-through of a book and start a new one
+  startReread: (book: Book, format?: ReadingFormat, now: Date = new Date()): BookUpdate => {
+    if (book.status !== 'read') {
+      throw new Error('Only finished books can be re-read');
+    }
+
+    return {
+      status: 'currently-reading',
+      readings: [...(book.readings || []), readingStatus.toCompletedReading(book)],
+      readingFormat: format ?? book.readingFormat ?? null,
+      dateStarted: now,
+      dateFinished: null,
+      rating: null,
+      currentPage: null,
+    };
+  },
+
+  // The current read-through of a book as an earlier reading, for archiving it
+  toCompletedReading: (book: Book): Reading => ({
+    dateStarted: book.dateStarted,
+    dateFinished: book.dateFinished,
+    rating: book.rating,
+    format: book.readingFormat ?? (book.ownershipType === 'digital' ? 'ebook' : 'print'),
+  }),
+
+  // Number of completed read-throughs of a book, including the current one if finished
+  getCompletedReadingCount: (book: Book): number => {
+    return (book.readings?.length || 0) + (book.status === 'read' ? 1 : 0);
+  },
+};
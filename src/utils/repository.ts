@@ -0,0 +1,35 @@
+import { LibraryRepository, StorageBackend } from '@/types/repository';
+import { firestoreStorage } from '@/utils/firestoreStorage';
+import { createLocalRepository, createMemoryStore } from '@/utils/localRepository';
+import { storage } from '@/utils/storage';
+
+const BACKENDS: StorageBackend[] = ['firestore', 'local', 'memory'];
+
+// Pick the backend once at startup from NEXT_PUBLIC_STORAGE_BACKEND, defaulting to Firestore
+const getStorageBackend = (): StorageBackend => {
+  const configured = process.env.NEXT_PUBLIC_STORAGE_BACKEND as StorageBackend | undefined;
+  if (!configured) return 'firestore';
+  if (!BACKENDS.includes(configured)) {
+    console.warn(`Unknown storage backend "${configured}", falling back to Firestore`);
+    return 'firestore';
+  }
+  return configured;
+};
+
+const createRepository = (backend: StorageBackend): LibraryRepository => {
+  switch (backend) {
+    case 'local':
+      return createLocalRepository(storage);
+    case 'memory':
+      return createLocalRepository(createMemoryStore());
+    default:
+      return firestoreStorage;
+  }
+};
+
+export const STORAGE_BACKEND = getStorageBackend();
+
+// Local and in-memory libraries live on this device and don't need an account
+export const REQUIRES_ACCOUNT = STORAGE_BACKEND === 'firestore';
+
+export const libraryRepository = createRepository(STORAGE_BACKEND);
@@ -0,0 +1,95 @@
+import { Book, SeriesBook } from '@/types/book';
+import { libraryMatching } from '@/utils/libraryMatching';
+import { readingStatus } from '@/utils/readingStatus';
+
+export interface SeriesGroup {
+  name: string;
+  books: Book[]; // Ordered by seriesNumber, unnumbered books last
+}
+
+export interface SeriesProgress {
+  ownedCount: number;
+  readCount: number;
+  nextToRead?: Book; // First owned volume in order that hasn't been read or abandoned
+  nextMissingNumber?: number; // Set when the next volume to read isn't in the library yet
+  missingNumbers: number[]; // Whole-number volumes up to the highest known one that aren't owned
+}
+
+// Series names are grouped case-insensitively so "The Expanse" and "the expanse" end up together
+const getSeriesKey = (name: string): string => name.trim().toLowerCase();
+
+// Order books by their position in the series, falling back to title for ties and unnumbered books
+const compareSeriesOrder = (a: Book, b: Book): number => {
+  if (a.seriesNumber !== undefined && b.seriesNumber !== undefined && a.seriesNumber !== b.seriesNumber) {
+    return a.seriesNumber - b.seriesNumber;
+  }
+  if (a.seriesNumber !== undefined && b.seriesNumber === undefined) return -1;
+  if (a.seriesNumber === undefined && b.seriesNumber !== undefined) return 1;
+  return a.title.localeCompare(b.title);
+};
+
+const isRead = (book: Book): boolean => readingStatus.getCompletedReadingCount(book) > 0;
+
+export const seriesUtils = {
+  getSeriesKey,
+  compareSeriesOrder,
+
+  // Group books that belong to a series, sorted by series name
+  groupBySeries: (books: Book[]): SeriesGroup[] => {
+    const groups = new Map<string, SeriesGroup>();
+
+    books.forEach(book => {
+      if (!book.series?.trim()) return;
+      const key = getSeriesKey(book.series);
+      const group = groups.get(key);
+      if (group) {
+        group.books.push(book);
+      } else {
+        groups.set(key, { name: book.series.trim(), books: [book] });
+      }
+    });
+
+    return Array.from(groups.values())
+      .map(group => ({ ...group, books: [...group.books].sort(compareSeriesOrder) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  // Work out how far through a series the reader is, using search results to spot later volumes
+  getProgress: (group: SeriesGroup, knownVolumes: SeriesBook[] = []): SeriesProgress => {
+    const ownedNumbers = new Set(
+      group.books.map(book => book.seriesNumber).filter((number): number is number => number !== undefined)
+    );
+    const readNumbers = group.books
+      .filter(isRead)
+      .map(book => book.seriesNumber)
+      .filter((number): number is number => number !== undefined);
+    const knownNumbers = [
+      ...Array.from(ownedNumbers),
+      ...knownVolumes.map(volume => volume.seriesNumber).filter((number): number is number => number !== undefined),
+    ];
+    const highestNumber = knownNumbers.length > 0 ? Math.floor(Math.max(...knownNumbers)) : 0;
+
+    const missingNumbers: number[] = [];
+    for (let number = 1; number <= highestNumber; number++) {
+      if (!ownedNumbers.has(number)) missingNumbers.push(number);
+    }
+
+    const nextToRead = group.books.find(book => !isRead(book) && book.status !== 'dnf');
+    const lastReadNumber = readNumbers.length > 0 ? Math.max(...readNumbers) : 0;
+    const nextMissingNumber = missingNumbers.find(number =>
+      number > lastReadNumber && (nextToRead?.seriesNumber === undefined || number < nextToRead.seriesNumber)
+    );
+
+    return {
+      ownedCount: group.books.length,
+      readCount: group.books.filter(isRead).length,
+      nextToRead,
+      nextMissingNumber,
+      missingNumbers,
+    };
+  },
+
+  // Search results for the series that aren't already in the library
+  getMissingVolumes: (group: SeriesGroup, volumes: SeriesBook[]): SeriesBook[] =>
+    volumes.filter(volume => !group.books.some(book => libraryMatching.isSameBook(volume, book))),
+};
@@ -1,92 +1,84 @@
-import { Book, ReadingStatus } from '@/types/book';
+import { LibraryData, LibraryStore, LibraryTable } from '@/types/repository';
 
-const STORAGE_KEY = 'novel-noted-books';
+const STORAGE_KEYS: Record<LibraryTable, string> = {
+  books: 'novel-noted-local-books',
+  wishlist: 'novel-noted-wishlist',
+  readingSessions: 'novel-noted-reading-sessions',
+  notes: 'novel-noted-notes',
+  highlights: 'novel-noted-highlights',
+  shelves: 'novel-noted-shelves',
+};
+
+// Where the old books-only storage kept books. Firestore's migrateFromLocalStorage uploads and then
+// removes this key, so the local backend copies it to its own key rather than living in it.
+export const LEGACY_BOOKS_KEY = 'novel-noted-books';
+
+// Copy books saved by the old storage to the local backend's key the first time they're needed
+const adoptLegacyBooks = (): string | null => {
+  const legacy = localStorage.getItem(LEGACY_BOOKS_KEY);
+  if (legacy) localStorage.setItem(STORAGE_KEYS.books, legacy);
+  return legacy;
+};
+
+// Fields stored as ISO strings that need to come back as Date objects, including inside reading history
+const DATE_FIELDS = new Set(['dateAdded', 'dateStarted', 'dateFinished', 'dateUpdated', 'startTime', 'endTime']);
+
+const reviveDates = (key: string, value: unknown) =>
+  DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value;
+
+// Apply a partial update to a book or wish list book, as the update types describe it: null clears
+// a field and undefined leaves it alone
+export const applyUpdate = <T extends object>(record: T, updates: { [K in keyof T]?: T[K] | null }): T => {
+  const result = { ...record };
+  (Object.keys(updates) as (keyof T)[]).forEach(key => {
+    const value = updates[key];
+    if (value === null) {
+      delete result[key];
+    } else if (value !== undefined) {
+      result[key] = value;
+    }
+  });
+  return result;
+};
+
+export const storage: LibraryStore = {
+  // Load one table from localStorage
+  load: <T extends LibraryTable>(table: T): LibraryData[T] => {
+    if (typeof window === 'undefined') return [] as LibraryData[T];
 
-export const storage = {
-  // Get all books from localStorage
-  getBooks: (): Book[] => {
-    if (typeof window === 'undefined') return [];
-    
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) return [];
-      
-      const books = JSON.parse(stored);
-      // Convert date strings back to Date objects
-      return books.map((book: Book) => ({
-        ...book,
-        dateAdded: new Date(book.dateAdded),
-        dateStarted: book.dateStarted ? new Date(book.dateStarted) : undefined,
-        dateFinished: book.dateFinished ? new Date(book.dateFinished) : undefined,
-      }));
+      const stored = localStorage.getItem(STORAGE_KEYS[table]) ?? (table === 'books' ? adoptLegacyBooks() : null);
+      if (!stored) return [] as LibraryData[T];
+
+      const items = JSON.parse(stored, reviveDates);
+      return (Array.isArray(items) ? items : []) as LibraryData[T];
     } catch (error) {
-      console.error('Error loading books from storage:', error);
-      return [];
+      console.error(`Error loading ${table} from storage:`, error);
+      return [] as LibraryData[T];
     }
   },
 
-  // Save books to localStorage
-  saveBooks: (books: Book[]): void => {
+  // Save one table to localStorage
+  save: <T extends LibraryTable>(table: T, items: LibraryData[T]): void => {
     if (typeof window === 'undefined') return;
-    
+
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(books));
+      localStorage.setItem(STORAGE_KEYS[table], JSON.stringify(items));
     } catch (error) {
-      console.error('Error saving books to storage:', error);
+      console.error(`Error saving ${table} to storage:`, error);
     }
   },
 
-  // Add a new book
-  addBook: (book: Omit<Book, 'id' | 'dateAdded'>): Book => {
-    const newBook: Book = {
-      ...book,
-      id: crypto.randomUUID(),
-      dateAdded: new Date(),
-    };
-    
-    const books = storage.getBooks();
-    books.push(newBook);
-    storage.saveBooks(books);
-    
-    return newBook;
-  },
+  // Pass on changes made in other tabs
+  watch: (callback: (table: LibraryTable) => void) => {
+    if (typeof window === 'undefined') return () => {};
 
-  // Update an existing book
-  updateBook: (id: string, updates: Partial<Book>): Book | null => {
-    const books = storage.getBooks();
-    const bookIndex = books.findIndex(book => book.id === id);
-    
-    if (bookIndex === -1) return null;
-    
-    books[bookIndex] = { ...books[bookIndex], ...updates };
-    storage.saveBooks(books);
-    
-    return books[bookIndex];
-  },
-
-  // Delete a book
-  deleteBook: (id: string): boolean => {
-    const books = storage.getBooks();
-    const filteredBooks = books.filter(book => book.id !== id);
-    
-    if (filteredBooks.length === books.length) return false;
-    
-    storage.saveBooks(filteredBooks);
-    return true;
-  },
-
-  // Get books by status
-  getBooksByStatus: (status: ReadingStatus): Book[] => {
-    return storage.getBooks().filter(book => book.status === status);
-  },
-
-  // Get reading statistics
-  getReadingStats: () => {
-    const books = storage.getBooks();
-    return {
-      total: books.length,
-      read: books.filter(book => book.status === 'read').length,
-      currentlyReading: books.filter(book => book.status === 'currently-reading').length,
+    const handleStorage = (event: StorageEvent) => {
+      const table = (Object.keys(STORAGE_KEYS) as LibraryTable[]).find(key => STORAGE_KEYS[key] === event.key);
+      if (table) callback(table);
     };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
   },
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { ReadingStatus } from '@/types/book';
+import { goodreadsUtils } from '@/utils/goodreads';
+import { storygraphUtils } from '@/utils/storygraph';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const HEADER = 'Title,Authors,ISBN/UID,Format,Read Status,Date Added,Last Date Read,Dates Read,Read Count,Star Rating,Owned?';
+
+const parse = (...rows: string[]) => storygraphUtils.parseLibraryExport([HEADER, ...rows].join('\n'), NOW);
+
+describe('storygraphUtils.parseLibraryExport', () => {
+  it('rejects files that aren\'t StoryGraph exports', () => {
+    expect(() => storygraphUtils.parseLibraryExport('Title,Author\nDune,Frank Herbert', NOW)).toThrow(
+      'This doesn\'t look like a StoryGraph export (missing Authors, Read Status).'
+    );
+  });
+
+  it('reads a finished book with its dates, quarter-star rating and format', () => {
+    const { data } = parse('Dune,Frank Herbert,9780441172719,digital,read,2024/01/02,2024/05/20,2024/05/01-2024/05/20,1,3.75,Yes');
+    expect(data.books).toEqual([
+      expect.objectContaining({
+        title: 'Dune',
+        isbn: '9780441172719',
+        status: 'read',
+        ownershipType: 'digital',
+        readingFormat: 'ebook',
+        dateAdded: new Date(2024, 0, 2),
+        dateStarted: new Date(2024, 4, 1),
+        dateFinished: new Date(2024, 4, 20),
+        rating: 3.75,
+      }),
+    ]);
+  });
+
+  it('keeps earlier read-throughs as readings', () => {
+    const { data } = parse(
+      'Dune,Frank Herbert,,paperback,read,,,"2020/01/05-2020/01/20, 2024/05/01-2024/05/20",2,,Yes'
+    );
+    expect(data.books[0]).toMatchObject({ dateStarted: new Date(2024, 4, 1), dateFinished: new Date(2024, 4, 20) });
+    expect(data.books[0].readings).toEqual([{ dateStarted: new Date(2020, 0, 5), dateFinished: new Date(2020, 0, 20) }]);
+  });
+
+  describe('rows with empty dates', () => {
+    (['read', 'did-not-finish'] as const).forEach(readStatus => {
+      it(`starts and finishes a ${readStatus} book today`, () => {
+        const { data } = parse(`Dune,Frank Herbert,,,${readStatus},,,,,,Yes`);
+        expect(data.books[0]).toMatchObject({ dateStarted: NOW, dateFinished: NOW, dateAdded: NOW });
+      });
+    });
+
+    (['currently-reading', 'paused'] as ReadingStatus[]).forEach(status => {
+      it(`starts a ${status} book today`, () => {
+        const { data } = parse(`Dune,Frank Herbert,,,${status},,,,,,Yes`);
+        expect(data.books[0]).toMatchObject({ status, dateStarted: NOW });
+        expect(data.books[0].dateFinished).toBeUndefined();
+      });
+    });
+
+    it('starts a book with only a last date read on that day', () => {
+      const { data } = parse('Dune,Frank Herbert,,,read,,2024/05/20,,,,Yes');
+      expect(data.books[0]).toMatchObject({ dateStarted: new Date(2024, 4, 20), dateFinished: new Date(2024, 4, 20) });
+    });
+  });
+
+  it('reads a single date as the start of a book still being read', () => {
+    const { data } = parse('Dune,Frank Herbert,,,currently-reading,,,2024/05/01,,,Yes');
+    expect(data.books[0].dateStarted).toEqual(new Date(2024, 4, 1));
+  });
+
+  it('keeps owned to-read books in the library and puts the rest on the wish list', () => {
+    const { data } = parse('Dune,Frank Herbert,,,to-read,,,,,,Yes', 'Emma,Jane Austen,,,to-read,,,,,,No');
+    expect(data.books.map(book => [book.title, book.status, book.dateStarted])).toEqual([['Dune', 'want-to-read', undefined]]);
+    expect(data.wishlist.map(book => book.title)).toEqual(['Emma']);
+  });
+
+  it('drops StoryGraph ids that aren\'t ISBNs', () => {
+    const { data } = parse('Dune,Frank Herbert,e4b2c9f0-1234,,read,,,,,,Yes');
+    expect(data.books[0].isbn).toBeUndefined();
+  });
+
+  it('skips rows with an unknown read status', () => {
+    const { skippedRows } = parse('Dune,Frank Herbert,,,reading,,,,,,Yes');
+    expect(skippedRows).toEqual([{ row: 2, title: 'Dune', reason: 'Unknown read status "reading"' }]);
+  });
+
+  it('cleans up series names the same way as the Goodreads importer', () => {
+    const title = '"Leviathan Wakes (The Expanse, #1)"';
+    const { data } = parse(`${title},James S.A. Corey,,,read,,,,,,Yes`);
+    const goodreads = goodreadsUtils.parseLibraryExport(`Title,Author,Exclusive Shelf\n${title},James S.A. Corey,read`, NOW);
+    expect(data.books[0]).toMatchObject({ series: 'The Expanse', seriesNumber: 1 });
+    expect(data.books[0].series).toBe(goodreads.data.books[0].series);
+  });
+});
+
+describe('storygraphUtils.toLibraryExport', () => {
+  it('writes every read-through and the read count', () => {
+    const csv = storygraphUtils.toLibraryExport(
+      [{
+        id: 'a',
+        title: 'Dune',
+        author: 'Frank Herbert',
+        status: 'read',
+        ownershipType: 'physical',
+        dateAdded: new Date(2024, 0, 2),
+        dateStarted: new Date(2024, 4, 1),
+        dateFinished: new Date(2024, 4, 20),
+        readings: [{ dateStarted: new Date(2020, 0, 5), dateFinished: new Date(2020, 0, 20) }],
+        rating: 4.5,
+      }],
+      []
+    );
+    expect(csv.split('\r\n')[1]).toBe(
+      'Dune,Frank Herbert,,paperback,read,2024/01/02,2024/05/20,"2020/01/05-2020/01/20, 2024/05/01-2024/05/20",2,4.5,Yes'
+    );
+  });
+});
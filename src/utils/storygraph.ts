@@ -0,0 +1,209 @@
+import { format } from 'date-fns';
+import { Book, OwnershipType, Reading, ReadingFormat, ReadingStatus, WishListBook } from '@/types/book';
+import { ImportSkippedRow, LibraryImport } from '@/types/import';
+import { csvUtils, CsvValue } from '@/utils/csv';
+import { isbnUtils } from '@/utils/isbn';
+import { readingStatus } from '@/utils/readingStatus';
+import { googleBooksAPI } from '@/utils/googleBooks';
+
+const REQUIRED_COLUMNS = ['Title', 'Authors', 'Read Status'];
+
+// StoryGraph read statuses. to-read is handled separately because unowned books go to the wish list.
+const READ_STATUSES: Record<string, ReadingStatus> = {
+  'read': 'read',
+  'currently-reading': 'currently-reading',
+  'paused': 'paused',
+  'did-not-finish': 'dnf',
+  'to-read': 'want-to-read',
+};
+
+const STATUS_READ_STATUSES: Record<ReadingStatus, string> = {
+  'want-to-read': 'to-read',
+  'currently-reading': 'currently-reading',
+  'paused': 'paused',
+  'read': 'read',
+  'dnf': 'did-not-finish',
+};
+
+// StoryGraph formats are hardcover, paperback, digital and audio
+const FORMATS: Record<string, { ownershipType: OwnershipType; readingFormat: ReadingFormat }> = {
+  'hardcover': { ownershipType: 'physical', readingFormat: 'print' },
+  'paperback': { ownershipType: 'physical', readingFormat: 'print' },
+  'digital': { ownershipType: 'digital', readingFormat: 'ebook' },
+  'audio': { ownershipType: 'digital', readingFormat: 'audiobook' },
+};
+
+const EXPORT_COLUMNS = [
+  'Title',
+  'Authors',
+  'ISBN/UID',
+  'Format',
+  'Read Status',
+  'Date Added',
+  'Last Date Read',
+  'Dates Read',
+  'Read Count',
+  'Star Rating',
+  'Owned?',
+];
+
+interface DateRange {
+  start?: Date;
+  end?: Date;
+}
+
+// Dates Read lists every read-through, oldest first: "2023/01/05-2023/01/20, 2023/05/01-2023/05/10".
+// A read-through with one date has only a finish date, or only a start date while still reading.
+const parseDateRanges = (value: string, isStillReading: boolean): DateRange[] =>
+  value.split(',').flatMap((part): DateRange[] => {
+    const dates = (part.match(/\d{4}\/\d{1,2}\/\d{1,2}/g) || []).map(csvUtils.parseDate);
+    if (dates.length === 0) return [];
+    if (dates.length === 1) return [isStillReading ? { start: dates[0] } : { end: dates[0] }];
+    return [{ start: dates[0], end: dates[1] }];
+  });
+
+const formatDate = (date?: Date): string => (date ? format(date, 'yyyy/MM/dd') : '');
+
+const formatDateRange = (start?: Date, end?: Date): string =>
+  start && end ? `${formatDate(start)}-${formatDate(end)}` : formatDate(start || end);
+
+// Star Rating allows quarter stars, e.g. 3.75
+const parseRating = (value: string): number | undefined => {
+  const rating = Math.round(parseFloat(value) * 4) / 4;
+  return rating >= 0.25 && rating <= 5 ? rating : undefined;
+};
+
+// ISBN/UID holds an ISBN when StoryGraph knows one and its own book id otherwise
+const parseIsbn = (value: string): string | undefined =>
+  (value && isbnUtils.toIsbn13(value)) || undefined;
+
+const getFormat = (book: Book): string => {
+  if (book.readingFormat === 'audiobook') return 'audio';
+  if (book.readingFormat === 'ebook' || book.ownershipType === 'digital') return 'digital';
+  return 'paperback'; // We don't record hardcover vs paperback
+};
+
+export const storygraphUtils = {
+  // Turn a StoryGraph export (Manage Account > Export StoryGraph Library) into library and wish
+  // list books. To-read books you own stay in the library. Throws if the file isn't a StoryGraph export.
+  parseLibraryExport: (csv: string, now: Date = new Date()): LibraryImport => {
+    const { headers, records } = csvUtils.parseRecords(csv);
+    const missing = REQUIRED_COLUMNS.filter(column => !headers.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`This doesn't look like a StoryGraph export (missing ${missing.join(', ')}).`);
+    }
+
+    const books: Book[] = [];
+    const wishlist: WishListBook[] = [];
+    const skippedRows: ImportSkippedRow[] = [];
+
+    records.forEach((record, index) => {
+      const row = index + 2;
+      const title = record['Title'];
+      const author = record['Authors'];
+      if (!title || !author) {
+        skippedRows.push({ row, title: title || undefined, reason: 'Missing title or author' });
+        return;
+      }
+
+      const readStatus = record['Read Status'].toLowerCase();
+      const status = READ_STATUSES[readStatus];
+      if (!status) {
+        skippedRows.push({ row, title, reason: `Unknown read status "${record['Read Status']}"` });
+        return;
+      }
+
+      const id = `storygraph-${row}`;
+      const isbn = parseIsbn(record['ISBN/UID'] || '');
+      const dateAdded = csvUtils.parseDate(record['Date Added'] || '') || now;
+      const isOwned = (record['Owned?'] || '').toLowerCase() === 'yes';
+
+      if (status === 'want-to-read' && !isOwned) {
+        wishlist.push({ id, title, author, isbn, dateAdded });
+        return;
+      }
+
+      const { ownershipType, readingFormat } = FORMATS[(record['Format'] || '').toLowerCase()] || { ownershipType: 'physical' };
+      const isStillReading = status === 'currently-reading' || status === 'paused';
+      const ranges = parseDateRanges(record['Dates Read'] || '', isStillReading);
+      const lastDateRead = csvUtils.parseDate(record['Last Date Read'] || '');
+
+      // The latest range is the current read-through; finished books keep earlier ones as readings
+      const current: DateRange = status === 'want-to-read'
+        ? {}
+        : ranges.pop() || { end: isStillReading ? undefined : lastDateRead };
+      const readings: Reading[] = status === 'read' || status === 'dnf'
+        ? ranges.map(range => ({ dateStarted: range.start, dateFinished: range.end }))
+        : [];
+      const { series, seriesNumber } = googleBooksAPI.extractSeriesInfo(title);
+      // Read-throughs without dates in the file default to today
+      const { dateStarted, dateFinished } = readingStatus.getImportedDates(
+        status,
+        { dateStarted: current.start, dateFinished: current.end },
+        now
+      );
+
+      books.push({
+        id,
+        title,
+        author,
+        isbn,
+        status,
+        ownershipType,
+        readingFormat: status === 'want-to-read' ? undefined : readingFormat,
+        dateAdded,
+        dateStarted,
+        dateFinished,
+        rating: status === 'read' ? parseRating(record['Star Rating'] || '') : undefined,
+        readings: readings.length > 0 ? readings : undefined,
+        series,
+        seriesNumber,
+      });
+    });
+
+    return {
+      data: { books, wishlist, readingSessions: [], notes: [], highlights: [], shelves: [] },
+      skippedRows,
+    };
+  },
+
+  // Write library and wish list books in the StoryGraph export layout
+  toLibraryExport: (books: Book[], wishlist: WishListBook[]): string => {
+    const rows: CsvValue[][] = [
+      ...books.map(book => {
+        const ranges = [
+          ...(book.readings || []).map(reading => formatDateRange(reading.dateStarted, reading.dateFinished)),
+          book.status === 'want-to-read' ? '' : formatDateRange(book.dateStarted, book.dateFinished),
+        ].filter(Boolean);
+
+        return [
+          book.title,
+          book.author,
+          book.isbn ? isbnUtils.clean(book.isbn) : '',
+          getFormat(book),
+          STATUS_READ_STATUSES[book.status],
+          formatDate(book.dateAdded),
+          formatDate(book.dateFinished),
+          ranges.join(', '),
+          readingStatus.getCompletedReadingCount(book),
+          book.rating ?? '',
+          'Yes',
+        ];
+      }),
+      ...wishlist.map(book => [
+        book.title,
+        book.author,
+        book.isbn ? isbnUtils.clean(book.isbn) : '',
+        '',
+        'to-read',
+        formatDate(book.dateAdded),
+        '',
+        '',
+        0,
+        '',
+        'No',
+      ]),
+    ];
+    return csvUtils.stringify(EXPORT_COLUMNS, rows);
+  },
+};
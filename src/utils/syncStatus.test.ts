@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/firebase', () => ({ db: {} }));
+vi.mock('firebase/firestore', () => ({
+  disableNetwork: vi.fn(async () => {}),
+  enableNetwork: vi.fn(async () => {}),
+}));
+
+// A write the test settles by hand, standing in for a Firestore write awaiting the server
+const deferredWrite = () => {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+// Fresh module state for every test, as the sync state is shared by the whole app
+const loadSyncStatus = async () => (await import('@/utils/syncStatus')).syncStatus;
+
+describe('syncStatus.queueWrite', () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  it('waits for an online write and counts it as pending until the server confirms it', async () => {
+    const syncStatus = await loadSyncStatus();
+    const write = deferredWrite();
+
+    const queued = syncStatus.queueWrite(write.promise, 'Update "Dune"');
+    expect(syncStatus.getState().pendingWrites).toBe(1);
+
+    write.resolve();
+    await queued;
+    expect(syncStatus.getState()).toMatchObject({ pendingWrites: 0, failures: [] });
+  });
+
+  it('rejects to the caller when an online write fails, without reporting it again', async () => {
+    const syncStatus = await loadSyncStatus();
+    const write = deferredWrite();
+
+    const queued = syncStatus.queueWrite(write.promise, 'Update "Dune"');
+    write.reject(new Error('permission-denied'));
+
+    await expect(queued).rejects.toThrow('permission-denied');
+    expect(syncStatus.getState()).toMatchObject({ pendingWrites: 0, failures: [] });
+  });
+
+  it('lets the caller carry on while offline and reports a later failure', async () => {
+    const syncStatus = await loadSyncStatus();
+    await syncStatus.workOffline();
+    const write = deferredWrite();
+
+    await syncStatus.queueWrite(write.promise, 'Update "Dune"');
+    expect(syncStatus.getState().pendingWrites).toBe(1);
+
+    write.reject(new Error('permission-denied'));
+    await vi.waitFor(() => expect(syncStatus.getState().pendingWrites).toBe(0));
+    expect(syncStatus.getState().failures).toEqual([
+      expect.objectContaining({ description: 'Update "Dune"', message: 'permission-denied' }),
+    ]);
+  });
+
+  it('keeps tracking a write that started online when the connection drops before it is confirmed', async () => {
+    const syncStatus = await loadSyncStatus();
+    const write = deferredWrite();
+
+    const queued = syncStatus.queueWrite(write.promise, 'Update "Dune"');
+    await syncStatus.workOffline();
+    await queued;
+    expect(syncStatus.getState().pendingWrites).toBe(1);
+
+    write.reject(new Error('permission-denied'));
+    await vi.waitFor(() => expect(syncStatus.getState().pendingWrites).toBe(0));
+    expect(syncStatus.getState().failures).toEqual([
+      expect.objectContaining({ description: 'Update "Dune"', message: 'permission-denied' }),
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { disableNetwork, enableNetwork } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+
+export interface SyncFailure {
+  id: string;
+  description: string; // What the user was doing, e.g. 'Update "Dune"'
+  message: string;
+  date: Date;
+}
+
+export interface SyncState {
+  online: boolean;
+  workingOffline: boolean; // The user chose to stop talking to the server and use the local cache only
+  pendingWrites: number; // Writes saved locally that the server hasn't confirmed yet
+  failures: SyncFailure[]; // Writes the server rejected after the caller had stopped waiting for them
+}
+
+let state: SyncState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  workingOffline: false,
+  pendingWrites: 0,
+  failures: [],
+};
+
+const listeners = new Set<(state: SyncState) => void>();
+
+// Whether writes are only reaching the local cache for now
+const isQueuing = (current: SyncState): boolean => !current.online || current.workingOffline;
+
+const setState = (updates: Partial<SyncState>) => {
+  state = { ...state, ...updates };
+  listeners.forEach(listener => listener(state));
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => setState({ online: true }));
+  window.addEventListener('offline', () => setState({ online: false }));
+}
+
+export const syncStatus = {
+  // Get the current connection and sync state
+  getState: (): SyncState => state,
+
+  // Listen for connection and sync changes; the listener is called immediately with the current state
+  subscribe: (listener: (state: SyncState) => void): (() => void) => {
+    listeners.add(listener);
+    listener(state);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Track a Firestore write until the server confirms it. Firestore applies the write to its
+  // local cache straight away but only resolves once the server acknowledges it, which never
+  // happens offline - so while offline, or as soon as the connection drops mid-write, the caller
+  // stops waiting and carries on. The write stays pending until it settles either way, and a
+  // failure nobody is awaiting any more is reported through `failures`.
+  queueWrite: async (write: Promise<unknown>, description: string): Promise<void> => {
+    let detached = isQueuing(state);
+    setState({ pendingWrites: state.pendingWrites + 1 });
+
+    const tracked = write.then(
+      () => {
+        setState({ pendingWrites: state.pendingWrites - 1 });
+      },
+      (error: unknown) => {
+        const failure: SyncFailure = {
+          id: crypto.randomUUID(),
+          description,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          date: new Date(),
+        };
+        setState({
+          pendingWrites: state.pendingWrites - 1,
+          failures: detached ? [...state.failures, failure] : state.failures,
+        });
+        throw error;
+      }
+    );
+    tracked.catch(() => {});
+    if (detached) return;
+
+    let stopWatching = () => {};
+    const wentOffline = new Promise<void>(resolve => {
+      const listener = (current: SyncState) => {
+        if (isQueuing(current)) resolve();
+      };
+      listeners.add(listener);
+      stopWatching = () => listeners.delete(listener);
+    });
+
+    try {
+      await Promise.race([tracked, wentOffline.then(() => { detached = true; })]);
+    } finally {
+      stopWatching();
+    }
+  },
+
+  // Stop syncing and keep working from the local cache until reconnect is called
+  workOffline: async (): Promise<void> => {
+    await disableNetwork(db);
+    setState({ workingOffline: true });
+  },
+
+  // Start syncing again, sending any writes made while offline
+  reconnect: async (): Promise<void> => {
+    await enableNetwork(db);
+    setState({ workingOffline: false });
+  },
+
+  // Dismiss a reported sync failure
+  dismissFailure: (id: string): void => {
+    setState({ failures: state.failures.filter(failure => failure.id !== id) });
+  },
+};
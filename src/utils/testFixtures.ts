@@ -0,0 +1,21 @@
+import { Book, WishListBook } from '@/types/book';
+
+// Shared records for the *.test.ts specs. Each spec overrides only the fields it cares about.
+
+export const makeBook = (overrides: Partial<Book> = {}): Book => ({
+  id: 'book-1',
+  title: 'Dune',
+  author: 'Frank Herbert',
+  status: 'want-to-read',
+  ownershipType: 'physical',
+  dateAdded: new Date('2024-01-01T12:00:00Z'),
+  ...overrides,
+});
+
+export const makeWishListBook = (overrides: Partial<WishListBook> = {}): WishListBook => ({
+  id: 'wish-1',
+  title: 'Children of Dune',
+  author: 'Frank Herbert',
+  dateAdded: new Date('2024-01-01T12:00:00Z'),
+  ...overrides,
+});
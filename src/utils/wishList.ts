@@ -0,0 +1,26 @@
+import { Book, OwnershipType, ReadingStatus, WishListBook } from '@/types/book';
+import { readingStatus } from '@/utils/readingStatus';
+
+export const wishListUtils = {
+  // The library book a wish list book becomes, keeping its publication details
+  toLibraryBook: (book: WishListBook, status: ReadingStatus, ownershipType: OwnershipType): Omit<Book, 'id' | 'dateAdded'> => ({
+    title: book.title,
+    author: book.author,
+    isbn: book.isbn,
+    coverUrl: book.coverUrl,
+    pages: book.pages,
+    genre: book.genre,
+    publisher: book.publisher,
+    publishedYear: book.publishedYear,
+    description: book.description,
+    ownershipType,
+    ...readingStatus.getInitialFields(status, { pages: book.pages }),
+  }),
+
+  // Who recommended the book and the user's notes on it, kept as a note on the library book.
+  // Priority and target price only matter while shopping, so they aren't carried over.
+  toNoteContent: (book: WishListBook): string | null => {
+    const parts = [book.recommendedBy && `Recommended by ${book.recommendedBy}`, book.notes].filter(Boolean);
+    return parts.length > 0 ? parts.join('\n\n') : null;
+  },
+};